@@ -0,0 +1,106 @@
+/**
+ * Edits of pending approvals, and posts still publishing once approved
+ *
+ * Run with: bun test
+ */
+
+import { expect, test } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { editApproval, getApproval, getApprovalArgs, publishApproval, requestApproval } from './approvals.js';
+import { getSkillTool } from '../mcp/tools.js';
+
+const CHAT_ID = 4321;
+
+function pending(toolName: string, args: Record<string, unknown>) {
+  const { approvalId } = requestApproval(CHAT_ID, getSkillTool(toolName)!, args);
+  return getApproval(approvalId!)!;
+}
+
+test('a caption line with a colon stays part of the caption', () => {
+  const approval = pending('instagram_post', {
+    filePath: '/uploads/beach.jpg',
+    mediaType: 'image',
+    caption: 'Beach day',
+  });
+
+  const edited = editApproval(approval, 'Beach day!\nTip: bring sunscreen\ntitle: not a field here');
+
+  expect(getApprovalArgs(edited)).toEqual({
+    filePath: '/uploads/beach.jpg',
+    mediaType: 'image',
+    caption: 'Beach day!\nTip: bring sunscreen\ntitle: not a field here',
+  });
+});
+
+test('lines naming a field of the tool set that field, the rest replaces the text', () => {
+  const approval = pending('youtube_upload', { filePath: '/uploads/tides.mp4', title: 'Tides' });
+
+  const edited = editApproval(approval, 'privacy: unlisted\ntags: sea, tides\nscheduledAt: 2026-11-02T09:00:00Z');
+  expect(getApprovalArgs(edited)).toEqual({
+    filePath: '/uploads/tides.mp4',
+    title: 'Tides',
+    privacy: 'unlisted',
+    tags: ['sea', 'tides'],
+    scheduledAt: '2026-11-02T09:00:00Z',
+  });
+
+  const retitled = editApproval(edited, 'Low tides\nmadeForKids: false');
+  expect(getApprovalArgs(retitled)).toMatchObject({ title: 'Low tides', madeForKids: false });
+});
+
+test('scheduler requests take content fields into the content and scheduling fields next to it', () => {
+  const approval = pending('scheduler_add', {
+    platform: 'facebook',
+    action: 'post-page',
+    content: { message: 'Opening soon' },
+    scheduledAt: '2026-11-01T09:00:00Z',
+  });
+
+  const edited = editApproval(
+    approval,
+    'Opening soon. Note: doors at 9\nlink: https://example.com\nscheduledAt: 2026-11-03T09:00:00Z'
+  );
+
+  expect(getApprovalArgs(edited)).toEqual({
+    platform: 'facebook',
+    action: 'post-page',
+    content: { message: 'Opening soon. Note: doors at 9', link: 'https://example.com' },
+    scheduledAt: '2026-11-03T09:00:00Z',
+  });
+});
+
+test('a TikTok post still publishing is handed to the scheduler to follow up', async () => {
+  const { getJob } = await import('../scheduler/queue.js');
+  const tool = getSkillTool('tiktok_upload')!;
+  const clip = join(process.env.RELAY_DIR!, 'uploads', 'direct.mp4');
+  writeFileSync(clip, 'video');
+
+  // Direct Post answers before TikTok has published the video
+  const handler = tool.handler;
+  tool.handler = async () => ({
+    success: true,
+    platform: 'tiktok',
+    action: 'upload',
+    publishId: 'v_pub_direct',
+    processing: true,
+    message: 'TikTok is still processing the video.',
+  });
+  try {
+    const approval = pending('tiktok_upload', { filePath: clip, title: 'Direct', mode: 'direct', privacy: 'private' });
+    const result = await publishApproval(approval);
+
+    expect(result).toMatchObject({ success: true, processing: true });
+    expect(result.message).toContain('once it is live or fails');
+    expect(getJob(result.jobId!)).toMatchObject({
+      platform: 'tiktok',
+      action: 'upload',
+      status: 'pending',
+      publishId: 'v_pub_direct',
+      chatId: CHAT_ID,
+    });
+    expect(getApproval(approval.id)!.status).toBe('published');
+  } finally {
+    tool.handler = handler;
+  }
+});
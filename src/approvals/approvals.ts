@@ -0,0 +1,453 @@
+/**
+ * Human approval step for publishing tools
+ *
+ * Publishing tool calls are stored as pending approvals instead of running.
+ * The relay shows a preview card with Publish / Edit / Schedule / Cancel
+ * buttons and only runs the skill once the user decides.
+ */
+
+import { basename } from 'path';
+import {
+  addApproval,
+  getApprovalById,
+  listPendingApprovals,
+  listStartedApprovals,
+  setApprovalMessageId,
+  startApproval,
+  transitionApproval,
+  updateApprovalArgs,
+} from '../storage/db.js';
+import { getSkillTool, getToolPlatform, isQueueTool, validateToolCall, type SkillTool } from '../mcp/tools.js';
+import { addJob, trackPublishing } from '../scheduler/queue.js';
+import { getOptimalPostingTime } from '../editorial/recommendations.js';
+import { getWorkspace } from '../workspaces/workspaces.js';
+import { getPlatform } from '../platforms/registry.js';
+import { checkContent } from '../validation/validation.js';
+import type {
+  PendingApproval,
+  SkillResult,
+  QueueAddRequest,
+  PostContent,
+  Workspace,
+} from '../platforms/types.js';
+
+// Fields a plain-text edit replaces, in order of preference
+const TEXT_FIELDS = ['caption', 'message', 'title'];
+
+// Fields of scheduler requests that sit next to the content
+const QUEUE_FIELDS = ['scheduledAt', 'rule', 'timezone', 'startAt', 'endAt', 'maxCount', 'name'];
+
+// Fields edited as comma-separated lists
+const LIST_FIELDS = ['tags', 'playlistIds'];
+
+// Main text field per platform when none is set yet
+const DEFAULT_TEXT_FIELD: Record<string, string> = {
+  youtube: 'title',
+  tiktok: 'title',
+  facebook: 'message',
+  instagram: 'caption',
+};
+
+type Args = Record<string, unknown>;
+
+/**
+ * Store a tool call for approval instead of running it
+ */
+export function requestApproval(
+  chatId: number,
+  tool: SkillTool,
+  args: Args,
+  workspaceId?: number
+): SkillResult {
+  const platform = getToolPlatform(tool.name, args);
+  const approvalId = addApproval(chatId, tool.name, platform, JSON.stringify(args), workspaceId);
+
+  return {
+    success: true,
+    platform,
+    action: tool.name,
+    approvalId,
+    message: `Waiting for the user to approve this in Telegram (approval #${approvalId}). Do not call the tool again.`,
+  };
+}
+
+/**
+ * Get the arguments of an approval
+ */
+export function getApprovalArgs(approval: PendingApproval): Args {
+  return JSON.parse(approval.argsJson);
+}
+
+/**
+ * Flatten scheduler requests so content fields sit next to scheduling fields
+ */
+function getPreviewFields(approval: PendingApproval): Args {
+  const args = getApprovalArgs(approval);
+  if (!isQueueTool(approval.tool)) return args;
+
+  const { content, ...rest } = args as { content?: Args };
+  return { ...(content || {}), ...rest };
+}
+
+/**
+ * Local files attached to an approval
+ */
+export function getApprovalFiles(approval: PendingApproval): string[] {
+  const fields = getPreviewFields(approval);
+  const items = (fields.items as { filePath?: string }[] | undefined) || [];
+  const captions = (fields.captions as { filePath?: string }[] | undefined) || [];
+  const files = [
+    fields.filePath as string | undefined,
+    ...items.map((item) => item.filePath),
+    fields.thumbnailPath as string | undefined,
+    ...captions.map((caption) => caption.filePath),
+  ];
+  return files.filter((file): file is string => !!file);
+}
+
+/**
+ * Format the preview card shown above the approval buttons
+ */
+export function formatPreview(approval: PendingApproval): string {
+  const fields = getPreviewFields(approval);
+
+  const account = fields.accountId || fields.pageId || fields.igUserId || 'default';
+  const text = fields.title || fields.caption || fields.message || '(none)';
+  const scheduled = fields.scheduledAt || fields.scheduledTime;
+
+  const media: string[] = getApprovalFiles(approval).map((file) => basename(file));
+  if (fields.imageUrl) media.push(fields.imageUrl as string);
+  if (fields.videoUrl) media.push(fields.videoUrl as string);
+  const itemCount = (fields.items as unknown[] | undefined)?.length;
+  if (itemCount && media.length === 0) media.push(`${itemCount} items`);
+
+  const lines = [
+    `📝 Approval #${approval.id}`,
+    ``,
+    `Platform: ${approval.platform}`,
+    `Account: ${account}`,
+    `${fields.title ? 'Title' : 'Caption'}: ${text}`,
+  ];
+  const targets = fields.targets as { platform: string }[] | undefined;
+  if (targets) lines.splice(2, 1, `Platforms: ${targets.map((target) => target.platform).join(', ')}`);
+  if (fields.description) lines.push(`Description: ${fields.description}`);
+  lines.push(`Privacy: ${fields.privacy || 'default'}`);
+  if (fields.rule) {
+    lines.push(`Repeats: ${fields.rule}${fields.maxCount ? `, ${fields.maxCount} times` : ''}`);
+    if (fields.endAt) lines.push(`Until: ${new Date(fields.endAt as string).toLocaleString()}`);
+  } else {
+    lines.push(`Scheduled: ${scheduled ? new Date(scheduled as string).toLocaleString() : 'publish now'}`);
+  }
+  if (fields.publishAt) lines.push(`Goes public: ${new Date(fields.publishAt as string).toLocaleString()}`);
+  // Changes to an uploaded video (update, thumbnail, playlist, caption track)
+  if (fields.videoId) lines.push(`Video: ${fields.videoId}`);
+  if (fields.thumbnailPath) lines.push(`Thumbnail: ${basename(fields.thumbnailPath as string)}`);
+  if (approval.tool === 'youtube_upload_caption' && fields.filePath) {
+    lines.push(`Caption track: ${basename(fields.filePath as string)} (${fields.language || 'unknown language'})`);
+  }
+  if (fields.playlistId) lines.push(`Playlist: ${fields.playlistId}`);
+  const playlists = fields.playlistIds as string[] | undefined;
+  if (playlists?.length) lines.push(`Playlists: ${playlists.join(', ')}`);
+  lines.push(`Media: ${media.length ? media.join(', ') : 'none'}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Get the fields an edit can set: the arguments of the tool (the content of
+ * scheduler requests) and the scheduling fields
+ */
+function getEditableFields(approval: PendingApproval): string[] {
+  const schema = getSkillTool(approval.tool)?.inputSchema;
+  const properties = isQueueTool(approval.tool) ? schema?.properties?.content?.properties : schema?.properties;
+  return [...Object.keys(properties || {}), ...QUEUE_FIELDS];
+}
+
+/**
+ * Apply an edit sent by the user
+ *
+ * Lines like "description: ..." set that field when the tool has it; the
+ * other lines, if any, replace the main text (caption, message or title), so
+ * a caption line like "Tip: bring sunscreen" stays text.
+ */
+export function editApproval(approval: PendingApproval, text: string): PendingApproval {
+  const args = getApprovalArgs(approval);
+  const isQueued = isQueueTool(approval.tool);
+  if (isQueued && !args.content) args.content = {};
+  const target = (isQueued ? args.content : args) as Args;
+
+  const editable = getEditableFields(approval);
+  const textLines: string[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(\w+):\s*(.+)$/);
+    if (!match || !editable.includes(match[1])) {
+      textLines.push(line);
+      continue;
+    }
+
+    const [, field, value] = match;
+    const destination = isQueued && QUEUE_FIELDS.includes(field) ? args : target;
+    destination[field] = LIST_FIELDS.includes(field)
+      ? value.split(',').map((item) => item.trim())
+      : value === 'true' || value === 'false'
+        ? value === 'true'
+        : value;
+  }
+
+  const mainText = textLines.join('\n').trim();
+  if (mainText) {
+    const field =
+      TEXT_FIELDS.find((name) => target[name] !== undefined) ||
+      DEFAULT_TEXT_FIELD[approval.platform] ||
+      'caption';
+    target[field] = mainText;
+  }
+
+  const argsJson = JSON.stringify(args);
+  updateApprovalArgs(approval.id, argsJson);
+  return { ...approval, argsJson };
+}
+
+/**
+ * Run the approved tool call
+ */
+export async function publishApproval(approval: PendingApproval): Promise<SkillResult> {
+  const tool = getSkillTool(approval.tool);
+  if (!tool) {
+    return {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: `Unknown tool: ${approval.tool}`,
+    };
+  }
+
+  // Edits may have broken the content; the approval stays pending so it can be fixed
+  const invalid = await validateToolCall(tool, getApprovalArgs(approval));
+  if (invalid) return invalid;
+
+  if (!startApproval(approval.id, 'publish')) {
+    return {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: `Approval #${approval.id} was already handled`,
+    };
+  }
+
+  let result: SkillResult;
+  try {
+    const workspace = approval.workspaceId ? getWorkspace(approval.workspaceId) : null;
+    result = await tool.handler(getApprovalArgs(approval), { workspace, chatId: approval.chatId });
+  } catch (error) {
+    result = {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  // Still publishing (TikTok Direct Post): the scheduler follows it up and reports the outcome
+  if (result.success && result.processing && result.publishId && getPlatform(approval.platform)?.statusAction) {
+    const { filePath, ...content } = getApprovalArgs(approval);
+    const jobId = trackPublishing(
+      {
+        platform: approval.platform,
+        action: tool.queueAction || approval.tool,
+        content: content as PostContent,
+        workspaceId: approval.workspaceId,
+        chatId: approval.chatId,
+      },
+      result.publishId
+    );
+    result = { ...result, jobId, message: `${result.message}\nYou will get a message here once it is live or fails.` };
+  }
+
+  transitionApproval(approval.id, 'approved', result.success ? 'published' : 'failed', JSON.stringify(result));
+  return result;
+}
+
+/**
+ * Queue the approved tool call instead of publishing now
+ *
+ * Uses the requested time if there is one, otherwise the next optimal
+ * posting time for the platform.
+ */
+export async function scheduleApproval(approval: PendingApproval): Promise<SkillResult> {
+  const tool = getSkillTool(approval.tool);
+  const args = getApprovalArgs(approval);
+  const workspace = approval.workspaceId ? getWorkspace(approval.workspaceId) : null;
+
+  if (approval.tool === 'campaign_post' && tool) {
+    return scheduleCampaignApproval(approval, tool, args, workspace);
+  }
+
+  let request: QueueAddRequest;
+  if (approval.tool === 'scheduler_add') {
+    request = {
+      ...(args as unknown as QueueAddRequest),
+      workspaceId: workspace?.id,
+      chatId: approval.chatId,
+    };
+  } else if (tool?.queueAction) {
+    const { filePath, scheduledAt, scheduledTime, ...content } = args as Args & {
+      filePath?: string;
+      scheduledAt?: string;
+      scheduledTime?: string;
+    };
+    request = {
+      platform: approval.platform,
+      action: tool.queueAction,
+      content: content as PostContent,
+      scheduledAt:
+        scheduledAt ||
+        scheduledTime ||
+        getOptimalPostingTime(approval.platform, undefined, workspace).toISOString(),
+      filePath,
+      workspaceId: workspace?.id,
+      chatId: approval.chatId,
+    };
+  } else {
+    return {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: `${approval.tool} cannot be scheduled`,
+    };
+  }
+
+  const invalid = await checkContent(request.platform, request.action, request.content, request.filePath);
+  if (invalid) return invalid;
+
+  if (!startApproval(approval.id, 'schedule')) {
+    return {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: `Approval #${approval.id} was already handled`,
+    };
+  }
+
+  let result: SkillResult;
+  try {
+    const jobId = await addJob(request);
+    result = {
+      success: true,
+      platform: 'scheduler',
+      action: 'add',
+      jobId,
+      message: `Scheduled for ${new Date(request.scheduledAt).toLocaleString()}`,
+    };
+  } catch (error) {
+    result = {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  transitionApproval(approval.id, 'approved', result.success ? 'scheduled' : 'failed', JSON.stringify(result));
+  return result;
+}
+
+/**
+ * Queue an approved campaign for its requested time or the next optimal
+ * posting time of its first platform
+ */
+async function scheduleCampaignApproval(
+  approval: PendingApproval,
+  tool: SkillTool,
+  args: Args,
+  workspace: Workspace | null
+): Promise<SkillResult> {
+  const targets = (args.targets as { platform: string }[] | undefined) || [];
+  const scheduledAt =
+    (args.scheduledAt as string | undefined) ||
+    getOptimalPostingTime(targets[0]?.platform || '', undefined, workspace).toISOString();
+
+  if (!startApproval(approval.id, 'schedule')) {
+    return {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: `Approval #${approval.id} was already handled`,
+    };
+  }
+
+  let result: SkillResult;
+  try {
+    result = await tool.handler({ ...args, scheduledAt }, { workspace, chatId: approval.chatId });
+    if (result.success) {
+      result = { ...result, message: `Scheduled for ${new Date(scheduledAt).toLocaleString()}. ${result.message}` };
+    }
+  } catch (error) {
+    result = {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  transitionApproval(approval.id, 'approved', result.success ? 'scheduled' : 'failed', JSON.stringify(result));
+  return result;
+}
+
+/**
+ * Cancel a pending approval
+ */
+export function cancelApproval(id: number): boolean {
+  return transitionApproval(id, 'pending', 'cancelled');
+}
+
+/**
+ * Fail approvals that were publishing or scheduling when the relay stopped
+ *
+ * The post may or may not have gone out, so nothing runs again by itself: the
+ * user checks the platform and can publish again, which resumes a YouTube
+ * upload where it stopped.
+ */
+export function failInterruptedApprovals(): { approval: PendingApproval; result: SkillResult }[] {
+  return listStartedApprovals().map((approval) => {
+    const step = approval.decision === 'schedule' ? 'scheduling' : 'publishing';
+    const result: SkillResult = {
+      success: false,
+      platform: approval.platform,
+      action: approval.tool,
+      error: `Interrupted by a restart while ${step}; check ${approval.platform} before publishing again`,
+    };
+    transitionApproval(approval.id, 'approved', 'failed', JSON.stringify(result));
+    return { approval, result };
+  });
+}
+
+/**
+ * Put a failed approval back up for a decision
+ * Returns null when it did not fail (e.g. it was already reopened).
+ */
+export function reopenApproval(id: number): PendingApproval | null {
+  return transitionApproval(id, 'failed', 'pending') ? getApprovalById(id) : null;
+}
+
+/**
+ * Get a specific approval by ID
+ */
+export function getApproval(id: number): PendingApproval | null {
+  return getApprovalById(id);
+}
+
+/**
+ * Remember the Telegram message showing an approval's preview card
+ */
+export function setApprovalCard(id: number, messageId: number): void {
+  setApprovalMessageId(id, messageId);
+}
+
+/**
+ * List approvals still waiting for a decision in a chat
+ */
+export function listApprovals(chatId: number): PendingApproval[] {
+  return listPendingApprovals(chatId);
+}
@@ -0,0 +1,187 @@
+/**
+ * Assistant backend calling the Anthropic Messages API directly
+ *
+ * The skill tools are offered as API tools and run in-process with the same
+ * rules as the MCP server (src/mcp/calls.ts). Claude is called again with the
+ * tool results until it answers without asking for another tool, for at most
+ * ASSISTANT_MAX_TURNS calls. The API is stateless, so the message history of
+ * each conversation is kept in SQLite under a generated session ID.
+ *
+ * Replies are not streamed token by token: the text of each call is shown
+ * once the call returns.
+ */
+
+import { randomUUID } from 'crypto';
+import { SKILL_TOOLS } from '../mcp/tools.js';
+import { callSkillTool } from '../mcp/calls.js';
+import { getWorkspace } from '../workspaces/workspaces.js';
+import { getAssistantConversation, saveAssistantConversation } from '../storage/db.js';
+import type { AssistantBackend, AssistantError, ClaudeUsage, SkillResult } from '../platforms/types.js';
+
+const API_URL = `${(process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '')}/v1/messages`;
+const API_KEY = process.env.ANTHROPIC_API_KEY || '';
+const API_VERSION = '2023-06-01';
+const MODEL = process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5';
+const MAX_TOKENS = parseInt(process.env.ANTHROPIC_MAX_TOKENS || '4096', 10);
+const MAX_TURNS = parseInt(process.env.ASSISTANT_MAX_TURNS || '10', 10);
+// USD per million tokens, used to estimate the cost shown in /sessions
+const PRICE_INPUT = parseFloat(process.env.ANTHROPIC_PRICE_INPUT || '3');
+const PRICE_OUTPUT = parseFloat(process.env.ANTHROPIC_PRICE_OUTPUT || '15');
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+interface Message {
+  role: 'user' | 'assistant';
+  content: string | ContentBlock[];
+}
+
+interface MessagesResponse {
+  content: ContentBlock[];
+  stop_reason: string; // end_turn, tool_use, max_tokens...
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+/**
+ * Error response of the Messages API
+ */
+class MessagesApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MessagesApiError';
+  }
+}
+
+const TOOLS = SKILL_TOOLS.map(({ name, description, inputSchema }) => ({
+  name,
+  description,
+  input_schema: inputSchema,
+}));
+
+async function createMessage(messages: Message[]): Promise<MessagesResponse> {
+  const response = await fetch(API_URL, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-api-key': API_KEY,
+      'anthropic-version': API_VERSION,
+    },
+    body: JSON.stringify({ model: MODEL, max_tokens: MAX_TOKENS, tools: TOOLS, messages }),
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: { message?: string } } | null;
+    throw new MessagesApiError(response.status, body?.error?.message || response.statusText);
+  }
+  return (await response.json()) as MessagesResponse;
+}
+
+function addUsage(total: ClaudeUsage, usage: MessagesResponse['usage']): void {
+  const inputTokens =
+    usage.input_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+  total.inputTokens += inputTokens;
+  total.outputTokens += usage.output_tokens;
+  total.costUsd += (inputTokens * PRICE_INPUT + usage.output_tokens * PRICE_OUTPUT) / 1_000_000;
+}
+
+function getApiError(error: unknown): AssistantError {
+  if (!(error instanceof MessagesApiError)) {
+    return { kind: 'failed', message: error instanceof Error ? error.message : String(error) };
+  }
+  if (error.status === 401 || error.status === 403) {
+    return { kind: 'auth', message: 'check ANTHROPIC_API_KEY' };
+  }
+  if (error.status === 429 || error.status === 529) {
+    return { kind: 'rate_limit', message: error.message };
+  }
+  if (/credit balance/i.test(error.message)) {
+    return { kind: 'credits', message: error.message };
+  }
+  return { kind: 'failed', message: `${error.status}: ${error.message}` };
+}
+
+export const apiBackend: AssistantBackend = {
+  name: 'api',
+  isConfigured: () => !!API_KEY,
+
+  reply: async (request, events) => {
+    const history = request.sessionId ? getAssistantConversation(request.sessionId) : [];
+    if (!history) {
+      return {
+        text: '',
+        skillResults: [],
+        error: { kind: 'session_not_found', message: `no history for ${request.sessionId}` },
+      };
+    }
+
+    const sessionId = request.sessionId || randomUUID();
+    const messages: Message[] = [...(history as Message[]), { role: 'user', content: request.prompt }];
+    const context = {
+      chatId: request.chatId ?? null,
+      workspace: request.workspaceId !== undefined ? getWorkspace(request.workspaceId) : null,
+    };
+    const usage: ClaudeUsage = { costUsd: 0, inputTokens: 0, outputTokens: 0 };
+    const skillResults: SkillResult[] = [];
+    const texts: string[] = [];
+    let text = '';
+    let turns = 0;
+    let error: AssistantError | undefined;
+
+    try {
+      while (true) {
+        if (turns >= MAX_TURNS) {
+          error = { kind: 'max_turns', message: `stopped after ${turns} turns` };
+          break;
+        }
+        turns++;
+
+        const response = await createMessage(messages);
+        addUsage(usage, response.usage);
+        messages.push({ role: 'assistant', content: response.content });
+
+        text = response.content
+          .flatMap((block) => (block.type === 'text' ? [block.text] : []))
+          .join('\n\n')
+          .trim();
+        if (text) {
+          texts.push(text);
+          events?.text(texts.join('\n\n'));
+        }
+
+        const calls = response.content.flatMap((block) => (block.type === 'tool_use' ? [block] : []));
+        if (response.stop_reason !== 'tool_use' || calls.length === 0) break;
+
+        const results: ContentBlock[] = [];
+        for (const call of calls) {
+          events?.tool(call.name);
+          const result = await callSkillTool(call.name, call.input, context);
+          skillResults.push(result);
+          results.push({
+            type: 'tool_result',
+            tool_use_id: call.id,
+            content: JSON.stringify(result),
+            is_error: !result.success,
+          });
+        }
+        events?.tool(null);
+        messages.push({ role: 'user', content: results });
+      }
+    } catch (apiError) {
+      // A tool call without its result would break the conversation: keep the history as it was
+      return { text: '', usage, turns, skillResults, error: getApiError(apiError) };
+    }
+
+    saveAssistantConversation(sessionId, messages);
+    return { text, sessionId, usage, turns, skillResults, error };
+  },
+};
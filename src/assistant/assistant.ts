@@ -0,0 +1,45 @@
+/**
+ * The assistant answering chat messages
+ *
+ * Chosen with ASSISTANT_BACKEND:
+ *
+ * - cli: the Claude Code CLI with the MCP skill server (default)
+ * - api: the Anthropic Messages API with the skill tools (ANTHROPIC_API_KEY)
+ * - stub: canned replies from a fixtures file (ASSISTANT_FIXTURES), for CI
+ *   and offline development
+ *
+ * Adding a backend means implementing AssistantBackend and listing it below.
+ */
+
+import { cliBackend } from './cli-backend.js';
+import { apiBackend } from './api-backend.js';
+import { stubBackend } from './stub-backend.js';
+import type { AssistantBackend, AssistantEvents, AssistantReply, AssistantRequest } from '../platforms/types.js';
+
+const BACKEND = process.env.ASSISTANT_BACKEND || 'cli';
+
+const BACKENDS: AssistantBackend[] = [cliBackend, apiBackend, stubBackend];
+
+/**
+ * Get the configured backend, or null when it is unknown or not set up
+ */
+export function getAssistantBackend(): AssistantBackend | null {
+  const backend = BACKENDS.find((b) => b.name === BACKEND);
+  return backend?.isConfigured() ? backend : null;
+}
+
+/**
+ * Ask the assistant to reply to a message
+ */
+export async function askAssistant(request: AssistantRequest, events?: AssistantEvents): Promise<AssistantReply> {
+  const backend = getAssistantBackend();
+  if (!backend) {
+    return {
+      text: '',
+      skillResults: [],
+      error: { kind: 'failed', message: `Assistant backend "${BACKEND}" is not configured` },
+    };
+  }
+
+  return backend.reply(request, events);
+}
@@ -0,0 +1,265 @@
+/**
+ * Assistant backend running the Claude Code CLI (`claude -p`)
+ *
+ * Every call attaches the MCP skill server (src/mcp/server.ts), which appends
+ * the result of each tool to a file read back once the run ends. The CLI
+ * keeps the conversation itself (--resume). Its stream-json output carries the
+ * text as it is written, the tool calls, and a final result with the session
+ * ID, cost and token usage.
+ */
+
+import { spawn, which } from 'bun';
+import { mkdir, readFile, unlink } from 'fs/promises';
+import { join } from 'path';
+import type {
+  AssistantBackend,
+  AssistantError,
+  AssistantEvents,
+  AssistantReply,
+  ClaudeUsage,
+  SkillResult,
+} from '../platforms/types.js';
+
+const CLAUDE_PATH = process.env.CLAUDE_PATH || 'claude';
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || '~', '.claude-relay');
+const TEMP_DIR = join(RELAY_DIR, 'temp');
+
+// Skill tools are served by src/mcp/server.ts and attached to every call
+const MCP_SERVER_NAME = 'social';
+const MCP_SERVER_PATH = join(import.meta.dir, '../mcp/server.ts');
+
+// Final event of `claude -p --output-format stream-json`
+interface ClaudeCliResult {
+  type: 'result';
+  subtype: string; // success, error_max_turns, error_during_execution
+  is_error?: boolean; // Also set on a "success" that is an API error (login, credits...)
+  result?: string;
+  session_id?: string;
+  num_turns?: number;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+// Other events of the stream (system, stream_event, assistant, user)
+interface ClaudeStreamEvent {
+  type: string;
+  // Partial message events (--include-partial-messages)
+  event?: {
+    type: string;
+    delta?: { type: string; text?: string };
+    content_block?: { type: string; name?: string };
+  };
+  // Complete assistant messages and tool results
+  message?: { content?: { type: string; text?: string; name?: string }[] | string };
+}
+
+function buildMcpConfig(resultsFile: string, chatId?: number, workspaceId?: number): string {
+  return JSON.stringify({
+    mcpServers: {
+      [MCP_SERVER_NAME]: {
+        command: 'bun',
+        args: ['run', MCP_SERVER_PATH],
+        env: {
+          SKILL_RESULTS_FILE: resultsFile,
+          RELAY_DIR,
+          // Publishing tools wait for approval in this chat
+          ...(chatId !== undefined && { RELAY_CHAT_ID: chatId.toString() }),
+          // Queue, default accounts and recommendations of the chat's workspace
+          ...(workspaceId !== undefined && { RELAY_WORKSPACE_ID: workspaceId.toString() }),
+        },
+      },
+    },
+  });
+}
+
+async function readSkillResults(resultsFile: string): Promise<SkillResult[]> {
+  const content = await readFile(resultsFile, 'utf-8').catch(() => '');
+  await unlink(resultsFile).catch(() => {});
+
+  const results: SkillResult[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      results.push(JSON.parse(line) as SkillResult);
+    } catch {
+      // A line the MCP server did not finish writing
+      console.error(`Skipping unreadable skill result: ${line.slice(0, 100)}`);
+    }
+  }
+  return results;
+}
+
+function parseStreamEvent(line: string): ClaudeStreamEvent | null {
+  if (!line.trim()) return null;
+  try {
+    return JSON.parse(line) as ClaudeStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+function toolLabel(name: string): string {
+  return name.replace(`mcp__${MCP_SERVER_NAME}__`, '');
+}
+
+/**
+ * Follow the text and tool calls of a streamed run
+ * Text arrives as deltas while a block is written, then once more as the complete message.
+ */
+function createStreamHandler(events?: AssistantEvents): (event: ClaudeStreamEvent) => void {
+  let text = ''; // Completed text blocks of this run
+  let partial = ''; // Text block being written
+
+  const join = (...parts: string[]): string => parts.filter((part) => part.trim()).join('\n\n');
+
+  return (event) => {
+    if (!events) return;
+
+    switch (event.type) {
+      case 'stream_event': {
+        const { type, delta, content_block } = event.event || {};
+        if (type === 'content_block_delta' && delta?.type === 'text_delta' && delta.text) {
+          partial += delta.text;
+          events.text(join(text, partial));
+        } else if (type === 'content_block_start' && content_block?.type === 'tool_use' && content_block.name) {
+          events.tool(toolLabel(content_block.name));
+        }
+        break;
+      }
+
+      case 'assistant': {
+        const content = Array.isArray(event.message?.content) ? event.message.content : [];
+        for (const block of content) {
+          if (block.type === 'text' && block.text) {
+            text = join(text, block.text);
+            partial = '';
+            events.text(text);
+          } else if (block.type === 'tool_use' && block.name) {
+            events.tool(toolLabel(block.name));
+          }
+        }
+        break;
+      }
+
+      // Tool results come back as a user message
+      case 'user':
+        events.tool(null);
+        break;
+    }
+  };
+}
+
+function getUsage(result: ClaudeCliResult): ClaudeUsage {
+  const usage = result.usage || {};
+  return {
+    costUsd: result.total_cost_usd || 0,
+    inputTokens:
+      (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+    outputTokens: usage.output_tokens || 0,
+  };
+}
+
+/**
+ * Classify a failed run from its result, or from stderr when the CLI gave none
+ */
+function getCliError(result: ClaudeCliResult | null, stderr: string, exitCode: number): AssistantError {
+  const message = (result?.result || stderr).trim() || `exit code ${exitCode}`;
+
+  switch (result?.subtype) {
+    case 'error_max_turns':
+      return { kind: 'max_turns', message: `stopped after ${result.num_turns ?? '?'} turns` };
+    case 'error_during_execution':
+      return { kind: 'failed', message: 'error during execution' };
+  }
+
+  if (!result && /no conversation found/i.test(stderr)) {
+    return { kind: 'session_not_found', message };
+  }
+  if (/credit balance/i.test(message)) {
+    return { kind: 'credits', message };
+  }
+  if (/usage limit|rate limit|overloaded/i.test(message)) {
+    return { kind: 'rate_limit', message };
+  }
+  if (/\/login|api key|not logged in/i.test(message)) {
+    return { kind: 'auth', message: 'run `claude` on the server and log in again' };
+  }
+  return { kind: 'failed', message };
+}
+
+export const cliBackend: AssistantBackend = {
+  name: 'cli',
+  isConfigured: () => which(CLAUDE_PATH) !== null,
+
+  reply: async (request, events) => {
+    await mkdir(TEMP_DIR, { recursive: true });
+    const resultsFile = join(TEMP_DIR, `skill-results-${Date.now()}.jsonl`);
+    const args = [CLAUDE_PATH, '-p', request.prompt];
+
+    if (request.sessionId) {
+      args.push('--resume', request.sessionId);
+    }
+
+    args.push('--mcp-config', buildMcpConfig(resultsFile, request.chatId, request.workspaceId));
+    args.push('--allowedTools', `mcp__${MCP_SERVER_NAME}`);
+    args.push('--output-format', 'stream-json', '--verbose', '--include-partial-messages');
+
+    try {
+      const proc = spawn(args, { stdout: 'pipe', stderr: 'pipe' });
+
+      const stderrText = new Response(proc.stderr).text();
+      const handleEvent = createStreamHandler(events);
+      let result: ClaudeCliResult | null = null;
+
+      // One JSON event per line
+      const decoder = new TextDecoder();
+      let buffer = '';
+      const readLines = (lines: string[]): ClaudeCliResult | null => {
+        let last: ClaudeCliResult | null = null;
+        for (const line of lines) {
+          const event = parseStreamEvent(line);
+          if (event?.type === 'result') {
+            last = event as unknown as ClaudeCliResult;
+          } else if (event) {
+            handleEvent(event);
+          }
+        }
+        return last;
+      };
+      for await (const chunk of proc.stdout) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        result = readLines(lines) || result;
+      }
+      result = readLines([buffer + decoder.decode()]) || result;
+
+      const stderr = await stderrText;
+      const exitCode = await proc.exited;
+      const reply: AssistantReply = {
+        text: (result?.result || '').trim(),
+        sessionId: result?.session_id,
+        usage: result ? getUsage(result) : undefined,
+        turns: result?.num_turns,
+        skillResults: await readSkillResults(resultsFile),
+      };
+
+      if (!result || result.subtype !== 'success' || result.is_error) {
+        reply.error = getCliError(result, stderr, exitCode);
+      }
+      return reply;
+    } catch (error) {
+      await unlink(resultsFile).catch(() => {});
+      return {
+        text: '',
+        skillResults: [],
+        error: { kind: 'failed', message: `could not run ${CLAUDE_PATH}: ${error instanceof Error ? error.message : error}` },
+      };
+    }
+  },
+};
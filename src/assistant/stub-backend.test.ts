@@ -0,0 +1,114 @@
+/**
+ * The stub backend drives the same tool → approval → publish flow as the real ones
+ *
+ * Run with: bun test
+ */
+
+import { beforeAll, expect, test } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const CHAT_ID = 1234;
+
+let image: string;
+
+beforeAll(() => {
+  // Sent to the bot, so saved in the uploads of the test relay directory (src/test-setup.ts)
+  image = join(process.env.RELAY_DIR!, 'uploads', 'photo.png');
+  writeFileSync(image, PNG);
+
+  // The backend is chosen when the assistant module loads
+  process.env.ASSISTANT_BACKEND = 'stub';
+  process.env.ASSISTANT_FIXTURES = join(import.meta.dir, '../../examples/assistant-fixtures.json');
+});
+
+/**
+ * Ask for an Instagram post of a file and return its pending approval
+ */
+async function requestPost(filePath: string, caption: string) {
+  const { askAssistant } = await import('./assistant.js');
+  const { getApproval } = await import('../approvals/approvals.js');
+
+  const tools: (string | null)[] = [];
+  const reply = await askAssistant(
+    { prompt: `[Media: image at ${filePath}]\n\nUser: Post to Instagram: ${caption}`, chatId: CHAT_ID },
+    { text: () => {}, tool: (name) => tools.push(name) }
+  );
+
+  expect(reply.error).toBeUndefined();
+  expect(reply.text).toBe('Your Instagram post is ready for review.');
+  expect(tools).toEqual(['instagram_post', null]);
+
+  const [result] = reply.skillResults;
+  return { result, approval: result.approvalId ? getApproval(result.approvalId) : null };
+}
+
+test('a post request waits for approval, then is queued on schedule', async () => {
+  const { scheduleApproval, getApproval } = await import('../approvals/approvals.js');
+  const { getJob } = await import('../scheduler/queue.js');
+
+  // Nothing is published or queued before the user approves it
+  const { result, approval } = await requestPost(image, 'Sunset over the bay');
+  expect(result.success).toBe(true);
+  expect(approval!.status).toBe('pending');
+  expect(approval!.chatId).toBe(CHAT_ID);
+  expect(JSON.parse(approval!.argsJson)).toMatchObject({
+    filePath: image,
+    mediaType: 'image',
+    caption: 'Sunset over the bay',
+  });
+
+  const scheduled = await scheduleApproval(approval!);
+  expect(scheduled.success).toBe(true);
+  expect(getApproval(approval!.id)!.status).toBe('scheduled');
+
+  const job = getJob(scheduled.jobId!)!;
+  expect(job).toMatchObject({ platform: 'instagram', action: 'post', status: 'pending', filePath: image });
+  expect(job.chatId).toBe(CHAT_ID);
+  expect(JSON.parse(job.contentJson)).toMatchObject({ mediaType: 'image', caption: 'Sunset over the bay' });
+  expect(job.scheduledAt.getTime()).toBeGreaterThan(Date.now());
+
+  // An approval is only ever handled once
+  const again = await scheduleApproval(approval!);
+  expect(again.error).toContain('already handled');
+});
+
+test('an approved post without a connected account asks to log in, and can be published again', async () => {
+  const { publishApproval, reopenApproval, getApproval } = await import('../approvals/approvals.js');
+
+  const { approval } = await requestPost(image, 'Harbour lights');
+
+  const published = await publishApproval(approval!);
+  expect(published).toMatchObject({ success: false, platform: 'instagram', needsAuth: true });
+  expect(published.error).toContain('Facebook authentication required');
+
+  const failed = getApproval(approval!.id)!;
+  expect(failed.status).toBe('failed');
+  expect(JSON.parse(failed.resultJson!)).toMatchObject({ needsAuth: true });
+
+  expect(reopenApproval(approval!.id)!.status).toBe('pending');
+  expect(reopenApproval(approval!.id)).toBeNull();
+});
+
+test('files that were not sent to the bot are refused before approval', async () => {
+  const { result, approval } = await requestPost('/etc/hostname.png', 'Not mine');
+
+  expect(result.success).toBe(false);
+  expect(result.error).toContain('was not sent to the bot');
+  expect(approval).toBeNull();
+});
+
+test('messages without a fixture get the fallback reply', async () => {
+  const { askAssistant } = await import('./assistant.js');
+
+  const reply = await askAssistant({ prompt: 'User: what is the weather like?', chatId: CHAT_ID });
+
+  expect(reply.text).toBe('No canned reply matches this message (stub assistant).');
+  expect(reply.skillResults).toEqual([]);
+});
@@ -0,0 +1,111 @@
+/**
+ * Assistant backend replaying canned replies from a fixtures file
+ *
+ * Needs neither the Claude CLI nor network access, so the relay can run in CI
+ * or offline with the real Telegram → tool → skill flow. Each message is
+ * matched against the fixtures in ASSISTANT_FIXTURES, in order:
+ *
+ *   {
+ *     "replies": [
+ *       {
+ *         "match": "\\[Media: video at (\\S+)\\][\\s\\S]*User: .*youtube",
+ *         "tools": [{ "name": "youtube_upload", "arguments": { "filePath": "$1", "title": "Demo" } }],
+ *         "text": "Your video is ready for review."
+ *       }
+ *     ],
+ *     "fallback": "No canned reply for this message."
+ *   }
+ *
+ * `match` is a case-insensitive regular expression tested against the whole
+ * prompt (the user's message follows "User:"). Its groups replace $1, $2...
+ * in the text and in string tool arguments. The tools of the first matching
+ * fixture are called like the real backends call them (src/mcp/calls.ts),
+ * then its text is the reply.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { callSkillTool } from '../mcp/calls.js';
+import { getWorkspace } from '../workspaces/workspaces.js';
+import type { AssistantBackend, SkillResult } from '../platforms/types.js';
+
+const FIXTURES_PATH = process.env.ASSISTANT_FIXTURES || 'examples/assistant-fixtures.json';
+
+interface StubFixture {
+  match: string;
+  text: string;
+  tools?: { name: string; arguments?: Record<string, unknown> }[];
+}
+
+interface StubFixtures {
+  replies: StubFixture[];
+  fallback?: string;
+}
+
+/**
+ * Replace $1, $2... in the strings of a value by the groups of the match
+ */
+function fill<T>(value: T, groups: string[]): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$(\d+)/g, (_, index: string) => groups[parseInt(index, 10)] ?? '') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fill(item, groups)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item, groups)])) as T;
+  }
+  return value;
+}
+
+export const stubBackend: AssistantBackend = {
+  name: 'stub',
+  isConfigured: () => existsSync(FIXTURES_PATH),
+
+  reply: async (request, events) => {
+    let fixtures: StubFixtures;
+    try {
+      fixtures = JSON.parse(await readFile(FIXTURES_PATH, 'utf-8')) as StubFixtures;
+    } catch (error) {
+      return {
+        text: '',
+        skillResults: [],
+        error: { kind: 'failed', message: `could not read ${FIXTURES_PATH}: ${error instanceof Error ? error.message : error}` },
+      };
+    }
+
+    // Same prompt, same conversation: replays stay deterministic
+    const sessionId =
+      request.sessionId || `stub-${createHash('sha1').update(request.prompt).digest('hex').slice(0, 12)}`;
+    const usage = { costUsd: 0, inputTokens: 0, outputTokens: 0 };
+
+    let groups: string[] = [];
+    const fixture = (fixtures.replies || []).find((candidate) => {
+      const match = new RegExp(candidate.match, 'i').exec(request.prompt);
+      if (match) groups = [...match].map((group) => group ?? '');
+      return !!match;
+    });
+
+    if (!fixture) {
+      const text = fixtures.fallback || 'No canned reply matches this message.';
+      events?.text(text);
+      return { text, sessionId, usage, turns: 1, skillResults: [] };
+    }
+
+    const context = {
+      chatId: request.chatId ?? null,
+      workspace: request.workspaceId !== undefined ? getWorkspace(request.workspaceId) : null,
+    };
+    const skillResults: SkillResult[] = [];
+    for (const tool of fixture.tools || []) {
+      events?.tool(tool.name);
+      skillResults.push(await callSkillTool(tool.name, fill(tool.arguments || {}, groups), context));
+    }
+    events?.tool(null);
+
+    const text = fill(fixture.text, groups);
+    events?.text(text);
+    return { text, sessionId, usage, turns: (fixture.tools?.length || 0) + 1, skillResults };
+  },
+};
@@ -1,12 +1,18 @@
 /**
  * Local OAuth callback server for handling OAuth flows
+ * (also serves temporary media links, see media/hosting.ts)
  */
 
 import { createServer, type IncomingMessage, type ServerResponse } from 'http';
 import { URL } from 'url';
 import { randomBytes, createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { pipeline } from 'stream';
 import open from 'open';
-import { storeToken, createTokenData } from './token-manager.js';
+import { storeToken } from './token-manager.js';
+import { getPlatform } from '../platforms/registry.js';
+import { resolveMediaRequest, getMimeType } from '../media/hosting.js';
 import type { OAuthState } from '../platforms/types.js';
 
 const PORT = parseInt(process.env.OAUTH_PORT || '3000', 10);
@@ -26,9 +32,9 @@ export function generatePKCE(): { codeVerifier: string; codeChallenge: string }
   return { codeVerifier, codeChallenge };
 }
 
-export function generateState(platform: string, userId: string): string {
+export function generateState(platform: string, userId: string, addAccount?: boolean): string {
   const state = randomBytes(16).toString('hex');
-  oauthStates.set(state, { platform, userId });
+  oauthStates.set(state, { platform, userId, addAccount });
   // Clean up state after 10 minutes
   setTimeout(() => oauthStates.delete(state), 10 * 60 * 1000);
   return state;
@@ -44,225 +50,101 @@ export function verifyState(state: string): OAuthState | null {
 }
 
 // ============================================================================
-// AUTH URL GENERATORS
+// AUTH URL
 // ============================================================================
 
-export function generateYouTubeAuthUrl(userId: string): string {
-  const clientId = process.env.YOUTUBE_CLIENT_ID;
-  const redirectUri = process.env.YOUTUBE_REDIRECT_URI;
-
-  if (!clientId || !redirectUri) {
-    throw new Error('YouTube OAuth credentials not configured');
+/**
+ * Build the authorization URL of a platform (see platforms/registry.ts)
+ */
+export async function generateAuthUrl(
+  platform: string,
+  userId: string,
+  options?: { addAccount?: boolean }
+): Promise<string> {
+  const adapter = getPlatform(platform);
+  if (!adapter) {
+    throw new Error(`Unknown platform: ${platform}`);
+  }
+  if (!adapter.getAuthUrl) {
+    throw new Error(`${adapter.displayName} uses the ${adapter.authPlatform} login, run /auth ${adapter.authPlatform}`);
   }
 
-  const { codeChallenge } = generatePKCE();
-  const state = generateState('youtube', userId);
+  const { codeVerifier, codeChallenge } = generatePKCE();
+  const state = generateState(adapter.name, userId, options?.addAccount);
 
   // Store code verifier with state for later
   const stateData = oauthStates.get(state);
   if (stateData) {
-    stateData.codeVerifier = generatePKCE().codeVerifier;
+    stateData.codeVerifier = codeVerifier;
     oauthStates.set(state, stateData);
   }
 
-  const params = new URLSearchParams({
-    client_id: clientId,
-    redirect_uri: redirectUri,
-    response_type: 'code',
-    scope: 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly',
-    access_type: 'offline',
-    state,
-    code_challenge: codeChallenge,
-    code_challenge_method: 'S256',
-    prompt: 'consent',
-  });
-
-  return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
-}
-
-export function generateFacebookAuthUrl(userId: string): string {
-  const appId = process.env.FACEBOOK_APP_ID;
-  const redirectUri = process.env.FACEBOOK_REDIRECT_URI;
-
-  if (!appId || !redirectUri) {
-    throw new Error('Facebook OAuth credentials not configured');
-  }
-
-  const state = generateState('facebook', userId);
-
-  const params = new URLSearchParams({
-    client_id: appId,
-    redirect_uri: redirectUri,
-    response_type: 'code',
-    scope: 'pages_manage_posts,pages_read_engagement,instagram_basic,instagram_content_publish',
-    state,
-  });
-
-  return `https://www.facebook.com/v18.0/dialog/oauth?${params.toString()}`;
-}
-
-export function generateTikTokAuthUrl(userId: string): string {
-  const clientKey = process.env.TIKTOK_CLIENT_KEY;
-  const redirectUri = process.env.TIKTOK_REDIRECT_URI;
-
-  if (!clientKey || !redirectUri) {
-    throw new Error('TikTok OAuth credentials not configured');
-  }
-
-  const state = generateState('tiktok', userId);
-
-  const params = new URLSearchParams({
-    client_key: clientKey,
-    redirect_uri: redirectUri,
-    response_type: 'code',
-    scope: 'video.upload,video.publish',
-    state,
-  });
-
-  return `https://www.tiktok.com/v2/auth/authorize?${params.toString()}`;
-}
-
-export async function generateAuthUrl(platform: string, userId: string): Promise<string> {
-  switch (platform) {
-    case 'youtube':
-      return generateYouTubeAuthUrl(userId);
-    case 'facebook':
-      return generateFacebookAuthUrl(userId);
-    case 'tiktok':
-      return generateTikTokAuthUrl(userId);
-    default:
-      throw new Error(`Unknown platform: ${platform}`);
-  }
+  return adapter.getAuthUrl({ state, codeChallenge, addAccount: options?.addAccount });
 }
 
 // ============================================================================
-// TOKEN EXCHANGE
+// MEDIA HOSTING
 // ============================================================================
 
-async function exchangeYouTubeCode(code: string, state: string): Promise<void> {
-  const clientId = process.env.YOUTUBE_CLIENT_ID;
-  const clientSecret = process.env.YOUTUBE_CLIENT_SECRET;
-  const redirectUri = process.env.YOUTUBE_REDIRECT_URI;
-
-  if (!clientId || !clientSecret || !redirectUri) {
-    throw new Error('YouTube OAuth credentials not configured');
+async function serveMedia(
+  req: IncomingMessage,
+  res: ServerResponse,
+  id: string,
+  url: URL
+): Promise<void> {
+  let filePath: string | null = null;
+  try {
+    filePath = resolveMediaRequest(id, url.searchParams.get('expires'), url.searchParams.get('sig'));
+  } catch (err) {
+    console.error('Media hosting error:', err);
   }
 
-  const stateData = oauthStates.get(state);
-  const codeVerifier = stateData?.codeVerifier;
-
-  const response = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      code,
-      redirect_uri: redirectUri,
-      grant_type: 'authorization_code',
-      ...(codeVerifier && { code_verifier: codeVerifier }),
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Token exchange failed: ${error}`);
+  if (!filePath) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not Found');
+    return;
   }
 
-  const data = await response.json();
-  const tokenData = createTokenData(
-    'youtube',
-    data.access_token,
-    data.refresh_token,
-    data.expires_in
-  );
-  storeToken(tokenData);
-}
-
-async function exchangeFacebookCode(code: string): Promise<void> {
-  const appId = process.env.FACEBOOK_APP_ID;
-  const appSecret = process.env.FACEBOOK_APP_SECRET;
-  const redirectUri = process.env.FACEBOOK_REDIRECT_URI;
-
-  if (!appId || !appSecret || !redirectUri) {
-    throw new Error('Facebook OAuth credentials not configured');
+  const fileStats = await stat(filePath).catch(() => null);
+  if (!fileStats?.isFile()) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not Found');
+    return;
   }
 
-  const response = await fetch('https://graph.facebook.com/v18.0/oauth/access_token', {
-    method: 'GET',
+  res.writeHead(200, {
+    'Content-Type': getMimeType(filePath),
+    'Content-Length': fileStats.size,
+    'Cache-Control': 'no-store',
   });
 
-  const url = new URL('https://graph.facebook.com/v18.0/oauth/access_token');
-  url.searchParams.set('client_id', appId);
-  url.searchParams.set('client_secret', appSecret);
-  url.searchParams.set('code', code);
-  url.searchParams.set('redirect_uri', redirectUri);
-
-  const tokenResponse = await fetch(url.toString());
-
-  if (!tokenResponse.ok) {
-    const error = await tokenResponse.text();
-    throw new Error(`Token exchange failed: ${error}`);
-  }
-
-  const data = await tokenResponse.json();
-
-  // Facebook tokens don't expire by default, but may have short-lived tokens
-  // that need to be exchanged for long-lived tokens
-  let expiresIn: number | undefined;
-  if (data.expires_in) {
-    expiresIn = data.expires_in;
-  }
-
-  const tokenData = createTokenData(
-    'facebook',
-    data.access_token,
-    undefined,
-    expiresIn
-  );
-  storeToken(tokenData);
-}
-
-async function exchangeTikTokCode(code: string): Promise<void> {
-  const clientKey = process.env.TIKTOK_CLIENT_KEY;
-  const clientSecret = process.env.TIKTOK_CLIENT_SECRET;
-  const redirectUri = process.env.TIKTOK_REDIRECT_URI;
-
-  if (!clientKey || !clientSecret || !redirectUri) {
-    throw new Error('TikTok OAuth credentials not configured');
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
   }
 
-  const response = await fetch('https://open.tiktokapis.com/v2/oauth/token/', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      client_key: clientKey,
-      client_secret: clientSecret,
-      code,
-      redirect_uri: redirectUri,
-      grant_type: 'authorization_code',
-    }),
+  // The file can go away mid-read (e.g. a finished job's cleanup): end the response instead of crashing
+  pipeline(createReadStream(filePath), res, (err) => {
+    if (err) console.error(`Media hosting error for ${id}:`, err.message);
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Token exchange failed: ${error}`);
-  }
-
-  const data = await response.json();
-  const tokenData = createTokenData(
-    'tiktok',
-    data.access_token,
-    data.refresh_token,
-    data.expires_in
-  );
-  storeToken(tokenData);
 }
 
 // ============================================================================
 // HTTP SERVER
 // ============================================================================
 
+/**
+ * Escape text for the result pages (query parameters and account names come from outside)
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 let server: ReturnType<typeof createServer> | null = null;
 
 export function startOAuthServer(): Promise<void> {
@@ -282,6 +164,13 @@ export function startOAuthServer(): Promise<void> {
         return;
       }
 
+      // Temporary media links
+      const mediaMatch = url.pathname.match(/^\/media\/([\w-]+)(\/[^/]*)?$/);
+      if (mediaMatch) {
+        await serveMedia(req, res, mediaMatch[1], url);
+        return;
+      }
+
       // OAuth callback handlers
       const platformMatch = url.pathname.match(/^\/auth\/(\w+)\/callback$/);
       if (platformMatch) {
@@ -296,7 +185,7 @@ export function startOAuthServer(): Promise<void> {
             <html>
               <body style="font-family: sans-serif; text-align: center; padding: 50px;">
                 <h1 style="color: #e74c3c;">Authentication Failed</h1>
-                <p>Error: ${error}</p>
+                <p>Error: ${escapeHtml(error)}</p>
                 <p>You can close this window and return to Telegram.</p>
               </body>
             </html>
@@ -334,26 +223,20 @@ export function startOAuthServer(): Promise<void> {
 
         try {
           // Exchange code for token
-          switch (platform) {
-            case 'youtube':
-              await exchangeYouTubeCode(code, state);
-              break;
-            case 'facebook':
-              await exchangeFacebookCode(code);
-              break;
-            case 'tiktok':
-              await exchangeTikTokCode(code);
-              break;
-            default:
-              throw new Error(`Unknown platform: ${platform}`);
+          const adapter = getPlatform(platform);
+          if (!adapter?.exchangeCode) {
+            throw new Error(`Unknown platform: ${platform}`);
           }
+          const tokenData = await adapter.exchangeCode(code, stateData);
+          storeToken(tokenData);
+          const accountName = tokenData.displayName || tokenData.accountId;
 
           res.writeHead(200, { 'Content-Type': 'text/html' });
           res.end(`
             <html>
               <body style="font-family: sans-serif; text-align: center; padding: 50px;">
                 <h1 style="color: #27ae60;">Authentication Successful!</h1>
-                <p>You have successfully authenticated with ${platform}.</p>
+                <p>You have successfully authenticated with ${escapeHtml(adapter.displayName)} as ${escapeHtml(accountName)}.</p>
                 <p>You can close this window and return to Telegram.</p>
                 <script>setTimeout(() => window.close(), 3000);</script>
               </body>
@@ -366,7 +249,7 @@ export function startOAuthServer(): Promise<void> {
             <html>
               <body style="font-family: sans-serif; text-align: center; padding: 50px;">
                 <h1 style="color: #e74c3c;">Authentication Error</h1>
-                <p>Failed to complete authentication: ${err instanceof Error ? err.message : 'Unknown error'}</p>
+                <p>Failed to complete authentication: ${escapeHtml(err instanceof Error ? err.message : 'Unknown error')}</p>
                 <p>Please try again.</p>
               </body>
             </html>
@@ -2,7 +2,7 @@
  * OAuth2 token storage and refresh management
  */
 
-import { getToken, saveToken, deleteToken } from '../storage/db.js';
+import { getToken, saveToken, deleteToken, listTokens } from '../storage/db.js';
 import type { TokenData } from '../platforms/types.js';
 
 // Token refresh buffer - refresh if expires in less than 5 minutes
@@ -25,13 +25,16 @@ export function isExpired(token: TokenData): boolean {
 }
 
 /**
- * Get valid token for a platform (auto-refreshes if needed)
+ * Get valid token for a platform account (auto-refreshes if needed)
+ * The account selector is an account ID or display name; defaults to the
+ * first connected account.
  */
 export async function getValidToken(
   platform: string,
-  refreshFn?: (token: TokenData) => Promise<TokenData | null>
+  refreshFn?: (token: TokenData) => Promise<TokenData | null>,
+  account?: string
 ): Promise<TokenData | null> {
-  const token = getToken(platform);
+  const token = getToken(platform, account);
   if (!token) return null;
 
   // If token is valid and doesn't need refresh, return it
@@ -54,8 +57,10 @@ export async function getValidToken(
     console.log(`Refreshing token for ${platform}...`);
     const newToken = await refreshFn(token);
     if (newToken) {
-      saveToken(newToken);
-      return newToken;
+      // Refreshed tokens always belong to the same account
+      const refreshed = { ...newToken, accountId: token.accountId, displayName: token.displayName };
+      saveToken(refreshed);
+      return refreshed;
     }
   } catch (error) {
     console.error(`Failed to refresh token for ${platform}:`, error);
@@ -74,20 +79,27 @@ export function storeToken(data: TokenData): void {
 /**
  * Remove a token
  */
-export function removeToken(platform: string): boolean {
-  return deleteToken(platform);
+export function removeToken(platform: string, accountId: string): boolean {
+  return deleteToken(platform, accountId);
+}
+
+/**
+ * List connected accounts, optionally for one platform
+ */
+export function listAccounts(platform?: string): TokenData[] {
+  return listTokens(platform);
 }
 
 /**
  * Get token status (for health checks)
  */
-export function getTokenStatus(platform: string): {
+export function getTokenStatus(platform: string, account?: string): {
   exists: boolean;
   expired: boolean;
   needsRefresh: boolean;
   expiresAt?: Date;
 } {
-  const token = getToken(platform);
+  const token = getToken(platform, account);
   if (!token) {
     return { exists: false, expired: true, needsRefresh: true };
   }
@@ -114,10 +126,13 @@ export function createTokenData(
   platform: string,
   accessToken: string,
   refreshToken?: string,
-  expiresIn?: number
+  expiresIn?: number,
+  account?: { accountId: string; displayName?: string }
 ): TokenData {
   return {
     platform,
+    accountId: account?.accountId || 'default',
+    displayName: account?.displayName,
     accessToken,
     refreshToken,
     expiresAt: expiresIn ? calculateExpiration(expiresIn) : undefined,
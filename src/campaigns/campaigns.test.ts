@@ -0,0 +1,69 @@
+/**
+ * Fan-out of a campaign into one job per platform
+ *
+ * Run with: bun test
+ */
+
+import { expect, test } from 'bun:test';
+import { buildCampaignJobs, getCampaignStatus } from './campaigns.js';
+import type { CampaignAddRequest, ScheduledJob } from '../platforms/types.js';
+
+const VIDEO = '/uploads/launch.mp4';
+
+const CAMPAIGN: CampaignAddRequest = {
+  content: { title: 'Launch', caption: 'New video #launch', hashtags: ['launch', '#news'], privacy: 'unlisted' },
+  filePath: VIDEO,
+  targets: [
+    { platform: 'YouTube' },
+    { platform: 'tiktok' },
+    { platform: 'facebook', overrides: { pageId: '123' } },
+    { platform: 'instagram', action: 'post-reel', overrides: { caption: 'Reel only', hashtags: ['reels'] } },
+  ],
+};
+
+test('a campaign fans out to one job per platform with its default action', () => {
+  const jobs = buildCampaignJobs(CAMPAIGN);
+
+  expect(jobs.map((job) => `${job.platform} ${job.action}`)).toEqual([
+    'youtube upload',
+    'tiktok upload',
+    'facebook post-page',
+    'instagram post-reel',
+  ]);
+  expect(jobs.every((job) => job.filePath === VIDEO)).toBe(true);
+});
+
+test('shared content is mapped onto the fields of each skill', () => {
+  const [youtube, tiktok, facebook, instagram] = buildCampaignJobs(CAMPAIGN);
+
+  // Hashtags already in the text are not added twice
+  expect(youtube.content).toMatchObject({
+    title: 'Launch',
+    description: 'New video #launch\n\n#news',
+    tags: ['launch', 'news'],
+    privacy: 'unlisted',
+  });
+  // TikTok has no unlisted videos
+  expect(tiktok.content).toMatchObject({ title: 'New video #launch\n\n#news', privacy: 'private' });
+  expect(facebook.content).toMatchObject({ pageId: '123', message: 'New video #launch\n\n#news' });
+  // Overrides replace the shared values, hashtags included
+  expect(instagram.content).toMatchObject({ caption: 'Reel only\n\n#reels' });
+});
+
+test('an invalid target fails the whole campaign', () => {
+  expect(() => buildCampaignJobs({ ...CAMPAIGN, targets: [] })).toThrow('at least one target');
+  expect(() => buildCampaignJobs({ ...CAMPAIGN, targets: [{ platform: 'myspace' }] })).toThrow(
+    'Unsupported campaign platform: myspace'
+  );
+  expect(() => buildCampaignJobs({ ...CAMPAIGN, targets: [{ platform: 'facebook' }] })).toThrow('needs a pageId');
+  expect(() => buildCampaignJobs({ ...CAMPAIGN, filePath: undefined })).toThrow('youtube needs a video file');
+});
+
+test('a campaign stays pending while any job has not run', () => {
+  const jobs = (...statuses: ScheduledJob['status'][]) => statuses.map((status) => ({ status }) as ScheduledJob);
+
+  expect(getCampaignStatus(jobs('completed', 'processing'))).toBe('pending');
+  expect(getCampaignStatus(jobs('completed', 'completed'))).toBe('completed');
+  expect(getCampaignStatus(jobs('failed', 'failed'))).toBe('failed');
+  expect(getCampaignStatus(jobs('completed', 'failed'))).toBe('partial');
+});
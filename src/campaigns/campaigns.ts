@@ -0,0 +1,227 @@
+/**
+ * Campaign posts: one logical post published to several platforms
+ *
+ * A campaign fans out to one queued job per platform. Each job gets the shared
+ * content with that platform's overrides (title, caption, hashtags, privacy)
+ * mapped onto the fields its skill expects. The scheduler runs the jobs and
+ * sends a single summary once none of them is pending any more.
+ */
+
+import {
+  addCampaignRow,
+  addPost,
+  getCampaignById,
+  getCampaignJobs,
+  listCampaignRows,
+} from '../storage/db.js';
+import { getPlatform, getDefaultAction } from '../platforms/registry.js';
+import { isInWorkspace } from '../workspaces/workspaces.js';
+import type {
+  Campaign,
+  CampaignAddRequest,
+  CampaignOverrides,
+  CampaignStatus,
+  CampaignSummary,
+  CampaignTarget,
+  ScheduledJob,
+  SkillResult,
+} from '../platforms/types.js';
+
+const STATUS_ICONS: Record<string, string> = {
+  pending: '⏳',
+  processing: '⏫',
+  completed: '✅',
+  failed: '❌',
+};
+
+/**
+ * Append hashtags to a text, skipping the ones already in it
+ */
+function withHashtags(text: string | undefined, hashtags: string[]): string | undefined {
+  const missing = hashtags
+    .map((tag) => (tag.startsWith('#') ? tag : `#${tag}`))
+    .filter((tag) => !text?.includes(tag));
+  if (missing.length === 0) return text;
+  return [text, missing.join(' ')].filter((part) => part).join('\n\n');
+}
+
+/**
+ * Build the skill arguments of one platform from the shared content and its overrides
+ */
+export function buildPlatformContent(
+  base: CampaignOverrides,
+  target: CampaignTarget
+): Record<string, unknown> {
+  const { hashtags = [], ...content } = { ...base, ...target.overrides };
+  const text = content.caption || content.message || content.description || content.title;
+
+  // Privacy values the platform accepts
+  const privacyOptions = getPlatform(target.platform)?.capabilities.privacyOptions;
+  const privacy =
+    content.privacy && privacyOptions
+      ? privacyOptions.includes(content.privacy)
+        ? content.privacy
+        : 'private'
+      : undefined;
+
+  switch (target.platform) {
+    case 'youtube':
+      return {
+        accountId: content.accountId,
+        title: content.title || text,
+        description: withHashtags(content.description || content.caption, hashtags),
+        tags: [...(content.tags || []), ...hashtags.map((tag) => tag.replace(/^#/, ''))],
+        privacy,
+      };
+
+    case 'tiktok':
+      return {
+        accountId: content.accountId,
+        title: withHashtags(content.caption || content.title, hashtags),
+        privacy,
+      };
+
+    case 'facebook':
+      return {
+        accountId: content.accountId,
+        pageId: content.pageId,
+        message: withHashtags(content.message || content.caption || content.description, hashtags),
+        link: content.link,
+        imageUrl: content.imageUrl,
+        mediaType: content.mediaType === 'reel' ? 'reel' : undefined,
+        title: content.title,
+      };
+
+    case 'instagram':
+      return {
+        accountId: content.accountId,
+        pageId: content.pageId,
+        mediaType: content.mediaType,
+        imageUrl: content.imageUrl,
+        caption: withHashtags(content.caption || content.message || content.description, hashtags),
+      };
+
+    default:
+      throw new Error(`Unsupported campaign platform: ${target.platform}`);
+  }
+}
+
+/**
+ * Check the arguments of one platform before anything is queued
+ */
+function validatePlatformContent(platform: string, content: Record<string, unknown>, filePath?: string): void {
+  switch (platform) {
+    case 'youtube':
+    case 'tiktok':
+      if (!filePath) throw new Error(`${platform} needs a video file`);
+      if (!content.title) throw new Error(`${platform} needs a title`);
+      break;
+    case 'facebook':
+      if (!content.pageId) throw new Error('facebook needs a pageId (see facebook_get_pages)');
+      break;
+    case 'instagram':
+      if (!filePath && !content.imageUrl) throw new Error('instagram needs a media file or imageUrl');
+      break;
+  }
+}
+
+/**
+ * Build the job of every platform of a campaign (skill action, arguments and file)
+ * Throws when a target is unsupported or misses what its platform needs.
+ */
+export function buildCampaignJobs(
+  request: CampaignAddRequest
+): { platform: string; action: string; content: Record<string, unknown>; filePath?: string }[] {
+  if (!request.targets?.length) {
+    throw new Error('A campaign needs at least one target platform');
+  }
+
+  return request.targets.map((target) => {
+    const platform = target.platform.toLowerCase();
+    const action = target.action || getDefaultAction(platform);
+    if (!action) throw new Error(`Unsupported campaign platform: ${target.platform}`);
+
+    const filePath = target.overrides?.filePath || request.content.filePath || request.filePath;
+    const content = buildPlatformContent(request.content, { ...target, platform });
+    validatePlatformContent(platform, content, filePath);
+
+    return { platform, action, content, filePath };
+  });
+}
+
+/**
+ * Create a campaign and queue one job per platform
+ */
+export function createCampaign(request: CampaignAddRequest): CampaignSummary {
+  const scheduledAt = request.scheduledAt ? new Date(request.scheduledAt) : new Date();
+  if (isNaN(scheduledAt.getTime())) throw new Error(`Invalid scheduledAt: ${request.scheduledAt}`);
+
+  // Build every platform first so an invalid target queues nothing
+  const children = buildCampaignJobs(request);
+
+  const campaignId = addCampaignRow({
+    name: request.name,
+    contentJson: JSON.stringify({ content: request.content, targets: request.targets }),
+    scheduledAt,
+    workspaceId: request.workspaceId,
+    chatId: request.chatId,
+  });
+
+  for (const child of children) {
+    addPost(child.platform, child.action, JSON.stringify(child.content), scheduledAt, child.filePath, {
+      workspaceId: request.workspaceId,
+      chatId: request.chatId,
+      campaignId,
+    });
+  }
+
+  return getCampaignSummary(campaignId)!;
+}
+
+/**
+ * Work out a campaign's status from its jobs
+ */
+export function getCampaignStatus(jobs: ScheduledJob[]): CampaignStatus {
+  if (jobs.some((job) => job.status === 'pending' || job.status === 'processing')) return 'pending';
+  if (jobs.every((job) => job.status === 'completed')) return 'completed';
+  if (jobs.every((job) => job.status === 'failed')) return 'failed';
+  return 'partial';
+}
+
+/**
+ * Get a campaign with its jobs and aggregated status
+ * Returns null for campaigns of another workspace than the given one.
+ */
+export function getCampaignSummary(id: number, workspaceId?: number): CampaignSummary | null {
+  const campaign = getCampaignById(id);
+  if (!campaign || !isInWorkspace(campaign, workspaceId)) return null;
+
+  const jobs = getCampaignJobs(id);
+  return { campaign, status: getCampaignStatus(jobs), jobs };
+}
+
+/**
+ * List recent campaigns
+ */
+export function listCampaigns(options?: { workspaceId?: number; limit?: number }): Campaign[] {
+  return listCampaignRows(options);
+}
+
+/**
+ * Format a campaign summary: one line per platform with its URL or error
+ */
+export function formatCampaignSummary(summary: CampaignSummary): string {
+  const { campaign, status, jobs } = summary;
+  const title = campaign.name ? `Campaign #${campaign.id} "${campaign.name}"` : `Campaign #${campaign.id}`;
+
+  const lines = jobs.map((job) => {
+    const result: SkillResult | null = job.resultJson ? JSON.parse(job.resultJson) : null;
+    let detail = '';
+    if (job.status === 'completed') detail = result?.url || result?.message || 'published';
+    else if (job.status === 'failed') detail = job.errorMessage || 'failed';
+    else detail = `scheduled ${job.scheduledAt.toLocaleString()}`;
+    return `${STATUS_ICONS[job.status]} ${job.platform} (job ${job.id}): ${detail}`;
+  });
+
+  return `📣 ${title}: ${status}\n\n${lines.join('\n')}`;
+}
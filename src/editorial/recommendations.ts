@@ -2,7 +2,8 @@
  * Editorial recommendations for optimal posting times
  */
 
-import type { PlatformRecommendation, PostingGuidelines } from '../platforms/types.js';
+import { getZonedParts, zonedTimeToDate, getDefaultTimezone } from '../scheduler/timezone.js';
+import type { PlatformRecommendation, PostingGuidelines, Workspace } from '../platforms/types.js';
 
 const RECOMMENDATIONS: Record<string, PlatformRecommendation> = {
   youtube: {
@@ -29,16 +30,18 @@ const RECOMMENDATIONS: Record<string, PlatformRecommendation> = {
 
 /**
  * Get posting recommendations for a platform
+ * A workspace can override the built-in recommendations per platform.
  */
-export function getRecommendations(platform: string): PlatformRecommendation | null {
-  return RECOMMENDATIONS[platform.toLowerCase()] || null;
+export function getRecommendations(platform: string, workspace?: Workspace | null): PlatformRecommendation | null {
+  const key = platform.toLowerCase();
+  return workspace?.recommendations?.[key] || RECOMMENDATIONS[key] || null;
 }
 
 /**
  * Get formatted posting guidelines
  */
-export function getPostingGuidelines(platform: string): PostingGuidelines | null {
-  const rec = RECOMMENDATIONS[platform.toLowerCase()];
+export function getPostingGuidelines(platform: string, workspace?: Workspace | null): PostingGuidelines | null {
+  const rec = getRecommendations(platform, workspace);
   if (!rec) return null;
 
   return {
@@ -51,17 +54,22 @@ export function getPostingGuidelines(platform: string): PostingGuidelines | null
 
 /**
  * Calculate the next optimal posting time
+ *
+ * Hours are wall-clock hours in the given timezone, falling back to the
+ * workspace timezone and then the server timezone.
  */
 export function getOptimalPostingTime(
   platform: string,
-  timezone: string = Intl.DateTimeFormat().resolvedOptions().timeZone
+  timezone?: string,
+  workspace?: Workspace | null
 ): Date {
-  const rec = RECOMMENDATIONS[platform.toLowerCase()];
+  const rec = getRecommendations(platform, workspace);
   if (!rec) return new Date();
 
-  const now = new Date();
-  const currentHour = now.getHours();
-  const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
+  const zone = timezone || workspace?.timezone || getDefaultTimezone();
+  const now = getZonedParts(new Date(), zone);
+  const currentHour = now.hour;
+  const currentDay = now.weekday; // 0 = Sunday, 1 = Monday, etc.
 
   // Map day names to numbers
   const dayMap: Record<string, number> = {
@@ -102,26 +110,33 @@ export function getOptimalPostingTime(
     }
   }
 
-  const optimalTime = new Date(now);
-  optimalTime.setDate(optimalTime.getDate() + daysToAdd);
-  optimalTime.setHours(targetHour, 0, 0, 0);
-
-  return optimalTime;
+  // Date.UTC normalizes day overflow into the next month
+  const target = new Date(Date.UTC(now.year, now.month - 1, now.day + daysToAdd));
+  return zonedTimeToDate(
+    target.getUTCFullYear(),
+    target.getUTCMonth() + 1,
+    target.getUTCDate(),
+    targetHour,
+    0,
+    zone
+  );
 }
 
 /**
  * Get all platform recommendations
  */
-export function getAllRecommendations(): Record<string, PlatformRecommendation> {
-  return { ...RECOMMENDATIONS };
+export function getAllRecommendations(workspace?: Workspace | null): Record<string, PlatformRecommendation> {
+  return { ...RECOMMENDATIONS, ...workspace?.recommendations };
 }
 
 /**
  * Format recommendations as a readable string
  */
-export function formatRecommendations(platform?: string): string {
+export function formatRecommendations(platform?: string, workspace?: Workspace | null): string {
+  const timezone = workspace?.timezone || getDefaultTimezone();
+
   if (platform) {
-    const guidelines = getPostingGuidelines(platform);
+    const guidelines = getPostingGuidelines(platform, workspace);
     if (!guidelines) return `No recommendations available for ${platform}`;
 
     return `Platform: ${guidelines.platform}
@@ -129,11 +144,11 @@ Best days: ${guidelines.bestDays}
 Best hours: ${guidelines.bestHours}
 Recommended frequency: ${guidelines.frequency}
 
-Next optimal time: ${getOptimalPostingTime(platform).toLocaleString()}`;
+Next optimal time: ${getOptimalPostingTime(platform, timezone, workspace).toLocaleString('en-US', { timeZone: timezone })} (${timezone})`;
   }
 
   // Return all platforms
-  return Object.entries(RECOMMENDATIONS)
+  return Object.entries(getAllRecommendations(workspace))
     .map(([platform, rec]) => {
       return `${platform.toUpperCase()}
 - Best days: ${rec.days.join(', ')}
@@ -0,0 +1,62 @@
+/**
+ * Run a skill tool call the way the assistant requested it
+ *
+ * Shared by the MCP server (Claude CLI) and the in-process assistant backends
+ * (src/assistant/): workspace defaults are applied, content the platform would
+ * reject is refused, publishing tools become approvals when a chat is set,
+ * and everything else runs right away.
+ */
+
+import { getSkillTool, applyWorkspaceDefaults, validateToolCall } from './tools.js';
+import { requestApproval } from '../approvals/approvals.js';
+import type { SkillResult, Workspace } from '../platforms/types.js';
+
+export interface ToolCallContext {
+  chatId: number | null; // Publishing tools wait for approval in this chat
+  workspace: Workspace | null;
+}
+
+export async function callSkillTool(
+  name: string,
+  rawArgs: Record<string, unknown>,
+  context: ToolCallContext
+): Promise<SkillResult> {
+  const { chatId, workspace } = context;
+  const tool = getSkillTool(name);
+
+  if (!tool) {
+    return {
+      success: false,
+      platform: 'unknown',
+      action: name,
+      error: `Unknown tool: ${name}`,
+    };
+  }
+
+  // Bad arguments, a missing workspace or an unreadable file come back as a failed result
+  try {
+    const args = applyWorkspaceDefaults(name, rawArgs, workspace);
+
+    // Content the platform would reject never reaches the approval card
+    const invalid = await validateToolCall(tool, args);
+    if (invalid) {
+      console.error(`[Tools] ${name} rejected: ${invalid.error}`);
+      return invalid;
+    }
+
+    if (tool.requiresApproval && chatId !== null) {
+      console.error(`[Tools] ${name} waiting for approval`);
+      return requestApproval(chatId, tool, args, workspace?.id);
+    }
+
+    console.error(`[Tools] Executing ${name}`);
+    return await tool.handler(args, { workspace, chatId: chatId ?? undefined });
+  } catch (error) {
+    return {
+      success: false,
+      platform: name.split('_')[0],
+      action: name,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
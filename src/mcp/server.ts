@@ -0,0 +1,73 @@
+#!/usr/bin/env bun
+/**
+ * MCP tool server exposing the social media skills to Claude
+ *
+ * The relay attaches this server to every Claude CLI call. Each tool result
+ * is returned to Claude as JSON and appended to SKILL_RESULTS_FILE so the
+ * relay can report structured results back to Telegram. Publishing tools are
+ * stored as approvals when RELAY_CHAT_ID is set and run from the relay later.
+ * RELAY_WORKSPACE_ID scopes the queue and default accounts to a workspace.
+ *
+ * Usage: bun run src/mcp/server.ts
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { appendFile } from 'fs/promises';
+import { SKILL_TOOLS } from './tools.js';
+import { callSkillTool } from './calls.js';
+import { getWorkspace } from '../workspaces/workspaces.js';
+import type { SkillResult } from '../platforms/types.js';
+
+const RESULTS_FILE = process.env.SKILL_RESULTS_FILE || '';
+// Set by the relay: publishing tools wait for approval in this chat
+const CHAT_ID = process.env.RELAY_CHAT_ID ? parseInt(process.env.RELAY_CHAT_ID, 10) : null;
+// Set by the relay: the chat's active workspace
+const WORKSPACE = process.env.RELAY_WORKSPACE_ID
+  ? getWorkspace(parseInt(process.env.RELAY_WORKSPACE_ID, 10))
+  : null;
+
+// stdout carries the MCP protocol, keep platform logging on stderr
+console.log = console.error;
+
+/**
+ * Record a result for the relay
+ */
+async function recordResult(result: SkillResult): Promise<void> {
+  if (!RESULTS_FILE) return;
+  await appendFile(RESULTS_FILE, JSON.stringify(result) + '\n').catch((error) => {
+    console.error('[MCP] Failed to record result:', error);
+  });
+}
+
+const server = new Server(
+  { name: 'social-media-skills', version: '2.0.0' },
+  { capabilities: { tools: {} } }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: SKILL_TOOLS.map(({ name, description, inputSchema }) => ({
+    name,
+    description,
+    inputSchema,
+  })),
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name } = request.params;
+  const result = await callSkillTool(name, request.params.arguments || {}, {
+    chatId: CHAT_ID,
+    workspace: WORKSPACE,
+  });
+
+  await recordResult(result);
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(result) }],
+    isError: !result.success,
+  };
+});
+
+await server.connect(new StdioServerTransport());
+console.error('[MCP] Skill server running on stdio');
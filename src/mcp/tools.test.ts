@@ -0,0 +1,63 @@
+/**
+ * Accounts of the active workspace in tool calls
+ *
+ * Run with: bun test
+ */
+
+import { expect, test } from 'bun:test';
+import { applyWorkspaceDefaults } from './tools.js';
+import type { Workspace } from '../platforms/types.js';
+
+const WORKSPACE: Workspace = {
+  id: 1,
+  name: 'Acme',
+  defaultHashtags: [],
+  accounts: [
+    { platform: 'youtube', accountId: 'UC-acme' },
+    { platform: 'instagram', accountId: 'ig-acme' },
+  ],
+};
+
+test("calls without an account get the workspace's account", () => {
+  expect(applyWorkspaceDefaults('youtube_upload', { title: 'Launch' }, WORKSPACE)).toEqual({
+    title: 'Launch',
+    accountId: 'UC-acme',
+  });
+  expect(applyWorkspaceDefaults('scheduler_add', { platform: 'instagram', content: {} }, WORKSPACE)).toEqual({
+    platform: 'instagram',
+    content: { accountId: 'ig-acme' },
+  });
+});
+
+test('accounts of another client are refused while a workspace is active', () => {
+  expect(applyWorkspaceDefaults('youtube_upload', { accountId: 'UC-acme' }, WORKSPACE)).toEqual({ accountId: 'UC-acme' });
+  expect(() => applyWorkspaceDefaults('youtube_upload', { accountId: 'UC-other' }, WORKSPACE)).toThrow(
+    'youtube account UC-other is not linked to workspace Acme. Use one of: UC-acme'
+  );
+  expect(() =>
+    applyWorkspaceDefaults('scheduler_add', { platform: 'instagram', content: { accountId: 'ig-other' } }, WORKSPACE)
+  ).toThrow('not linked to workspace Acme');
+
+  // No linked account on the platform: the workspace cannot use any
+  expect(() => applyWorkspaceDefaults('tiktok_upload', { accountId: 'tt-other' }, WORKSPACE)).toThrow(
+    'Link it with /workspace link tiktok tt-other'
+  );
+
+  // Without a workspace any connected account can be named
+  expect(applyWorkspaceDefaults('youtube_upload', { accountId: 'UC-other' }, null)).toEqual({ accountId: 'UC-other' });
+});
+
+test('every campaign target is checked against the workspace', () => {
+  const campaign = (accountId?: string) => ({
+    content: { caption: 'Launch' },
+    targets: [{ platform: 'YouTube' }, { platform: 'instagram', overrides: { accountId } }],
+  });
+
+  expect(applyWorkspaceDefaults('campaign_post', campaign('ig-acme'), WORKSPACE)).toEqual(campaign('ig-acme'));
+  expect(() => applyWorkspaceDefaults('campaign_post', campaign('ig-other'), WORKSPACE)).toThrow(
+    'instagram account ig-other is not linked'
+  );
+  expect(() =>
+    applyWorkspaceDefaults('campaign_post', { ...campaign(), content: { accountId: 'UC-other' } }, WORKSPACE)
+  ).toThrow('YouTube account UC-other is not linked');
+});
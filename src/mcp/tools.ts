@@ -0,0 +1,855 @@
+/**
+ * Skill tool definitions exposed to Claude over MCP
+ *
+ * Each tool mirrors one skill action, and platform tools run it through the
+ * skill dispatcher. Input schemas follow the option interfaces in
+ * platforms/types.ts so Claude gets typed arguments instead of hand-writing
+ * SKILL: lines.
+ */
+
+import {
+  addJob,
+  listQueue,
+  cancel,
+  retry,
+  getStats,
+  addSeries,
+  listSeries,
+  pauseSeries,
+  resumeSeries,
+  deleteSeries,
+  formatSeriesList,
+} from '../scheduler/queue.js';
+import { formatRecommendations } from '../editorial/recommendations.js';
+import { createUploadProgress } from '../scheduler/notify.js';
+import { getWorkspaceAccount, assertWorkspaceAccount } from '../workspaces/workspaces.js';
+import { getPlatform, getPlatformNames } from '../platforms/registry.js';
+import { checkContent } from '../validation/validation.js';
+import { dispatchSkill } from '../skills/dispatcher.js';
+import { isVideoFile } from '../media/hosting.js';
+import { findForeignFile } from '../media/uploads.js';
+import {
+  buildCampaignJobs,
+  createCampaign,
+  getCampaignSummary,
+  formatCampaignSummary,
+} from '../campaigns/campaigns.js';
+import type {
+  SkillResult,
+  QueueAddRequest,
+  QueueListOptions,
+  SeriesAddRequest,
+  CampaignAddRequest,
+  Workspace,
+} from '../platforms/types.js';
+
+export interface JsonSchema {
+  type: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  additionalProperties?: boolean;
+}
+
+// Who a tool call runs for
+export interface ToolContext {
+  workspace?: Workspace | null;
+  chatId?: number; // Telegram chat that asked for it
+}
+
+export interface SkillTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  handler: (args: Record<string, unknown>, context?: ToolContext) => Promise<SkillResult>;
+  // Publishing tools only run after the user approves a preview in Telegram
+  requiresApproval?: boolean;
+  // Skill action used when the user chooses to schedule instead of publish
+  queueAction?: string;
+  // Skill action whose content rules the arguments are checked against (defaults to queueAction)
+  contentAction?: string;
+}
+
+/**
+ * Run a platform tool through its skill, like the scheduler does
+ *
+ * The dispatcher adds the timeout and turns errors into a failed result, and
+ * the skill converts and checks media before uploading it. With a label, the
+ * progress of both is reported in Telegram.
+ */
+async function runPlatformSkill(
+  platform: string,
+  action: string,
+  args: Record<string, unknown>,
+  context?: ToolContext,
+  label?: string
+): Promise<SkillResult> {
+  const skill = getPlatform(platform)?.skill;
+  if (!skill) {
+    return { success: false, platform, action, error: `Unknown platform: ${platform}` };
+  }
+  if (!label) return dispatchSkill(skill, action, args);
+
+  const progress = createUploadProgress(context ?? {}, label);
+  const result = await dispatchSkill(skill, action, args, { context: { onProgress: progress.onProgress } });
+  await progress.finish(result.success);
+  return result;
+}
+
+/**
+ * Progress label of a Facebook post, from what it uploads
+ */
+function facebookLabel(args: Record<string, unknown>): string {
+  const items = args.items as unknown[] | undefined;
+  if (items?.length) return `${items.length} photos to Facebook`;
+
+  const filePath = args.filePath as string | undefined;
+  if (args.mediaType === 'reel') return 'Reel to Facebook';
+  if (args.mediaType === 'video' || (!args.mediaType && filePath && isVideoFile(filePath))) {
+    return 'video to Facebook';
+  }
+  return filePath || args.imageUrl ? 'photo to Facebook' : 'post to Facebook';
+}
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const PLATFORMS = getPlatformNames();
+
+// Every platform tool can target one of several connected accounts
+const accountIdProperty: JsonSchema = {
+  type: 'string',
+  description: 'Connected account ID or name (defaults to the first connected account)',
+};
+
+// YouTubeVideoSettings
+const youtubeSettingsProperties: Record<string, JsonSchema> = {
+  accountId: accountIdProperty,
+  title: { type: 'string', description: 'Video title' },
+  description: { type: 'string' },
+  tags: { type: 'array', items: { type: 'string' } },
+  privacy: { type: 'string', enum: ['public', 'unlisted', 'private'] },
+  categoryId: { type: 'string', description: 'YouTube category ID (default 22)' },
+  publishAt: {
+    type: 'string',
+    description: 'ISO-8601 time YouTube publishes the video (it stays private until then)',
+  },
+  language: { type: 'string', description: 'Language of the title, description and audio (e.g. en, fr)' },
+  license: { type: 'string', enum: ['youtube', 'creativeCommon'] },
+  madeForKids: { type: 'boolean', description: 'Video is made for kids (COPPA)' },
+};
+
+// YouTubeCaptionTrack
+const youtubeCaptionSchema = {
+  type: 'object' as const,
+  properties: {
+    filePath: { type: 'string', description: 'Absolute path to an .srt or .vtt file' },
+    language: { type: 'string', description: 'Caption language (e.g. en, fr-CA)' },
+    name: { type: 'string', description: 'Track name shown in the player' },
+  },
+  required: ['filePath', 'language'],
+};
+
+// YouTubeUploadOptions
+const youtubeUploadSchema = {
+  type: 'object' as const,
+  properties: {
+    ...youtubeSettingsProperties,
+    filePath: { type: 'string', description: 'Absolute path to the video file' },
+    thumbnailPath: { type: 'string', description: 'Absolute path to a JPEG/PNG thumbnail (max 2 MB)' },
+    playlistIds: { type: 'array', items: { type: 'string' }, description: 'Playlists to add the video to' },
+    captions: { type: 'array', items: youtubeCaptionSchema },
+  },
+  required: ['filePath', 'title'],
+};
+
+// YouTubeVideoUpdate
+const youtubeUpdateSchema = {
+  type: 'object' as const,
+  properties: {
+    videoId: { type: 'string' },
+    ...youtubeSettingsProperties,
+  },
+  required: ['videoId'],
+};
+
+// FacebookPostOptions
+const facebookPostSchema = {
+  type: 'object' as const,
+  properties: {
+    accountId: accountIdProperty,
+    pageId: { type: 'string', description: 'Facebook page ID' },
+    message: { type: 'string' },
+    link: { type: 'string' },
+    filePath: { type: 'string', description: 'Absolute path to a photo or video uploaded to the page' },
+    imageUrl: { type: 'string', description: 'Public URL of a photo' },
+    mediaType: {
+      type: 'string',
+      enum: ['photo', 'video', 'reel'],
+      description: 'Detected from filePath when omitted; reel posts the video as a Page Reel',
+    },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { filePath: { type: 'string' }, imageUrl: { type: 'string' } },
+      },
+      description: 'Photos of a multi-photo post',
+    },
+    title: { type: 'string', description: 'Video title' },
+    scheduledTime: { type: 'string', description: 'ISO-8601 time for native Facebook scheduling' },
+  },
+  required: ['pageId'],
+};
+
+// InstagramMediaItem
+const instagramItemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    imageUrl: { type: 'string' },
+    videoUrl: { type: 'string' },
+    filePath: { type: 'string', description: 'Local file, hosted temporarily for Instagram' },
+  },
+};
+
+// InstagramPostOptions
+const instagramPostSchema = {
+  type: 'object' as const,
+  properties: {
+    accountId: accountIdProperty,
+    igUserId: { type: 'string', description: 'Instagram business account ID (resolved from the page when omitted)' },
+    pageId: { type: 'string', description: 'Facebook page connected to the Instagram account' },
+    mediaType: { type: 'string', enum: ['image', 'carousel', 'reel', 'story'] },
+    imageUrl: { type: 'string', description: 'Publicly reachable image URL' },
+    videoUrl: { type: 'string', description: 'Publicly reachable video URL (Reels and Stories)' },
+    filePath: { type: 'string', description: 'Local image or video file, hosted temporarily for Instagram' },
+    items: { type: 'array', items: instagramItemSchema, description: 'Carousel items (2-10)' },
+    caption: { type: 'string' },
+    coverUrl: { type: 'string', description: 'Reel cover image URL' },
+    shareToFeed: { type: 'boolean', description: 'Also show the Reel in the main feed' },
+  },
+};
+
+// TikTokUploadOptions
+const tiktokUploadSchema = {
+  type: 'object' as const,
+  properties: {
+    accountId: accountIdProperty,
+    filePath: { type: 'string', description: 'Absolute path to the video file' },
+    title: { type: 'string' },
+    mode: {
+      type: 'string',
+      enum: ['inbox', 'direct'],
+      description: 'inbox (default): the user finishes the post in the TikTok app; direct: publish right away',
+    },
+    privacy: {
+      type: 'string',
+      enum: ['public', 'private', 'friends', 'followers'],
+      description: 'Direct Post only',
+    },
+    disableComment: { type: 'boolean', description: 'Direct Post only' },
+    disableDuet: { type: 'boolean', description: 'Direct Post only' },
+    disableStitch: { type: 'boolean', description: 'Direct Post only' },
+    coverTimestampMs: { type: 'number', description: 'Direct Post only: video frame used as cover (ms)' },
+  },
+  required: ['filePath', 'title'],
+};
+
+// PostContent
+const postContentSchema: JsonSchema = {
+  type: 'object',
+  description: 'Arguments for the platform action, same fields as the matching publish tool',
+  properties: {
+    accountId: accountIdProperty,
+    title: { type: 'string' },
+    description: { type: 'string' },
+    message: { type: 'string' },
+    caption: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    privacy: { type: 'string', enum: ['public', 'unlisted', 'private'] },
+    filePath: { type: 'string' },
+    imageUrl: { type: 'string' },
+    link: { type: 'string' },
+  },
+};
+
+// QueueAddRequest
+const queueAddSchema = {
+  type: 'object' as const,
+  properties: {
+    platform: { type: 'string', enum: PLATFORMS },
+    action: { type: 'string', description: 'Skill action, e.g. upload, post-page, post-ig' },
+    content: postContentSchema,
+    scheduledAt: { type: 'string', description: 'ISO-8601 publish time' },
+    filePath: { type: 'string' },
+  },
+  required: ['platform', 'action', 'content', 'scheduledAt'],
+};
+
+// SeriesAddRequest
+const seriesAddSchema = {
+  type: 'object' as const,
+  properties: {
+    platform: { type: 'string', enum: PLATFORMS },
+    action: { type: 'string', description: 'Skill action, e.g. upload, post-page, post-ig' },
+    content: postContentSchema,
+    rule: {
+      type: 'string',
+      description:
+        'Cron expression ("0 9 * * 1" = Mondays 9:00) or iCal RRULE ("FREQ=WEEKLY;BYDAY=MO;BYHOUR=9;BYMINUTE=0")',
+    },
+    timezone: { type: 'string', description: 'IANA timezone of the rule (defaults to the workspace timezone)' },
+    startAt: { type: 'string', description: 'ISO-8601 start of the series (defaults to now)' },
+    endAt: { type: 'string', description: 'ISO-8601 end date' },
+    maxCount: { type: 'number', description: 'Maximum number of occurrences' },
+    filePath: { type: 'string' },
+  },
+  required: ['platform', 'action', 'content', 'rule'],
+};
+
+// CampaignOverrides
+const campaignContentSchema: JsonSchema = {
+  type: 'object',
+  description: 'Content shared by all platforms (or one platform\'s overrides)',
+  properties: {
+    accountId: accountIdProperty,
+    title: { type: 'string' },
+    description: { type: 'string' },
+    caption: { type: 'string' },
+    message: { type: 'string' },
+    hashtags: { type: 'array', items: { type: 'string' } },
+    tags: { type: 'array', items: { type: 'string' } },
+    privacy: { type: 'string', enum: ['public', 'unlisted', 'private'] },
+    pageId: { type: 'string', description: 'Facebook page (Facebook and Instagram)' },
+    mediaType: { type: 'string', enum: ['image', 'carousel', 'reel', 'story'] },
+    imageUrl: { type: 'string' },
+    link: { type: 'string' },
+    filePath: { type: 'string' },
+  },
+};
+
+// CampaignAddRequest
+const campaignPostSchema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string', description: 'Short name for the campaign' },
+    content: campaignContentSchema,
+    targets: {
+      type: 'array',
+      description: 'One entry per platform',
+      items: {
+        type: 'object',
+        properties: {
+          platform: { type: 'string', enum: PLATFORMS },
+          action: { type: 'string', description: 'Skill action (defaults to the main publish action)' },
+          overrides: campaignContentSchema,
+        },
+        required: ['platform'],
+      },
+    },
+    scheduledAt: { type: 'string', description: 'ISO-8601 publish time (defaults to now)' },
+    filePath: { type: 'string', description: 'Media file shared by all platforms' },
+  },
+  required: ['content', 'targets'],
+};
+
+// QueueListOptions
+const queueListSchema = {
+  type: 'object' as const,
+  properties: {
+    status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed'] },
+    platform: { type: 'string', enum: PLATFORMS },
+    limit: { type: 'number' },
+  },
+};
+
+const jobIdSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number', description: 'Job ID' },
+  },
+  required: ['id'],
+};
+
+const seriesIdSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number', description: 'Series ID' },
+  },
+  required: ['id'],
+};
+
+const emptySchema = { type: 'object' as const, properties: {} };
+
+const accountSchema = { type: 'object' as const, properties: { accountId: accountIdProperty } };
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+export const SKILL_TOOLS: SkillTool[] = [
+  {
+    name: 'youtube_upload',
+    description: 'Upload a video file to the connected YouTube channel',
+    inputSchema: youtubeUploadSchema,
+    handler: (args, context) => runPlatformSkill('youtube', 'upload', args, context, `"${args.title}" to YouTube`),
+    requiresApproval: true,
+    queueAction: 'upload',
+  },
+  {
+    name: 'youtube_update',
+    description: 'Change the settings of an uploaded YouTube video (privacy, publishAt, title, language, license, made for kids)',
+    inputSchema: youtubeUpdateSchema,
+    handler: (args) => runPlatformSkill('youtube', 'update', args),
+    requiresApproval: true,
+    contentAction: 'update',
+  },
+  {
+    name: 'youtube_set_thumbnail',
+    description: 'Set the custom thumbnail of an uploaded YouTube video',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        videoId: { type: 'string' },
+        thumbnailPath: { type: 'string', description: 'Absolute path to a JPEG/PNG image (max 2 MB)' },
+        accountId: accountIdProperty,
+      },
+      required: ['videoId', 'thumbnailPath'],
+    },
+    handler: (args) => runPlatformSkill('youtube', 'set-thumbnail', args),
+    requiresApproval: true,
+  },
+  {
+    name: 'youtube_add_to_playlist',
+    description: 'Add an uploaded YouTube video to a playlist',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        videoId: { type: 'string' },
+        playlistId: { type: 'string', description: 'Playlist ID (see youtube_list_playlists)' },
+        accountId: accountIdProperty,
+      },
+      required: ['videoId', 'playlistId'],
+    },
+    handler: (args) => runPlatformSkill('youtube', 'add-to-playlist', args),
+    requiresApproval: true,
+  },
+  {
+    name: 'youtube_list_playlists',
+    description: 'List the playlists of a connected YouTube channel',
+    inputSchema: accountSchema,
+    handler: (args) => runPlatformSkill('youtube', 'list-playlists', args),
+  },
+  {
+    name: 'youtube_upload_caption',
+    description: 'Upload an SRT or VTT caption track to an uploaded YouTube video',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        videoId: { type: 'string' },
+        ...youtubeCaptionSchema.properties,
+        accountId: accountIdProperty,
+      },
+      required: ['videoId', 'filePath', 'language'],
+    },
+    handler: (args) => runPlatformSkill('youtube', 'upload-caption', args),
+    requiresApproval: true,
+  },
+  {
+    name: 'youtube_channel_info',
+    description: 'Show a connected YouTube channel and its subscriber count',
+    inputSchema: accountSchema,
+    handler: (args) => runPlatformSkill('youtube', 'channel_info', args),
+  },
+  {
+    name: 'facebook_post',
+    description: 'Publish a text, link, photo, multi-photo, video or Reel post to a Facebook page',
+    inputSchema: facebookPostSchema,
+    handler: (args, context) => runPlatformSkill('facebook', 'post-page', args, context, facebookLabel(args)),
+    requiresApproval: true,
+    queueAction: 'post-page',
+  },
+  {
+    name: 'facebook_get_pages',
+    description: 'List the Facebook pages a connected account can post to',
+    inputSchema: accountSchema,
+    handler: (args) => runPlatformSkill('facebook', 'get-pages', args),
+  },
+  {
+    name: 'instagram_post',
+    description: 'Publish an image, carousel, Reel or Story to an Instagram business account',
+    inputSchema: instagramPostSchema,
+    handler: (args, context) => runPlatformSkill('instagram', 'post', args, context, 'media to Instagram'),
+    requiresApproval: true,
+    queueAction: 'post',
+  },
+  {
+    name: 'instagram_get_account',
+    description: 'Look up the Instagram business account ID connected to a Facebook page (or the first page)',
+    inputSchema: {
+      type: 'object',
+      properties: { pageId: { type: 'string' }, accountId: accountIdProperty },
+    },
+    handler: (args) => runPlatformSkill('instagram', 'get-account', args),
+  },
+  {
+    name: 'tiktok_upload',
+    description: 'Upload a video to TikTok, to the inbox of the TikTok app or as a Direct Post',
+    inputSchema: tiktokUploadSchema,
+    handler: (args, context) => runPlatformSkill('tiktok', 'upload', args, context, `"${args.title}" to TikTok`),
+    requiresApproval: true,
+    queueAction: 'upload',
+  },
+  {
+    name: 'tiktok_status',
+    description: 'Check the publish status of a TikTok upload (publishId from tiktok_upload)',
+    inputSchema: {
+      type: 'object',
+      properties: { publishId: { type: 'string' }, accountId: accountIdProperty },
+      required: ['publishId'],
+    },
+    handler: (args) => runPlatformSkill('tiktok', 'status', args),
+  },
+  {
+    name: 'scheduler_add',
+    description: 'Queue a post for publishing at a later time',
+    inputSchema: queueAddSchema,
+    handler: async (args, context) => {
+      const jobId = await addJob({
+        ...(args as unknown as QueueAddRequest),
+        workspaceId: context?.workspace?.id,
+        chatId: context?.chatId,
+      });
+      return {
+        success: true,
+        platform: 'scheduler',
+        action: 'add',
+        jobId,
+        message: `Job ${jobId} added to queue`,
+      };
+    },
+    requiresApproval: true,
+  },
+  {
+    name: 'scheduler_add_series',
+    description: 'Create a recurring post (every occurrence is queued after the previous one runs)',
+    inputSchema: seriesAddSchema,
+    handler: async (args, context) => {
+      const request = args as unknown as SeriesAddRequest;
+      const { series, jobId } = addSeries({
+        ...request,
+        timezone: request.timezone || context?.workspace?.timezone,
+        workspaceId: context?.workspace?.id,
+        chatId: context?.chatId,
+      });
+      return {
+        success: true,
+        platform: 'scheduler',
+        action: 'add-series',
+        jobId: jobId ?? undefined,
+        message: `Series ${series.id} created${jobId ? `, first occurrence is job ${jobId}` : ' but it has no upcoming occurrence'}`,
+      };
+    },
+    requiresApproval: true,
+  },
+  {
+    name: 'scheduler_list_series',
+    description: 'List recurring posts',
+    inputSchema: {
+      type: 'object',
+      properties: { status: { type: 'string', enum: ['active', 'paused', 'ended'] } },
+    },
+    handler: async (args, context) => ({
+      success: true,
+      platform: 'scheduler',
+      action: 'list-series',
+      message: formatSeriesList(
+        listSeries({
+          status: args.status as 'active' | 'paused' | 'ended' | undefined,
+          workspaceId: context?.workspace?.id,
+        })
+      ),
+    }),
+  },
+  {
+    name: 'scheduler_pause_series',
+    description: 'Pause a recurring post and cancel its pending occurrence',
+    inputSchema: seriesIdSchema,
+    handler: async (args, context) => {
+      const id = args.id as number;
+      const success = pauseSeries(id, context?.workspace?.id);
+      return {
+        success,
+        platform: 'scheduler',
+        action: 'pause-series',
+        message: success ? `Series ${id} paused` : `Series ${id} not found or not active`,
+      };
+    },
+  },
+  {
+    name: 'scheduler_resume_series',
+    description: 'Resume a paused recurring post from its next occurrence',
+    inputSchema: seriesIdSchema,
+    handler: async (args, context) => {
+      const id = args.id as number;
+      const success = resumeSeries(id, context?.workspace?.id);
+      return {
+        success,
+        platform: 'scheduler',
+        action: 'resume-series',
+        message: success ? `Series ${id} resumed` : `Series ${id} not found or not paused`,
+      };
+    },
+  },
+  {
+    name: 'scheduler_delete_series',
+    description: 'Delete a recurring post and cancel its pending occurrence',
+    inputSchema: seriesIdSchema,
+    handler: async (args, context) => {
+      const id = args.id as number;
+      const success = deleteSeries(id, context?.workspace?.id);
+      return {
+        success,
+        platform: 'scheduler',
+        action: 'delete-series',
+        message: success ? `Series ${id} deleted` : `Series ${id} not found`,
+      };
+    },
+  },
+  {
+    name: 'campaign_post',
+    description:
+      'Publish one post to several platforms at once, with per-platform overrides. The user gets a single summary.',
+    inputSchema: campaignPostSchema,
+    handler: async (args, context) => {
+      const request = args as unknown as CampaignAddRequest;
+      const summary = createCampaign({
+        ...request,
+        // Each platform uses the workspace's account unless one is named
+        targets: request.targets.map((target) => {
+          const accountId = getWorkspaceAccount(context?.workspace ?? null, target.platform);
+          if (!accountId || target.overrides?.accountId || request.content.accountId) return target;
+          return { ...target, overrides: { ...target.overrides, accountId } };
+        }),
+        workspaceId: context?.workspace?.id,
+        chatId: context?.chatId,
+      });
+      return {
+        success: true,
+        platform: 'campaign',
+        action: 'post',
+        jobId: summary.jobs[0]?.id,
+        message: `Campaign ${summary.campaign.id} queued for ${summary.jobs.map((job) => job.platform).join(', ')}. A summary is sent when every platform has finished.`,
+      };
+    },
+    requiresApproval: true,
+  },
+  {
+    name: 'campaign_status',
+    description: 'Show the status of each platform of a campaign',
+    inputSchema: {
+      type: 'object',
+      properties: { id: { type: 'number', description: 'Campaign ID' } },
+      required: ['id'],
+    },
+    handler: async (args, context) => {
+      const summary = getCampaignSummary(args.id as number, context?.workspace?.id);
+      if (!summary) {
+        return {
+          success: false,
+          platform: 'campaign',
+          action: 'status',
+          error: `Campaign ${args.id} not found`,
+        };
+      }
+      return {
+        success: true,
+        platform: 'campaign',
+        action: 'status',
+        message: formatCampaignSummary(summary),
+      };
+    },
+  },
+  {
+    name: 'scheduler_list',
+    description: 'List scheduled jobs, optionally filtered by status or platform',
+    inputSchema: queueListSchema,
+    handler: async (args, context) => ({
+      success: true,
+      platform: 'scheduler',
+      action: 'list',
+      message: JSON.stringify(
+        listQueue({ ...(args as QueueListOptions), workspaceId: context?.workspace?.id }),
+        null,
+        2
+      ),
+    }),
+  },
+  {
+    name: 'scheduler_cancel',
+    description: 'Cancel a pending scheduled job',
+    inputSchema: jobIdSchema,
+    handler: async (args, context) => {
+      const id = args.id as number;
+      const success = cancel(id, context?.workspace?.id);
+      return {
+        success,
+        platform: 'scheduler',
+        action: 'cancel',
+        message: success ? `Job ${id} cancelled` : `Job ${id} not found or already processed`,
+      };
+    },
+  },
+  {
+    name: 'scheduler_retry',
+    description: 'Queue a failed job for another attempt',
+    inputSchema: jobIdSchema,
+    handler: async (args, context) => {
+      const id = args.id as number;
+      const success = retry(id, context?.workspace?.id);
+      return {
+        success,
+        platform: 'scheduler',
+        action: 'retry',
+        message: success ? `Job ${id} queued for retry` : `Job ${id} not found or not failed`,
+      };
+    },
+  },
+  {
+    name: 'scheduler_stats',
+    description: 'Show queue statistics',
+    inputSchema: emptySchema,
+    handler: async (_args, context) => {
+      const stats = getStats(context?.workspace?.id);
+      return {
+        success: true,
+        platform: 'scheduler',
+        action: 'stats',
+        message: `Queue stats:\nTotal: ${stats.total}\nPending: ${stats.pending}\nRunning: ${stats.processing}\nCompleted: ${stats.completed}\nFailed: ${stats.failed}`,
+      };
+    },
+  },
+  {
+    name: 'recommend',
+    description: 'Get the best days and hours to post on a platform (omit platform for all)',
+    inputSchema: {
+      type: 'object',
+      properties: { platform: { type: 'string', enum: PLATFORMS } },
+    },
+    handler: async (args, context) => ({
+      success: true,
+      platform: 'recommend',
+      action: (args.platform as string) || 'all',
+      message: formatRecommendations(args.platform as string | undefined, context?.workspace),
+    }),
+  },
+];
+
+/**
+ * Check if a tool queues content (arguments nested under content)
+ */
+export function isQueueTool(name: string): boolean {
+  return name === 'scheduler_add' || name === 'scheduler_add_series' || name === 'campaign_post';
+}
+
+/**
+ * Get the platform a tool call publishes to
+ */
+export function getToolPlatform(name: string, args: Record<string, unknown>): string {
+  if (isQueueTool(name) && typeof args.platform === 'string') {
+    return args.platform;
+  }
+  return name.split('_')[0];
+}
+
+/**
+ * Check the files and content of a tool call against the platform rules
+ * before it is approved, published or queued
+ * Returns a failed result listing the violations, or null when the content is fine.
+ */
+export async function validateToolCall(
+  tool: SkillTool,
+  args: Record<string, unknown>
+): Promise<SkillResult | null> {
+  // Only media sent to the bot, never other files on the host
+  const foreign = findForeignFile(args);
+  if (foreign) {
+    return {
+      success: false,
+      platform: tool.name.split('_')[0],
+      action: tool.name,
+      error: `${foreign} was not sent to the bot; only files sent in this chat can be published`,
+      retryable: false,
+    };
+  }
+
+  if (tool.name === 'scheduler_add' || tool.name === 'scheduler_add_series') {
+    const request = args as unknown as QueueAddRequest;
+    return checkContent(request.platform, request.action, request.content || {}, request.filePath);
+  }
+
+  // Every platform of a campaign, reporting the first that fails
+  if (tool.name === 'campaign_post') {
+    let jobs: ReturnType<typeof buildCampaignJobs>;
+    try {
+      jobs = buildCampaignJobs(args as unknown as CampaignAddRequest);
+    } catch (error) {
+      return {
+        success: false,
+        platform: 'campaign',
+        action: 'post',
+        error: error instanceof Error ? error.message : 'Invalid campaign',
+        retryable: false,
+      };
+    }
+    for (const job of jobs) {
+      const invalid = await checkContent(job.platform, job.action, job.content, job.filePath);
+      if (invalid) return invalid;
+    }
+    return null;
+  }
+
+  const action = tool.contentAction || tool.queueAction;
+  if (!action) return null;
+  return checkContent(getToolPlatform(tool.name, args), action, args);
+}
+
+/**
+ * Fill in the workspace's account when a tool call does not name one
+ * Throws when it names an account that is not linked to the workspace.
+ */
+export function applyWorkspaceDefaults(
+  name: string,
+  args: Record<string, unknown>,
+  workspace?: Workspace | null
+): Record<string, unknown> {
+  // Campaign targets get their accounts when the campaign is created
+  if (name === 'campaign_post') {
+    const request = args as unknown as CampaignAddRequest;
+    for (const target of request.targets || []) {
+      assertWorkspaceAccount(workspace ?? null, target.platform, target.overrides?.accountId ?? request.content?.accountId);
+    }
+    return args;
+  }
+
+  const platform = getToolPlatform(name, args);
+  if (!PLATFORMS.includes(platform)) return args;
+
+  const queued = isQueueTool(name);
+  const content = queued ? (args.content as Record<string, unknown> | undefined) || {} : args;
+  assertWorkspaceAccount(workspace ?? null, platform, content.accountId);
+
+  const accountId = getWorkspaceAccount(workspace ?? null, platform);
+  if (!accountId || content.accountId) return args;
+  return queued ? { ...args, content: { ...content, accountId } } : { ...args, accountId };
+}
+
+/**
+ * Find a tool by name
+ */
+export function getSkillTool(name: string): SkillTool | undefined {
+  return SKILL_TOOLS.find((tool) => tool.name === name);
+}
@@ -0,0 +1,130 @@
+/**
+ * Temporary public hosting for uploaded media
+ *
+ * Instagram (and Facebook link posts) fetch media from a public URL, while
+ * files sent to the bot only exist in UPLOADS_DIR. This module hands out
+ * unguessable, expiring, HMAC-signed links that the OAuth server serves
+ * under /media/. Links live in SQLite so the relay, the MCP server and the
+ * scheduler can all create and revoke them. Only files sent to the bot can
+ * get a link.
+ */
+
+import { randomBytes, createHmac, timingSafeEqual } from 'crypto';
+import { basename, extname } from 'path';
+import { saveMediaLink, getMediaLink, deleteMediaLink } from '../storage/db.js';
+import { assertUploadedFile } from './uploads.js';
+
+const PORT = parseInt(process.env.OAUTH_PORT || '3000', 10);
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || `http://localhost:${PORT}`).replace(/\/$/, '');
+const DEFAULT_TTL_SECONDS = parseInt(process.env.MEDIA_URL_TTL || '3600', 10);
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.m4v': 'video/x-m4v',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.srt': 'application/x-subrip',
+  '.vtt': 'text/vtt',
+};
+
+export interface MediaLink {
+  id: string;
+  url: string;
+  expiresAt: Date;
+}
+
+function getSecret(): string {
+  const secret = process.env.MEDIA_URL_SECRET;
+  if (!secret) {
+    throw new Error('Media hosting not configured: set MEDIA_URL_SECRET');
+  }
+  return secret;
+}
+
+function sign(id: string, expires: number): string {
+  return createHmac('sha256', getSecret()).update(`${id}:${expires}`).digest('base64url');
+}
+
+/**
+ * Get the MIME type for a media file
+ */
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Check if a file is a video (by extension)
+ */
+export function isVideoFile(filePath: string): boolean {
+  return getMimeType(filePath).startsWith('video/');
+}
+
+/**
+ * Create a signed public URL for a file sent to the bot
+ * Throws for any other file.
+ */
+export function createMediaUrl(filePath: string, ttlSeconds: number = DEFAULT_TTL_SECONDS): MediaLink {
+  assertUploadedFile(filePath);
+
+  const id = randomBytes(24).toString('base64url');
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+
+  saveMediaLink(id, filePath, expiresAt);
+
+  const name = encodeURIComponent(basename(filePath));
+  const url = `${PUBLIC_BASE_URL}/media/${id}/${name}?expires=${expires}&sig=${sign(id, expires)}`;
+
+  return { id, url, expiresAt };
+}
+
+/**
+ * Revoke a link before it expires
+ */
+export function revokeMediaUrl(id: string): void {
+  deleteMediaLink(id);
+}
+
+/**
+ * Resolve a signed request to a local file path
+ * Returns null if the signature is wrong, the link expired or was revoked.
+ */
+export function resolveMediaRequest(id: string, expires: string | null, sig: string | null): string | null {
+  if (!expires || !sig) return null;
+
+  const expiresAt = parseInt(expires, 10);
+  if (!expiresAt || expiresAt * 1000 <= Date.now()) return null;
+
+  const expected = Buffer.from(sign(id, expiresAt));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const link = getMediaLink(id);
+  if (!link || link.expiresAt.getTime() <= Date.now()) return null;
+
+  return link.filePath;
+}
+
+/**
+ * Run a job with public URLs for some files, revoking them afterwards
+ */
+export async function withMediaUrls<T>(
+  filePaths: string[],
+  fn: (urls: string[]) => Promise<T>
+): Promise<T> {
+  const links = filePaths.map((filePath) => createMediaUrl(filePath));
+  try {
+    return await fn(links.map((link) => link.url));
+  } finally {
+    links.forEach((link) => revokeMediaUrl(link.id));
+  }
+}
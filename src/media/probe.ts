@@ -0,0 +1,77 @@
+/**
+ * Read the dimensions and duration of media files with ffprobe
+ *
+ * Used to check aspect ratios and video lengths before an upload. When
+ * ffprobe is not installed (FFPROBE_PATH), files are not probed and those
+ * checks are skipped.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+const PROBE_TIMEOUT_MS = 30000;
+
+const execFileAsync = promisify(execFile);
+
+export interface MediaInfo {
+  width?: number;
+  height?: number;
+  duration?: number; // Seconds, videos only
+  videoCodec?: string;
+  audioCodec?: string;
+}
+
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number }[];
+}
+
+let ffprobeMissing = false;
+
+/**
+ * Probe a media file, or return null when it cannot be probed
+ */
+export async function probeMedia(filePath: string): Promise<MediaInfo | null> {
+  if (ffprobeMissing) return null;
+
+  try {
+    const { stdout } = await execFileAsync(
+      FFPROBE_PATH,
+      ['-v', 'error', '-print_format', 'json', '-show_streams', '-show_format', filePath],
+      { timeout: PROBE_TIMEOUT_MS }
+    );
+    const data = JSON.parse(stdout) as { streams?: ProbeStream[]; format?: { duration?: string } };
+
+    const stream = data.streams?.find((s) => s.codec_type === 'video');
+    const audio = data.streams?.find((s) => s.codec_type === 'audio');
+    const duration = parseFloat(data.format?.duration || '');
+
+    // Phone videos are often stored landscape with a rotation flag
+    const rotation = Math.abs(
+      parseInt(stream?.tags?.rotate || '', 10) || stream?.side_data_list?.find((d) => d.rotation)?.rotation || 0
+    );
+    const rotated = rotation === 90 || rotation === 270;
+
+    return {
+      width: rotated ? stream?.height : stream?.width,
+      height: rotated ? stream?.width : stream?.height,
+      // Still images report a tiny duration
+      duration: isNaN(duration) || duration < 0.1 ? undefined : duration,
+      videoCodec: stream?.codec_name,
+      audioCodec: audio?.codec_name,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.warn(`[Media] ${FFPROBE_PATH} not found, skipping media checks`);
+      ffprobeMissing = true;
+    } else {
+      console.error(`[Media] Could not probe ${filePath}:`, error);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * Platform variants of uploaded media
+ *
+ * Photos and videos are stored in UPLOADS_DIR exactly as they were sent.
+ * Before a skill uploads one, prepareMedia() converts it to what the platform
+ * asks for in its adapter's mediaSpec:
+ *
+ * - videos (ffmpeg): re-encoded to H.264/AAC MP4, cropped or padded to the
+ *   aspect ratio, scaled down, trimmed to the maximum duration and compressed
+ *   to the size limit
+ * - photos (ImageMagick): HEIC, WebP... converted to JPEG, cropped or padded
+ *   to the aspect ratio and scaled down
+ *
+ * Files that already match are uploaded as they are. Variants are kept in a
+ * .variants directory next to the original and reused until the original
+ * changes; deleteMedia() removes them together with the original. Without
+ * ffmpeg or ImageMagick (FFMPEG_PATH, IMAGEMAGICK_PATH) files are uploaded
+ * unchanged, and MEDIA_TRANSCODE=false turns conversion off.
+ */
+
+import { spawn, which } from 'bun';
+import { createHash } from 'crypto';
+import { mkdir, rename, rm, stat, unlink } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { getPlatform } from '../platforms/registry.js';
+import { getMimeType } from './hosting.js';
+import { probeMedia } from './probe.js';
+import type { MediaSpec, UploadProgressCallback } from '../platforms/types.js';
+
+const TRANSCODING_ENABLED = process.env.MEDIA_TRANSCODE !== 'false';
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const IMAGEMAGICK_PATH = process.env.IMAGEMAGICK_PATH || 'magick';
+const TRANSCODE_TIMEOUT_MS = parseInt(process.env.TRANSCODE_TIMEOUT || '1800000', 10);
+
+const VARIANTS_DIR = '.variants';
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v'];
+const AUDIO_BITRATE = 128000;
+const MIN_VIDEO_BITRATE = 300000;
+// Room for the container and bitrate overshoot when compressing to a size limit
+const SIZE_MARGIN = 0.9;
+const JPEG_QUALITY = 90;
+// Aspect ratios this close to the accepted range are left alone
+const ASPECT_TOLERANCE = 0.01;
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+const installed = new Map<string, boolean>();
+
+function isInstalled(command: string): boolean {
+  if (!installed.has(command)) {
+    const found = which(command) !== null;
+    if (!found) console.warn(`[Media] ${command} not found, media is uploaded without conversion`);
+    installed.set(command, found);
+  }
+  return installed.get(command)!;
+}
+
+function getKind(filePath: string): 'image' | 'video' | undefined {
+  const mimeType = getMimeType(filePath);
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  return undefined;
+}
+
+/**
+ * Check if a file can be converted (the tool for its type is installed)
+ */
+export function canTranscode(filePath: string): boolean {
+  const kind = getKind(filePath);
+  if (!TRANSCODING_ENABLED || !kind) return false;
+  return isInstalled(kind === 'video' ? FFMPEG_PATH : IMAGEMAGICK_PATH);
+}
+
+/**
+ * Get the media spec of a platform action, or null when its media is uploaded as is
+ */
+export function getMediaSpec(platform: string, action: string, args: object): MediaSpec | null {
+  if (!TRANSCODING_ENABLED) return null;
+  return getPlatform(platform)?.mediaSpec?.(action, { ...args }) ?? null;
+}
+
+/**
+ * Run a conversion tool and return its output
+ * ffmpeg progress lines (-progress pipe:1) are reported as seconds encoded.
+ */
+async function run(args: string[], onTime?: (seconds: number) => void): Promise<string> {
+  const proc = spawn(args, { stdout: 'pipe', stderr: 'pipe' });
+  const timer = setTimeout(() => proc.kill(), TRANSCODE_TIMEOUT_MS);
+
+  const readOutput = async (): Promise<string> => {
+    if (!onTime) return new Response(proc.stdout).text();
+
+    const decoder = new TextDecoder();
+    let pending = '';
+    for await (const chunk of proc.stdout) {
+      const lines = (pending + decoder.decode(chunk, { stream: true })).split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        const match = line.match(/^out_time_us=(\d+)/);
+        if (match) onTime(parseInt(match[1], 10) / 1e6);
+      }
+    }
+    return '';
+  };
+
+  try {
+    const [output, stderr, exitCode] = await Promise.all([
+      // A progress callback that throws (e.g. the skill call was aborted) stops the tool
+      readOutput().catch((error) => {
+        proc.kill();
+        throw error;
+      }),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    if (exitCode !== 0) {
+      throw new Error(`${basename(args[0])} exited with code ${exitCode}: ${stderr.trim().slice(-500)}`);
+    }
+    return output;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function even(value: number, round: (value: number) => number = Math.round): number {
+  return Math.max(2, round(value / 2) * 2);
+}
+
+/**
+ * Frame of the media once cropped or padded to the spec's aspect ratio
+ */
+function fitAspectRatio(size: Dimensions, spec: MediaSpec): Dimensions {
+  const ratio = size.width / size.height;
+  if (!spec.aspectRatio) return size;
+
+  const { min, max } = spec.aspectRatio;
+  if (ratio >= min - ASPECT_TOLERANCE && ratio <= max + ASPECT_TOLERANCE) return size;
+
+  const target = ratio < min ? min : max;
+  if (spec.fit === 'crop') {
+    return ratio > target
+      ? { width: even(size.height * target, Math.floor), height: size.height }
+      : { width: size.width, height: even(size.width / target, Math.floor) };
+  }
+  return ratio > target
+    ? { width: size.width, height: even(size.width / target, Math.ceil) }
+    : { width: even(size.height * target, Math.ceil), height: size.height };
+}
+
+/**
+ * Output size: the frame scaled down to the spec's maximum dimensions
+ * Videos get even dimensions, as H.264 requires.
+ */
+function scaleDown(frame: Dimensions, spec: MediaSpec, isVideo: boolean): Dimensions {
+  const scale = Math.min(
+    1,
+    (spec.maxWidth || Infinity) / frame.width,
+    (spec.maxHeight || Infinity) / frame.height
+  );
+  if (isVideo) return { width: even(frame.width * scale), height: even(frame.height * scale) };
+  return { width: Math.round(frame.width * scale), height: Math.round(frame.height * scale) };
+}
+
+function isSameSize(a: Dimensions, b: Dimensions): boolean {
+  return a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Read the size of a photo, as displayed (EXIF rotation applied)
+ */
+async function identifyImage(filePath: string): Promise<Dimensions | null> {
+  try {
+    const output = await run([IMAGEMAGICK_PATH, 'identify', '-format', '%w %h %[orientation]\n', `${filePath}[0]`]);
+    const [width, height, orientation] = output.trim().split('\n')[0].split(' ');
+    const rotated = ['LeftTop', 'RightTop', 'RightBottom', 'LeftBottom'].includes(orientation);
+    return rotated
+      ? { width: parseInt(height, 10), height: parseInt(width, 10) }
+      : { width: parseInt(width, 10), height: parseInt(height, 10) };
+  } catch (error) {
+    console.error(`[Media] Could not read ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Convert a photo, or return null when it already matches the spec
+ */
+async function convertImage(filePath: string, spec: MediaSpec, variantPath: string): Promise<string | null> {
+  const size = await identifyImage(filePath);
+  if (!size) return null;
+
+  const frame = fitAspectRatio(size, spec);
+  const output = scaleDown(frame, spec, false);
+  const extension = extname(filePath).toLowerCase();
+  const keepFormat = ['.jpg', '.jpeg', ...(spec.jpegOnly ? [] : ['.png', '.gif'])].includes(extension);
+  if (keepFormat && isSameSize(frame, size) && isSameSize(output, frame)) return null;
+
+  const target = keepFormat ? `${variantPath}${extension}` : `${variantPath}.jpg`;
+  const args = [IMAGEMAGICK_PATH, `${filePath}[0]`, '-auto-orient', '-gravity', 'center'];
+  if (!isSameSize(frame, size)) {
+    args.push(
+      ...(spec.fit === 'crop'
+        ? ['-crop', `${frame.width}x${frame.height}+0+0`, '+repage']
+        : ['-background', 'white', '-extent', `${frame.width}x${frame.height}`])
+    );
+  }
+  if (!isSameSize(output, frame)) {
+    args.push('-resize', `${output.width}x${output.height}!`);
+  }
+  args.push('-quality', String(JPEG_QUALITY));
+
+  return writeVariant(target, (tempPath) => run([...args, tempPath]));
+}
+
+/**
+ * Convert a video, or return null when it already matches the spec
+ */
+async function convertVideo(
+  filePath: string,
+  spec: MediaSpec,
+  variantPath: string,
+  onProgress?: UploadProgressCallback
+): Promise<string | null> {
+  const info = await probeMedia(filePath);
+  if (!info?.width || !info.height) return null;
+
+  const size = { width: info.width, height: info.height };
+  const frame = fitAspectRatio(size, spec);
+  const output = scaleDown(frame, spec, true);
+  const trim = !!(spec.maxDuration && info.duration && info.duration > spec.maxDuration);
+  const tooLarge = !!(spec.maxFileSize && (await stat(filePath)).size > spec.maxFileSize);
+
+  const compatible =
+    VIDEO_EXTENSIONS.includes(extname(filePath).toLowerCase()) &&
+    info.videoCodec === 'h264' &&
+    (!info.audioCodec || info.audioCodec === 'aac');
+  if (compatible && isSameSize(frame, size) && isSameSize(output, frame) && !trim && !tooLarge) return null;
+
+  const filters: string[] = [];
+  if (!isSameSize(frame, size)) {
+    filters.push(
+      spec.fit === 'crop'
+        ? `crop=${frame.width}:${frame.height}`
+        : `pad=${frame.width}:${frame.height}:(ow-iw)/2:(oh-ih)/2:black`
+    );
+  }
+  if (!isSameSize(output, frame)) {
+    filters.push(`scale=${output.width}:${output.height}`);
+  }
+  filters.push('setsar=1');
+
+  // Cap the bitrate so the whole video fits in the size limit
+  const duration = trim ? spec.maxDuration! : info.duration;
+  const bitrate =
+    spec.maxFileSize && duration
+      ? Math.max(MIN_VIDEO_BITRATE, Math.floor((spec.maxFileSize * 8 * SIZE_MARGIN) / duration) - AUDIO_BITRATE)
+      : undefined;
+
+  const args = [
+    FFMPEG_PATH, '-y', '-loglevel', 'error', '-nostats', '-progress', 'pipe:1',
+    '-i', filePath,
+    '-map', '0:v:0', '-map', '0:a:0?',
+    ...(trim ? ['-t', String(spec.maxDuration)] : []),
+    '-vf', filters.join(','),
+    '-c:v', 'libx264', '-preset', 'medium', '-crf', '23', '-pix_fmt', 'yuv420p',
+    ...(bitrate ? ['-maxrate', String(bitrate), '-bufsize', String(bitrate * 2)] : []),
+    '-c:a', 'aac', '-b:a', String(AUDIO_BITRATE),
+    '-movflags', '+faststart',
+  ];
+
+  const totalMs = Math.round((duration || 0) * 1000);
+  const onTime = (seconds: number): void =>
+    onProgress?.({ bytesSent: Math.min(Math.round(seconds * 1000), totalMs), totalBytes: totalMs, converting: true });
+
+  return writeVariant(`${variantPath}.mp4`, (tempPath) => run([...args, tempPath], onTime));
+}
+
+/**
+ * Write a variant through a temporary file, so a conversion that stops
+ * halfway never leaves a variant that looks complete
+ */
+async function writeVariant(target: string, write: (tempPath: string) => Promise<unknown>): Promise<string> {
+  const tempPath = `${target}.${process.pid}.part${extname(target)}`;
+  await mkdir(dirname(target), { recursive: true });
+  try {
+    await write(tempPath);
+    await rename(tempPath, target);
+    return target;
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+function getVariantsDir(filePath: string): string {
+  return join(dirname(filePath), VARIANTS_DIR, basename(filePath));
+}
+
+/**
+ * Check if a file is the original or one of its platform variants
+ */
+export function isMediaOf(filePath: string, original: string): boolean {
+  return filePath === original || dirname(filePath) === getVariantsDir(original);
+}
+
+/**
+ * Find a variant made from the current version of the original
+ */
+async function findVariant(filePath: string, variantPath: string, modified: number): Promise<string | null> {
+  for (const extension of new Set(['.mp4', '.jpg', extname(filePath).toLowerCase()])) {
+    const candidate = `${variantPath}${extension}`;
+    const variant = await stat(candidate).catch(() => null);
+    if (variant && variant.mtimeMs >= modified) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Convert one file to a spec, returning the path to upload
+ */
+async function prepareFile(
+  filePath: string,
+  spec: MediaSpec,
+  name: string,
+  onProgress?: UploadProgressCallback
+): Promise<string> {
+  if (!canTranscode(filePath)) return filePath;
+
+  const original = await stat(filePath).catch(() => null);
+  if (!original) return filePath;
+
+  // Variants differ by spec, so platforms with the same requirements share one
+  const key = createHash('sha1').update(JSON.stringify(spec)).digest('hex').slice(0, 10);
+  const variantPath = join(getVariantsDir(filePath), key);
+  const existing = await findVariant(filePath, variantPath, original.mtimeMs);
+  if (existing) return existing;
+
+  const converted =
+    getKind(filePath) === 'video'
+      ? await convertVideo(filePath, spec, variantPath, onProgress)
+      : await convertImage(filePath, spec, variantPath);
+  if (converted) {
+    console.log(`[Media] Converted ${basename(filePath)} for ${name}`);
+  }
+  return converted || filePath;
+}
+
+/**
+ * Replace the local media of a platform action (filePath, items[].filePath)
+ * with variants matching the platform's media spec
+ * Throws when a conversion fails.
+ */
+export async function prepareMedia<T extends object>(
+  platform: string,
+  action: string,
+  args: T,
+  onProgress?: UploadProgressCallback
+): Promise<T> {
+  const spec = getMediaSpec(platform, action, args);
+  if (!spec) return args;
+
+  const name = `${getPlatform(platform)?.displayName || platform} ${action}`;
+  const prepared = { ...args } as Record<string, unknown>;
+
+  if (typeof prepared.filePath === 'string') {
+    prepared.filePath = await prepareFile(prepared.filePath, spec, name, onProgress);
+  }
+
+  if (Array.isArray(prepared.items)) {
+    const items: unknown[] = [];
+    for (const item of prepared.items as { filePath?: string }[]) {
+      const filePath = item.filePath && (await prepareFile(item.filePath, spec, name, onProgress));
+      items.push(filePath ? { ...item, filePath } : item);
+    }
+    prepared.items = items;
+  }
+
+  return prepared as T;
+}
+
+/**
+ * Delete a media file and its platform variants
+ */
+export async function deleteMedia(filePath: string): Promise<void> {
+  await unlink(filePath).catch(() => {});
+  await rm(getVariantsDir(filePath), { recursive: true, force: true }).catch(() => {});
+}
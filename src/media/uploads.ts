@@ -0,0 +1,75 @@
+/**
+ * Files sent to the bot
+ *
+ * The relay saves media sent in Telegram under UPLOADS_DIR, and tool calls
+ * name it by path. Only those files may be published or hosted, so a tool
+ * call cannot expose other files on the host (.env, the database) behind a
+ * public link or as an upload.
+ */
+
+import { realpathSync } from 'fs';
+import { basename, dirname, join, resolve, sep } from 'path';
+
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || '~', '.claude-relay');
+
+export const UPLOADS_DIR = join(RELAY_DIR, 'uploads');
+
+// Tool arguments naming a local file, at any depth (items, captions, content)
+const FILE_FIELDS = ['filePath', 'thumbnailPath'];
+
+/**
+ * Resolve .. and symlinks, also for a file that does not exist (yet)
+ */
+function realPath(path: string): string {
+  const full = resolve(path);
+  try {
+    return realpathSync(full);
+  } catch {
+    try {
+      return join(realpathSync(dirname(full)), basename(full));
+    } catch {
+      return full;
+    }
+  }
+}
+
+/**
+ * Check that a file is inside UPLOADS_DIR
+ */
+export function isUploadedFile(filePath: string): boolean {
+  return realPath(filePath).startsWith(realPath(UPLOADS_DIR) + sep);
+}
+
+/**
+ * Throw unless a file is inside UPLOADS_DIR
+ */
+export function assertUploadedFile(filePath: string): void {
+  if (!isUploadedFile(filePath)) {
+    throw new Error(`${filePath} was not sent to the bot; only files in ${UPLOADS_DIR} can be published`);
+  }
+}
+
+/**
+ * Find the first file named in tool arguments that is outside UPLOADS_DIR
+ */
+export function findForeignFile(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const file = findForeignFile(item);
+      if (file) return file;
+    }
+    return null;
+  }
+
+  if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      if (FILE_FIELDS.includes(key) && typeof item === 'string') {
+        if (!isUploadedFile(item)) return item;
+        continue;
+      }
+      const file = findForeignFile(item);
+      if (file) return file;
+    }
+  }
+  return null;
+}
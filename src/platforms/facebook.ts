@@ -1,18 +1,50 @@
 /**
- * Facebook Graph API integration (includes Instagram)
+ * Facebook Graph API integration (Instagram publishing lives in instagram.ts)
+ *
+ * Page posts can be text/link posts, native photo and video uploads,
+ * multi-photo posts and Reels.
  */
 
 import axios from 'axios';
+import { open, readFile, stat } from 'fs/promises';
 import { getValidToken, storeToken, createTokenData } from '../auth/token-manager.js';
-import type { FacebookPostOptions, InstagramPostOptions, TokenData, SkillResult } from './types.js';
+import { getMimeType, isVideoFile } from '../media/hosting.js';
+import type {
+  FacebookPostOptions,
+  FacebookMediaItem,
+  TokenData,
+  SkillResult,
+  OAuthRequest,
+  PlatformAdapter,
+  ContentRules,
+  MediaSpec,
+  UploadProgressCallback,
+} from './types.js';
+
+export const GRAPH_API_BASE = 'https://graph.facebook.com/v18.0';
+const GRAPH_VIDEO_BASE = 'https://graph-video.facebook.com/v18.0';
 
-const GRAPH_API_BASE = 'https://graph.facebook.com/v18.0';
+// Videos above this size use the resumable (chunked) upload protocol
+const RESUMABLE_UPLOAD_THRESHOLD = 50 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+const CHUNK_RETRY_DELAY_MS = 2000;
+
+// Fields of the Graph API responses used below
+interface GraphResponse {
+  id?: string;
+  post_id?: string;
+  video_id?: string;
+  upload_session_id?: string;
+  upload_url?: string;
+  start_offset?: string;
+  end_offset?: string;
+}
 
 /**
- * Get Facebook access token
+ * Get Facebook access token (shared with the Instagram module)
  */
-async function getAccessToken(): Promise<string | null> {
-  const token = await getValidToken('facebook', refreshFacebookToken);
+export async function getAccessToken(accountId?: string): Promise<string | null> {
+  const token = await getValidToken('facebook', refreshFacebookToken, accountId);
   return token?.accessToken || null;
 }
 
@@ -42,11 +74,79 @@ async function refreshFacebookToken(token: TokenData): Promise<TokenData | null>
   }
 }
 
+/**
+ * Build the Facebook login dialog URL (also grants the Instagram permissions)
+ */
+function getFacebookAuthUrl(request: OAuthRequest): string {
+  const appId = process.env.FACEBOOK_APP_ID;
+  const redirectUri = process.env.FACEBOOK_REDIRECT_URI;
+
+  if (!appId || !redirectUri) {
+    throw new Error('Facebook OAuth credentials not configured');
+  }
+
+  const params = new URLSearchParams({
+    client_id: appId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: 'pages_manage_posts,pages_read_engagement,instagram_basic,instagram_content_publish',
+    state: request.state,
+  });
+
+  // Ask for the login again so another Facebook user can be connected
+  if (request.addAccount) params.set('auth_type', 'reauthenticate');
+
+  return `https://www.facebook.com/v18.0/dialog/oauth?${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code for a token of the connected user
+ */
+async function exchangeFacebookCode(code: string): Promise<TokenData> {
+  const appId = process.env.FACEBOOK_APP_ID;
+  const appSecret = process.env.FACEBOOK_APP_SECRET;
+  const redirectUri = process.env.FACEBOOK_REDIRECT_URI;
+
+  if (!appId || !appSecret || !redirectUri) {
+    throw new Error('Facebook OAuth credentials not configured');
+  }
+
+  const url = new URL(`${GRAPH_API_BASE}/oauth/access_token`);
+  url.searchParams.set('client_id', appId);
+  url.searchParams.set('client_secret', appSecret);
+  url.searchParams.set('code', code);
+  url.searchParams.set('redirect_uri', redirectUri);
+
+  const tokenResponse = await fetch(url.toString());
+
+  if (!tokenResponse.ok) {
+    const error = await tokenResponse.text();
+    throw new Error(`Token exchange failed: ${error}`);
+  }
+
+  const data = await tokenResponse.json();
+
+  // Identify the Facebook user so several logins can be connected
+  const meResponse = await fetch(
+    `${GRAPH_API_BASE}/me?fields=id,name&access_token=${encodeURIComponent(data.access_token)}`
+  );
+  const me = meResponse.ok ? await meResponse.json() : undefined;
+
+  // Facebook tokens don't expire by default, but may be short-lived
+  return createTokenData(
+    'facebook',
+    data.access_token,
+    undefined,
+    data.expires_in || undefined,
+    me?.id && { accountId: me.id, displayName: me.name }
+  );
+}
+
 /**
  * Get user's pages
  */
-export async function getPages(): Promise<SkillResult> {
-  const token = await getAccessToken();
+export async function getPages(accountId?: string): Promise<SkillResult> {
+  const token = await getAccessToken(accountId);
   if (!token) {
     return {
       success: false,
@@ -83,146 +183,367 @@ export async function getPages(): Promise<SkillResult> {
 }
 
 /**
- * Post to a Facebook page
+ * Get the access token of a page the user manages
  */
-export async function postToPage(options: FacebookPostOptions): Promise<SkillResult> {
-  const token = await getAccessToken();
-  if (!token) {
-    return {
-      success: false,
-      platform: 'facebook',
-      action: 'post_to_page',
-      needsAuth: true,
-      error: 'Facebook authentication required. Run /auth facebook',
-    };
+async function getPageToken(token: string, pageId: string): Promise<string | null> {
+  const response = await axios.get(`${GRAPH_API_BASE}/me/accounts`, {
+    params: {
+      access_token: token,
+    },
+  });
+
+  const page = response.data.data.find((p: { id: string }) => p.id === pageId);
+  return page?.access_token || null;
+}
+
+/**
+ * Post a form to the Graph API
+ * Graph errors are rethrown with Facebook's message and the HTTP status.
+ */
+async function postForm(url: string, fields: Record<string, string | Blob | undefined>): Promise<GraphResponse> {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) form.append(key, value);
   }
 
-  try {
-    // First, get page access token
-    const pagesResponse = await axios.get(`${GRAPH_API_BASE}/me/accounts`, {
-      params: {
-        access_token: token,
-      },
-    });
+  const response = await fetch(url, { method: 'POST', body: form });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    throw new Error(`Facebook API error: ${data.error?.message || response.statusText} (status ${response.status})`);
+  }
+  return data;
+}
 
-    const page = pagesResponse.data.data.find(
-      (p: { id: string }) => p.id === options.pageId
-    );
+/**
+ * Publish settings of a post: right away, or at scheduledTime
+ */
+function getPublishFields(options: FacebookPostOptions): Record<string, string | undefined> {
+  if (!options.scheduledTime) return {};
 
-    if (!page) {
-      return {
-        success: false,
-        platform: 'facebook',
-        action: 'post_to_page',
-        error: `Page ${options.pageId} not found or no permission to access it`,
-      };
-    }
+  // scheduledTime is a string when the options come from JSON
+  return {
+    published: 'false',
+    scheduled_publish_time: Math.floor(new Date(options.scheduledTime).getTime() / 1000).toString(),
+  };
+}
 
-    const pageToken = page.access_token;
+/**
+ * Photo source: the file itself, or a URL Facebook downloads
+ */
+async function getPhotoSource(item: FacebookMediaItem): Promise<Record<string, string | Blob | undefined>> {
+  if (item.filePath) {
+    const buffer = await readFile(item.filePath);
+    return { source: new Blob([buffer], { type: getMimeType(item.filePath) }) };
+  }
+  return { url: item.imageUrl };
+}
+
+/**
+ * Post a single photo to the page
+ */
+async function postPhoto(options: FacebookPostOptions, pageToken: string): Promise<SkillResult> {
+  const data = await postForm(`${GRAPH_API_BASE}/${options.pageId}/photos`, {
+    ...(await getPhotoSource(options)),
+    caption: options.message,
+    ...getPublishFields(options),
+    access_token: pageToken,
+  });
+
+  const postId = data.post_id || data.id;
+  return {
+    success: true,
+    platform: 'facebook',
+    action: 'post_to_page',
+    postId,
+    url: `https://facebook.com/${postId}`,
+    message: options.scheduledTime ? 'Photo scheduled on page' : 'Photo posted to page',
+  };
+}
 
-    // Build post data
-    const postData: Record<string, string | undefined> = {
-      message: options.message,
-      link: options.link,
+/**
+ * Post several photos as one page post
+ * The photos are uploaded unpublished first, then attached to a feed post.
+ */
+async function postMultiPhoto(options: FacebookPostOptions, pageToken: string): Promise<SkillResult> {
+  const items = options.items!;
+  const mediaIds: string[] = [];
+
+  for (const item of items) {
+    if (!item.filePath && !item.imageUrl) {
+      throw new Error('Every item needs a filePath or imageUrl');
+    }
+    const data = await postForm(`${GRAPH_API_BASE}/${options.pageId}/photos`, {
+      ...(await getPhotoSource(item)),
+      published: 'false',
+      // Scheduled posts need photos that stay available until they go out
+      temporary: options.scheduledTime ? 'true' : undefined,
       access_token: pageToken,
-    };
+    });
+    mediaIds.push(data.id!);
+  }
+
+  const attachments = Object.fromEntries(
+    mediaIds.map((id, index) => [`attached_media[${index}]`, JSON.stringify({ media_fbid: id })])
+  );
+  const data = await postForm(`${GRAPH_API_BASE}/${options.pageId}/feed`, {
+    message: options.message,
+    ...attachments,
+    ...getPublishFields(options),
+    access_token: pageToken,
+  });
+
+  return {
+    success: true,
+    platform: 'facebook',
+    action: 'post_to_page',
+    postId: data.id,
+    url: `https://facebook.com/${data.id}`,
+    message: `${options.scheduledTime ? 'Scheduled' : 'Posted'} ${mediaIds.length} photos on page`,
+  };
+}
+
+/**
+ * Upload a video in the chunks Facebook asks for (resumable upload protocol)
+ * Returns the upload session to finish.
+ */
+async function uploadVideoChunks(
+  options: FacebookPostOptions,
+  pageToken: string,
+  fileSize: number,
+  onProgress?: UploadProgressCallback
+): Promise<string> {
+  const url = `${GRAPH_VIDEO_BASE}/${options.pageId}/videos`;
+  const start = await postForm(url, {
+    upload_phase: 'start',
+    file_size: String(fileSize),
+    access_token: pageToken,
+  });
 
-    // If scheduled time is provided, convert to Unix timestamp
-    if (options.scheduledTime) {
-      postData.published = 'false';
-      postData.scheduled_publish_time = Math.floor(
-        options.scheduledTime.getTime() / 1000
-      ).toString();
+  const sessionId = start.upload_session_id!;
+  let startOffset = parseInt(start.start_offset!, 10);
+  let endOffset = parseInt(start.end_offset!, 10);
+
+  const file = await open(options.filePath!, 'r');
+  try {
+    let failures = 0;
+    while (startOffset < endOffset) {
+      onProgress?.({ bytesSent: startOffset, totalBytes: fileSize });
+
+      const length = endOffset - startOffset;
+      const buffer = Buffer.alloc(length);
+      await file.read(buffer, 0, length, startOffset);
+
+      try {
+        const step = await postForm(url, {
+          upload_phase: 'transfer',
+          upload_session_id: sessionId,
+          start_offset: String(startOffset),
+          video_file_chunk: new Blob([buffer]),
+          access_token: pageToken,
+        });
+        startOffset = parseInt(step.start_offset!, 10);
+        endOffset = parseInt(step.end_offset!, 10);
+        failures = 0;
+      } catch (error) {
+        // The same chunk is sent again; Facebook keeps the session open
+        if (++failures > MAX_CHUNK_RETRIES) throw error;
+        console.error(`Facebook video chunk at byte ${startOffset} failed (attempt ${failures}), retrying:`, error);
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_RETRY_DELAY_MS * failures));
+      }
     }
+  } finally {
+    await file.close();
+  }
+
+  onProgress?.({ bytesSent: fileSize, totalBytes: fileSize });
+  return sessionId;
+}
+
+/**
+ * Post a video to the page
+ * Large files use the resumable upload protocol, small ones a single request.
+ */
+async function postVideo(
+  options: FacebookPostOptions,
+  pageToken: string,
+  onProgress?: UploadProgressCallback
+): Promise<SkillResult> {
+  const filePath = options.filePath!;
+  const fileSize = (await stat(filePath)).size;
+  const details = {
+    title: options.title,
+    description: options.message,
+    ...getPublishFields(options),
+    access_token: pageToken,
+  };
 
-    // Remove undefined values
-    Object.keys(postData).forEach((key) => {
-      if (postData[key] === undefined) delete postData[key];
+  let videoId: string;
+  if (fileSize > RESUMABLE_UPLOAD_THRESHOLD) {
+    const sessionId = await uploadVideoChunks(options, pageToken, fileSize, onProgress);
+    const data = await postForm(`${GRAPH_VIDEO_BASE}/${options.pageId}/videos`, {
+      upload_phase: 'finish',
+      upload_session_id: sessionId,
+      ...details,
+    });
+    videoId = data.video_id || data.id || sessionId;
+  } else {
+    onProgress?.({ bytesSent: 0, totalBytes: fileSize });
+    const buffer = await readFile(filePath);
+    const data = await postForm(`${GRAPH_VIDEO_BASE}/${options.pageId}/videos`, {
+      source: new Blob([buffer], { type: getMimeType(filePath) }),
+      ...details,
     });
+    onProgress?.({ bytesSent: fileSize, totalBytes: fileSize });
+    videoId = data.id!;
+  }
 
-    const response = await axios.post(
-      `${GRAPH_API_BASE}/${options.pageId}/feed`,
-      postData
-    );
+  return {
+    success: true,
+    platform: 'facebook',
+    action: 'post_to_page',
+    videoId,
+    url: `https://facebook.com/${videoId}`,
+    message: options.scheduledTime
+      ? 'Video uploaded and scheduled on page'
+      : 'Video uploaded to page (Facebook may take a few minutes to process it)',
+  };
+}
 
-    const postId = response.data.id;
+/**
+ * Post a video as a Page Reel
+ * Reels are uploaded to Facebook's upload host, then published in a finish call.
+ */
+async function postReel(
+  options: FacebookPostOptions,
+  pageToken: string,
+  onProgress?: UploadProgressCallback
+): Promise<SkillResult> {
+  const filePath = options.filePath!;
+  const fileSize = (await stat(filePath)).size;
+  const url = `${GRAPH_API_BASE}/${options.pageId}/video_reels`;
 
-    return {
-      success: true,
-      platform: 'facebook',
-      action: 'post_to_page',
-      postId,
-      url: `https://facebook.com/${postId}`,
-      message: `Posted to page successfully`,
-    };
-  } catch (error) {
-    console.error('Facebook post error:', error);
-    return {
-      success: false,
-      platform: 'facebook',
-      action: 'post_to_page',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+  const start = await postForm(url, { upload_phase: 'start', access_token: pageToken });
+  const videoId = start.video_id!;
+
+  onProgress?.({ bytesSent: 0, totalBytes: fileSize });
+  const upload = await fetch(start.upload_url!, {
+    method: 'POST',
+    headers: {
+      Authorization: `OAuth ${pageToken}`,
+      offset: '0',
+      file_size: String(fileSize),
+    },
+    body: await readFile(filePath),
+  });
+  if (!upload.ok) {
+    throw new Error(`Facebook Reel upload failed: ${await upload.text()} (status ${upload.status})`);
   }
+  onProgress?.({ bytesSent: fileSize, totalBytes: fileSize });
+
+  const publish = getPublishFields(options);
+  await postForm(url, {
+    upload_phase: 'finish',
+    video_id: videoId,
+    video_state: publish.scheduled_publish_time ? 'SCHEDULED' : 'PUBLISHED',
+    scheduled_publish_time: publish.scheduled_publish_time,
+    title: options.title,
+    description: options.message,
+    access_token: pageToken,
+  });
+
+  return {
+    success: true,
+    platform: 'facebook',
+    action: 'post_to_page',
+    videoId,
+    url: `https://www.facebook.com/reel/${videoId}`,
+    message: options.scheduledTime ? 'Reel scheduled on page' : 'Reel published on page',
+  };
 }
 
 /**
- * Post to Instagram (requires Facebook page connected to IG account)
+ * Post a text or link to the page feed
+ */
+async function postToFeed(options: FacebookPostOptions, pageToken: string): Promise<SkillResult> {
+  const data = await postForm(`${GRAPH_API_BASE}/${options.pageId}/feed`, {
+    message: options.message,
+    link: options.link,
+    ...getPublishFields(options),
+    access_token: pageToken,
+  });
+
+  const postId = data.id;
+
+  return {
+    success: true,
+    platform: 'facebook',
+    action: 'post_to_page',
+    postId,
+    url: `https://facebook.com/${postId}`,
+    message: `Posted to page successfully`,
+  };
+}
+
+/**
+ * Post to a Facebook page
  *
- * Instagram posting is a 2-step process:
- * 1. Create a media container
- * 2. Publish the container
+ * Picks the post type from the options: several photos (items), a photo or
+ * video file (mediaType "reel" for a Page Reel), a photo URL, or a text/link
+ * post.
  */
-export async function postToInstagram(options: InstagramPostOptions): Promise<SkillResult> {
-  const token = await getAccessToken();
+export async function postToPage(
+  options: FacebookPostOptions,
+  onProgress?: UploadProgressCallback
+): Promise<SkillResult> {
+  const token = await getAccessToken(options.accountId);
   if (!token) {
     return {
       success: false,
-      platform: 'instagram',
-      action: 'post_to_ig',
+      platform: 'facebook',
+      action: 'post_to_page',
       needsAuth: true,
       error: 'Facebook authentication required. Run /auth facebook',
     };
   }
 
   try {
-    // Step 1: Create media container
-    const containerResponse = await axios.post(
-      `${GRAPH_API_BASE}/${options.igUserId}/media`,
-      {
-        image_url: options.imageUrl,
-        caption: options.caption || '',
-        access_token: token,
-      }
-    );
+    const pageToken = await getPageToken(token, options.pageId);
+    if (!pageToken) {
+      return {
+        success: false,
+        platform: 'facebook',
+        action: 'post_to_page',
+        error: `Page ${options.pageId} not found or no permission to access it`,
+      };
+    }
 
-    const creationId = containerResponse.data.id;
+    if (options.items?.length) {
+      return await postMultiPhoto(options, pageToken);
+    }
 
-    // Step 2: Publish the container
-    const publishResponse = await axios.post(
-      `${GRAPH_API_BASE}/${options.igUserId}/media_publish`,
-      {
-        creation_id: creationId,
-        access_token: token,
+    if (options.filePath) {
+      const mediaType = options.mediaType || (isVideoFile(options.filePath) ? 'video' : 'photo');
+      switch (mediaType) {
+        case 'reel':
+          return await postReel(options, pageToken, onProgress);
+        case 'video':
+          return await postVideo(options, pageToken, onProgress);
+        default:
+          return await postPhoto(options, pageToken);
       }
-    );
+    }
 
-    const mediaId = publishResponse.data.id;
+    if (options.imageUrl) {
+      return await postPhoto(options, pageToken);
+    }
 
-    return {
-      success: true,
-      platform: 'instagram',
-      action: 'post_to_ig',
-      postId: mediaId,
-      url: `https://instagram.com/p/${mediaId}`,
-      message: `Posted to Instagram successfully`,
-    };
+    return await postToFeed(options, pageToken);
   } catch (error) {
-    console.error('Instagram post error:', error);
+    console.error('Facebook post error:', error);
     return {
       success: false,
-      platform: 'instagram',
-      action: 'post_to_ig',
+      platform: 'facebook',
+      action: 'post_to_page',
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -231,8 +552,8 @@ export async function postToInstagram(options: InstagramPostOptions): Promise<Sk
 /**
  * Get Instagram business account ID for a page
  */
-export async function getInstagramAccountId(pageId: string): Promise<SkillResult> {
-  const token = await getAccessToken();
+export async function getInstagramAccountId(pageId: string, accountId?: string): Promise<SkillResult> {
+  const token = await getAccessToken(accountId);
   if (!token) {
     return {
       success: false,
@@ -280,7 +601,69 @@ export async function getInstagramAccountId(pageId: string): Promise<SkillResult
 /**
  * Check if Facebook is authenticated
  */
-export async function isAuthenticated(): Promise<boolean> {
-  const token = await getAccessToken();
+export async function isAuthenticated(accountId?: string): Promise<boolean> {
+  const token = await getAccessToken(accountId);
   return token !== null;
 }
+
+/**
+ * Content rules of the Facebook actions
+ * Reels are vertical (9:16) videos of at most 90 seconds.
+ */
+function getContentRules(action: string, args: Record<string, unknown>): ContentRules | null {
+  if (action !== 'post-page') return null;
+
+  const rules: ContentRules = {
+    textFields: ['message'],
+    required: [['pageId'], ['message', 'link', 'filePath', 'imageUrl', 'items']],
+    fileTypes: ['image', 'video'],
+  };
+  if (args.mediaType === 'reel') {
+    return { ...rules, fileTypes: ['video'], aspectRatio: { min: 0.54, max: 0.58 }, videoDuration: 90 };
+  }
+  if (Array.isArray(args.items) && args.items.length > 0) {
+    return { ...rules, fileTypes: ['image'], minItems: 2 };
+  }
+  return rules;
+}
+
+/**
+ * Media spec of the Facebook actions
+ * Reels are fitted to 9:16; other photos and videos only change format.
+ */
+function getMediaSpec(action: string, args: Record<string, unknown>): MediaSpec | null {
+  if (action !== 'post-page') return null;
+  if (args.mediaType === 'reel') {
+    return { aspectRatio: { min: 9 / 16, max: 9 / 16 }, maxWidth: 1080, maxHeight: 1920, maxDuration: 90 };
+  }
+  return {};
+}
+
+/**
+ * Facebook adapter for the platform registry
+ */
+export const facebookAdapter: PlatformAdapter = {
+  name: 'facebook',
+  displayName: 'Facebook',
+  skill: 'facebook-skill.ts',
+  publishActions: ['post-page'],
+  tools: ['facebook_post', 'facebook_get_pages'],
+  promptNotes: [
+    'For Facebook posts of media sent here, pass the media path as filePath (uploaded natively); several photos go in items, and mediaType "reel" posts a video as a Page Reel',
+  ],
+  capabilities: {
+    mediaTypes: ['text', 'link', 'image', 'video', 'carousel'],
+    requiresMedia: false,
+    nativeScheduling: true,
+  },
+  limits: {
+    captionLength: 63206,
+    fileSize: 10 * 1024 ** 3,
+    videoDuration: 240 * 60,
+  },
+  contentRules: getContentRules,
+  mediaSpec: getMediaSpec,
+  getAuthUrl: getFacebookAuthUrl,
+  exchangeCode: exchangeFacebookCode,
+  refreshToken: refreshFacebookToken,
+};
@@ -0,0 +1,437 @@
+/**
+ * Instagram Graph API integration (publishing through a connected Facebook page)
+ *
+ * Instagram publishing is a 2-step process:
+ * 1. Create a media container (and wait for video containers to finish processing)
+ * 2. Publish the container
+ */
+
+import axios from 'axios';
+import { GRAPH_API_BASE, getAccessToken, getInstagramAccountId } from './facebook.js';
+import { withMediaUrls, isVideoFile } from '../media/hosting.js';
+import type {
+  InstagramPostOptions,
+  InstagramMediaItem,
+  InstagramMediaType,
+  SkillResult,
+  PlatformAdapter,
+  ContentRules,
+  MediaSpec,
+} from './types.js';
+
+// Video containers are processed asynchronously by Instagram
+const STATUS_POLL_INTERVAL_MS = 5000;
+const STATUS_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+const MAX_CAROUSEL_ITEMS = 10;
+
+/**
+ * Resolve the Instagram business account ID for a post
+ *
+ * Uses igUserId when given, otherwise the account connected to pageId,
+ * otherwise the account connected to the first page the user manages.
+ */
+export async function resolveInstagramUserId(
+  options: Pick<InstagramPostOptions, 'igUserId' | 'pageId' | 'accountId'>,
+  token: string
+): Promise<string> {
+  if (options.igUserId) return options.igUserId;
+
+  let pageId = options.pageId;
+  if (!pageId) {
+    const response = await axios.get(`${GRAPH_API_BASE}/me/accounts`, {
+      params: { access_token: token, fields: 'id,name' },
+    });
+    pageId = response.data.data?.[0]?.id;
+    if (!pageId) {
+      throw new Error('No Facebook page found to resolve the Instagram account');
+    }
+  }
+
+  const result = await getInstagramAccountId(pageId, options.accountId);
+  if (!result.success || !result.message) {
+    throw new Error(result.error || `No Instagram account connected to page ${pageId}`);
+  }
+
+  return result.message;
+}
+
+/**
+ * Create a media container and return its ID
+ */
+async function createContainer(
+  igUserId: string,
+  token: string,
+  params: Record<string, string | boolean | undefined>
+): Promise<string> {
+  // Remove undefined values
+  const body = Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined)
+  );
+
+  const response = await axios.post(`${GRAPH_API_BASE}/${igUserId}/media`, {
+    ...body,
+    access_token: token,
+  });
+
+  return response.data.id;
+}
+
+/**
+ * Poll a container until Instagram has finished processing it
+ */
+async function waitForContainer(containerId: string, token: string): Promise<void> {
+  const deadline = Date.now() + STATUS_POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const response = await axios.get(`${GRAPH_API_BASE}/${containerId}`, {
+      params: { fields: 'status_code,status', access_token: token },
+    });
+
+    const { status_code: statusCode, status } = response.data;
+
+    // Status can be: EXPIRED, ERROR, FINISHED, IN_PROGRESS, PUBLISHED
+    if (statusCode === 'FINISHED' || statusCode === 'PUBLISHED') return;
+    if (statusCode === 'ERROR' || statusCode === 'EXPIRED') {
+      throw new Error(`Media processing failed: ${status || statusCode}`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+  }
+
+  throw new Error('Timed out waiting for Instagram to process the media');
+}
+
+/**
+ * Publish a finished container and return the media ID
+ */
+async function publishContainer(igUserId: string, containerId: string, token: string): Promise<string> {
+  const response = await axios.post(`${GRAPH_API_BASE}/${igUserId}/media_publish`, {
+    creation_id: containerId,
+    access_token: token,
+  });
+  return response.data.id;
+}
+
+/**
+ * Get the public permalink of a published media object
+ */
+async function getPermalink(mediaId: string, token: string): Promise<string | undefined> {
+  try {
+    const response = await axios.get(`${GRAPH_API_BASE}/${mediaId}`, {
+      params: { fields: 'permalink', access_token: token },
+    });
+    return response.data.permalink;
+  } catch {
+    // Stories have no permalink
+    return undefined;
+  }
+}
+
+/**
+ * Build the container for each media type
+ */
+async function buildContainer(
+  mediaType: InstagramMediaType,
+  igUserId: string,
+  token: string,
+  options: InstagramPostOptions
+): Promise<string> {
+  switch (mediaType) {
+    case 'image': {
+      if (!options.imageUrl) throw new Error('Missing required field: imageUrl');
+      return createContainer(igUserId, token, {
+        image_url: options.imageUrl,
+        caption: options.caption || '',
+      });
+    }
+
+    case 'reel': {
+      if (!options.videoUrl) throw new Error('Missing required field: videoUrl');
+      const containerId = await createContainer(igUserId, token, {
+        media_type: 'REELS',
+        video_url: options.videoUrl,
+        caption: options.caption || '',
+        cover_url: options.coverUrl,
+        share_to_feed: options.shareToFeed,
+      });
+      await waitForContainer(containerId, token);
+      return containerId;
+    }
+
+    case 'story': {
+      if (!options.imageUrl && !options.videoUrl) {
+        throw new Error('Missing required field: imageUrl or videoUrl');
+      }
+      const containerId = await createContainer(igUserId, token, {
+        media_type: 'STORIES',
+        image_url: options.imageUrl,
+        video_url: options.videoUrl,
+      });
+      if (options.videoUrl) await waitForContainer(containerId, token);
+      return containerId;
+    }
+
+    case 'carousel': {
+      const items = options.items || [];
+      if (items.length < 2 || items.length > MAX_CAROUSEL_ITEMS) {
+        throw new Error(`Carousels need between 2 and ${MAX_CAROUSEL_ITEMS} items`);
+      }
+
+      const children: string[] = [];
+      for (const item of items) {
+        children.push(await createCarouselItem(igUserId, token, item));
+      }
+
+      const containerId = await createContainer(igUserId, token, {
+        media_type: 'CAROUSEL',
+        children: children.join(','),
+        caption: options.caption || '',
+      });
+      await waitForContainer(containerId, token);
+      return containerId;
+    }
+  }
+}
+
+/**
+ * Create a single carousel child container
+ */
+async function createCarouselItem(
+  igUserId: string,
+  token: string,
+  item: InstagramMediaItem
+): Promise<string> {
+  if (item.videoUrl) {
+    const containerId = await createContainer(igUserId, token, {
+      media_type: 'VIDEO',
+      video_url: item.videoUrl,
+      is_carousel_item: true,
+    });
+    await waitForContainer(containerId, token);
+    return containerId;
+  }
+
+  if (!item.imageUrl) throw new Error('Each carousel item needs an imageUrl or videoUrl');
+
+  return createContainer(igUserId, token, {
+    image_url: item.imageUrl,
+    is_carousel_item: true,
+  });
+}
+
+/**
+ * Work out the media type when the caller did not specify one
+ */
+function detectMediaType(options: InstagramPostOptions): InstagramMediaType {
+  if (options.mediaType) return options.mediaType;
+  if (options.items?.length) return 'carousel';
+  if (options.videoUrl) return 'reel';
+  if (options.filePath && isVideoFile(options.filePath)) return 'reel';
+  return 'image';
+}
+
+/**
+ * Local files that need a public URL, in the order applyMediaUrls consumes them
+ */
+function getLocalFiles(options: InstagramPostOptions): string[] {
+  const files = [options.filePath, ...(options.items || []).map((item) => item.filePath)];
+  return files.filter((file): file is string => !!file);
+}
+
+/**
+ * Replace local file paths with their temporary public URLs
+ */
+function applyMediaUrls(options: InstagramPostOptions, urls: string[]): InstagramPostOptions {
+  const remaining = [...urls];
+  const toMedia = (filePath?: string): InstagramMediaItem => {
+    if (!filePath) return {};
+    const url = remaining.shift()!;
+    return isVideoFile(filePath) ? { videoUrl: url } : { imageUrl: url };
+  };
+
+  return {
+    ...options,
+    ...toMedia(options.filePath),
+    items: options.items?.map((item) => ({ ...item, ...toMedia(item.filePath) })),
+  };
+}
+
+/**
+ * Post to Instagram (image, carousel, Reel or Story)
+ */
+export async function postToInstagram(options: InstagramPostOptions): Promise<SkillResult> {
+  const mediaType = detectMediaType(options);
+  const action = `post_${mediaType}`;
+
+  const token = await getAccessToken(options.accountId);
+  if (!token) {
+    return {
+      success: false,
+      platform: 'instagram',
+      action,
+      needsAuth: true,
+      error: 'Facebook authentication required. Run /auth facebook',
+    };
+  }
+
+  try {
+    const igUserId = await resolveInstagramUserId(options, token);
+
+    // Local files get a public URL that is revoked once publishing is done
+    const mediaId = await withMediaUrls(getLocalFiles(options), async (urls) => {
+      const resolved = applyMediaUrls(options, urls);
+      const containerId = await buildContainer(mediaType, igUserId, token, resolved);
+      return publishContainer(igUserId, containerId, token);
+    });
+    const permalink = await getPermalink(mediaId, token);
+
+    return {
+      success: true,
+      platform: 'instagram',
+      action,
+      postId: mediaId,
+      url: permalink,
+      message: `Posted ${mediaType} to Instagram successfully`,
+    };
+  } catch (error) {
+    console.error('Instagram post error:', error);
+    return {
+      success: false,
+      platform: 'instagram',
+      action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Get the Instagram account connected to a page (or the first page)
+ */
+export async function getAccount(pageId?: string, accountId?: string): Promise<SkillResult> {
+  const token = await getAccessToken(accountId);
+  if (!token) {
+    return {
+      success: false,
+      platform: 'instagram',
+      action: 'get_account',
+      needsAuth: true,
+      error: 'Facebook authentication required. Run /auth facebook',
+    };
+  }
+
+  try {
+    const igUserId = await resolveInstagramUserId({ pageId, accountId }, token);
+    return {
+      success: true,
+      platform: 'instagram',
+      action: 'get_account',
+      message: igUserId,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      platform: 'instagram',
+      action: 'get_account',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Check if Instagram is authenticated (through Facebook)
+ */
+export async function isAuthenticated(accountId?: string): Promise<boolean> {
+  const token = await getAccessToken(accountId);
+  return token !== null;
+}
+
+/**
+ * Post options with the media type forced by post-image, post-reel... like in the skill
+ */
+function withActionMediaType(action: string, args: Record<string, unknown>): InstagramPostOptions {
+  const forced = action.match(/^post-(image|carousel|reel|story)$/)?.[1] as InstagramMediaType | undefined;
+  return { ...args, ...(forced && { mediaType: forced }) } as InstagramPostOptions;
+}
+
+/**
+ * Content rules of the Instagram actions
+ * Feed images and carousels must be between 4:5 portrait and 1.91:1 landscape;
+ * story videos are limited to 60 seconds.
+ */
+function getContentRules(action: string, args: Record<string, unknown>): ContentRules | null {
+  if (!action.startsWith('post')) return null;
+
+  const options = withActionMediaType(action, args);
+
+  const rules: ContentRules = {
+    textFields: ['caption'],
+    required: [['imageUrl', 'videoUrl', 'filePath', 'items']],
+  };
+  const feedAspectRatio = { min: 0.8, max: 1.91 };
+
+  switch (detectMediaType(options)) {
+    case 'image':
+      return { ...rules, fileTypes: ['image'], aspectRatio: feedAspectRatio };
+    case 'carousel':
+      return { ...rules, fileTypes: ['image', 'video'], aspectRatio: feedAspectRatio, minItems: 2 };
+    case 'reel':
+      return { ...rules, fileTypes: ['video'] };
+    case 'story':
+      return { ...rules, fileTypes: ['image', 'video'], videoDuration: 60 };
+  }
+}
+
+/**
+ * Media spec of the Instagram actions
+ * Instagram only takes JPEG photos; feed media is cropped into 4:5 to 1.91:1
+ * (as the app does), reels and stories are fitted to 1080x1920.
+ */
+function getMediaSpec(action: string, args: Record<string, unknown>): MediaSpec | null {
+  if (!action.startsWith('post')) return null;
+
+  switch (detectMediaType(withActionMediaType(action, args))) {
+    case 'image':
+    case 'carousel':
+      return { aspectRatio: { min: 0.8, max: 1.91 }, fit: 'crop', maxWidth: 1440, jpegOnly: true };
+    case 'reel':
+      return { aspectRatio: { min: 9 / 16, max: 9 / 16 }, maxWidth: 1080, maxHeight: 1920, maxDuration: 15 * 60 };
+    case 'story':
+      return {
+        aspectRatio: { min: 9 / 16, max: 9 / 16 },
+        maxWidth: 1080,
+        maxHeight: 1920,
+        maxDuration: 60,
+        jpegOnly: true,
+      };
+  }
+}
+
+/**
+ * Instagram adapter for the platform registry
+ * Instagram has no login of its own: it publishes with the Facebook token.
+ */
+export const instagramAdapter: PlatformAdapter = {
+  name: 'instagram',
+  displayName: 'Instagram',
+  authPlatform: 'facebook',
+  skill: 'instagram-skill.ts',
+  publishActions: ['post', 'post-image', 'post-carousel', 'post-reel', 'post-story'],
+  tools: ['instagram_post', 'instagram_get_account'],
+  promptNotes: [
+    'For Instagram posts of media sent here, pass the media path as filePath (a temporary public URL is created)',
+  ],
+  capabilities: {
+    mediaTypes: ['image', 'video', 'carousel', 'story'],
+    requiresMedia: true,
+  },
+  limits: {
+    captionLength: 2200,
+    hashtags: 30,
+    fileSize: 300 * 1024 ** 2,
+    videoDuration: 15 * 60,
+    carouselItems: MAX_CAROUSEL_ITEMS,
+  },
+  contentRules: getContentRules,
+  mediaSpec: getMediaSpec,
+};
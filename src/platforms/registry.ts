@@ -0,0 +1,60 @@
+/**
+ * Registry of supported platforms
+ *
+ * Every platform module exports a PlatformAdapter describing its login, skill,
+ * publish actions, capabilities and limits. The relay, OAuth server, MCP tools
+ * and scheduler look platforms up here, so adding a network means writing its
+ * module and listing its adapter below.
+ */
+
+import { youtubeAdapter } from './youtube.js';
+import { facebookAdapter } from './facebook.js';
+import { instagramAdapter } from './instagram.js';
+import { tiktokAdapter } from './tiktok.js';
+import type { PlatformAdapter } from './types.js';
+
+const ADAPTERS: PlatformAdapter[] = [youtubeAdapter, facebookAdapter, instagramAdapter, tiktokAdapter];
+
+/**
+ * Get a platform adapter by name (case-insensitive)
+ */
+export function getPlatform(name: string): PlatformAdapter | undefined {
+  const key = name.toLowerCase();
+  return ADAPTERS.find((adapter) => adapter.name === key);
+}
+
+/**
+ * List all supported platforms
+ */
+export function listPlatforms(): PlatformAdapter[] {
+  return [...ADAPTERS];
+}
+
+/**
+ * Names of all supported platforms
+ */
+export function getPlatformNames(): string[] {
+  return ADAPTERS.map((adapter) => adapter.name);
+}
+
+/**
+ * Platforms with their own login (the ones /auth accepts)
+ */
+export function listAuthPlatforms(): PlatformAdapter[] {
+  return ADAPTERS.filter((adapter) => adapter.getAuthUrl && adapter.exchangeCode);
+}
+
+/**
+ * Get the platform a user authenticates with to publish on a platform
+ */
+export function getAuthPlatform(name: string): string {
+  const adapter = getPlatform(name);
+  return adapter?.authPlatform || adapter?.name || name;
+}
+
+/**
+ * Get the skill action used when a caller does not name one
+ */
+export function getDefaultAction(name: string): string | undefined {
+  return getPlatform(name)?.publishActions[0];
+}
@@ -0,0 +1,35 @@
+/**
+ * Chunks of TikTok file uploads
+ *
+ * Run with: bun test
+ */
+
+import { expect, test } from 'bun:test';
+import { getChunkPlan } from './tiktok.js';
+
+const MB = 1024 * 1024;
+
+test('files up to one chunk are sent whole', () => {
+  expect(getChunkPlan(1)).toEqual({ chunkSize: 1, chunkCount: 1 });
+  expect(getChunkPlan(4 * MB)).toEqual({ chunkSize: 4 * MB, chunkCount: 1 });
+  expect(getChunkPlan(10 * MB)).toEqual({ chunkSize: 10 * MB, chunkCount: 1 });
+});
+
+test('the last chunk takes the remainder instead of being sent on its own', () => {
+  expect(getChunkPlan(10 * MB + 1)).toEqual({ chunkSize: 10 * MB, chunkCount: 1 });
+  expect(getChunkPlan(25 * MB)).toEqual({ chunkSize: 10 * MB, chunkCount: 2 });
+  expect(getChunkPlan(30 * MB)).toEqual({ chunkSize: 10 * MB, chunkCount: 3 });
+});
+
+test('every chunk stays within the sizes TikTok accepts', () => {
+  for (const fileSize of [10 * MB + 1, 64 * MB - 7, 999 * MB + 12345, 4 * 1024 * MB]) {
+    const { chunkSize, chunkCount } = getChunkPlan(fileSize);
+    const last = fileSize - (chunkCount - 1) * chunkSize;
+
+    expect(chunkSize).toBeGreaterThanOrEqual(5 * MB);
+    expect(chunkSize).toBeLessThanOrEqual(64 * MB);
+    expect(last).toBeGreaterThanOrEqual(chunkSize);
+    expect(last).toBeLessThan(2 * chunkSize);
+    expect(last).toBeLessThanOrEqual(128 * MB);
+  }
+});
@@ -1,22 +1,57 @@
 /**
  * TikTok Content Posting API integration
  *
- * Note: TikTok requires mobile confirmation for direct posting.
- * This implementation provides the upload flow and returns a preview URL.
+ * Videos go either to the user's TikTok inbox, where they are finished and
+ * published in the mobile app, or straight to the profile through Direct
+ * Post (requires an audited app). Files are uploaded in chunks; publishing
+ * happens asynchronously on TikTok's side and is followed via the publish_id.
  */
 
 import axios from 'axios';
-import { createReadStream, statSync } from 'fs';
+import { statSync } from 'fs';
+import { open, stat, type FileHandle } from 'fs/promises';
 import { getValidToken, storeToken, createTokenData } from '../auth/token-manager.js';
-import type { TikTokUploadOptions, TokenData, SkillResult } from './types.js';
+import { getMimeType } from '../media/hosting.js';
+import type {
+  TikTokUploadOptions,
+  TokenData,
+  SkillResult,
+  OAuthRequest,
+  PlatformAdapter,
+  ContentRules,
+  MediaSpec,
+  UploadProgressCallback,
+} from './types.js';
 
 const TIKTOK_API_BASE = 'https://open.tiktokapis.com/v2';
 
+const UPLOAD_CHUNK_SIZE = 10 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+const CHUNK_RETRY_DELAY_MS = 2000;
+
+// How long an upload waits for TikTok to finish before the scheduler takes over polling
+const STATUS_WAIT_MS = 60 * 1000;
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+const PRIVACY_LEVELS: Record<string, string> = {
+  public: 'PUBLIC_TO_EVERYONE',
+  friends: 'MUTUAL_FOLLOW_FRIENDS',
+  followers: 'FOLLOWER_OF_CREATOR',
+  private: 'SELF_ONLY',
+};
+
+interface CreatorInfo {
+  privacy_level_options: string[];
+  comment_disabled: boolean;
+  duet_disabled: boolean;
+  stitch_disabled: boolean;
+}
+
 /**
  * Get TikTok access token
  */
-async function getAccessToken(): Promise<string | null> {
-  const token = await getValidToken('tiktok', refreshTikTokToken);
+async function getAccessToken(accountId?: string): Promise<string | null> {
+  const token = await getValidToken('tiktok', refreshTikTokToken, accountId);
   return token?.accessToken || null;
 }
 
@@ -42,15 +77,155 @@ async function refreshTikTokToken(token: TokenData): Promise<TokenData | null> {
   }
 }
 
+/**
+ * Build the TikTok authorization URL
+ */
+function getTikTokAuthUrl(request: OAuthRequest): string {
+  const clientKey = process.env.TIKTOK_CLIENT_KEY;
+  const redirectUri = process.env.TIKTOK_REDIRECT_URI;
+
+  if (!clientKey || !redirectUri) {
+    throw new Error('TikTok OAuth credentials not configured');
+  }
+
+  const params = new URLSearchParams({
+    client_key: clientKey,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: 'user.info.basic,video.upload,video.publish',
+    state: request.state,
+  });
+
+  // Skip TikTok's automatic login so another account can be connected
+  if (request.addAccount) params.set('disable_auto_auth', '1');
+
+  return `https://www.tiktok.com/v2/auth/authorize?${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code for a token of the connected account
+ */
+async function exchangeTikTokCode(code: string): Promise<TokenData> {
+  const clientKey = process.env.TIKTOK_CLIENT_KEY;
+  const clientSecret = process.env.TIKTOK_CLIENT_SECRET;
+  const redirectUri = process.env.TIKTOK_REDIRECT_URI;
+
+  if (!clientKey || !clientSecret || !redirectUri) {
+    throw new Error('TikTok OAuth credentials not configured');
+  }
+
+  const response = await fetch(`${TIKTOK_API_BASE}/oauth/token/`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_key: clientKey,
+      client_secret: clientSecret,
+      code,
+      redirect_uri: redirectUri,
+      grant_type: 'authorization_code',
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Token exchange failed: ${error}`);
+  }
+
+  const data = await response.json();
+
+  // Identify the TikTok account so several accounts can be connected
+  const userResponse = await fetch(`${TIKTOK_API_BASE}/user/info/?fields=open_id,display_name`, {
+    headers: { Authorization: `Bearer ${data.access_token}` },
+  });
+  const user = userResponse.ok ? (await userResponse.json()).data?.user : undefined;
+
+  return createTokenData(
+    'tiktok',
+    data.access_token,
+    data.refresh_token,
+    data.expires_in,
+    data.open_id && { accountId: data.open_id, displayName: user?.display_name }
+  );
+}
+
+/**
+ * Read TikTok's error message from a failed API call
+ */
+function getErrorMessage(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const apiError = error.response?.data?.error;
+    if (apiError?.message) return `${apiError.message} (${apiError.code}, status ${error.response?.status})`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Split a file into the chunks TikTok accepts
+ *
+ * Chunks are 5-64 MB and the last one takes the remainder (up to 128 MB).
+ * Files up to one chunk are sent whole.
+ */
+export function getChunkPlan(fileSize: number): { chunkSize: number; chunkCount: number } {
+  if (fileSize <= UPLOAD_CHUNK_SIZE) {
+    return { chunkSize: fileSize, chunkCount: 1 };
+  }
+  return { chunkSize: UPLOAD_CHUNK_SIZE, chunkCount: Math.floor(fileSize / UPLOAD_CHUNK_SIZE) };
+}
+
+/**
+ * Get the Direct Post settings the creator's account allows
+ */
+async function queryCreatorInfo(accessToken: string): Promise<CreatorInfo> {
+  const response = await axios.post(
+    `${TIKTOK_API_BASE}/post/publish/creator_info/query/`,
+    {},
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+      },
+    }
+  );
+  return response.data.data;
+}
+
+/**
+ * Build the Direct Post settings, checked against what the creator allows
+ */
+async function buildPostInfo(options: TikTokUploadOptions, accessToken: string): Promise<Record<string, unknown>> {
+  const creator = await queryCreatorInfo(accessToken);
+
+  const privacyLevel = PRIVACY_LEVELS[options.privacy || 'public'];
+  if (!privacyLevel || !creator.privacy_level_options.includes(privacyLevel)) {
+    const allowed = Object.entries(PRIVACY_LEVELS)
+      .filter(([, level]) => creator.privacy_level_options.includes(level))
+      .map(([privacy]) => privacy);
+    // Without a choice posts default to public, which the account may not allow
+    if (!options.privacy) {
+      throw new Error(
+        `No TikTok privacy was chosen and this account cannot post publicly. Choose one of: ${allowed.join(', ')}`
+      );
+    }
+    throw new Error(`TikTok privacy "${options.privacy}" is not available for this account. Use one of: ${allowed.join(', ')}`);
+  }
+
+  return {
+    title: options.title,
+    privacy_level: privacyLevel,
+    // Settings the creator turned off in the app cannot be turned on by a post
+    disable_comment: creator.comment_disabled || !!options.disableComment,
+    disable_duet: creator.duet_disabled || !!options.disableDuet,
+    disable_stitch: creator.stitch_disabled || !!options.disableStitch,
+    video_cover_timestamp_ms: options.coverTimestampMs,
+  };
+}
+
 /**
  * Initialize video upload
- * Returns upload URL for chunked upload
+ * Returns the upload URL for the chunks and the publish_id to poll
  */
-export async function initUpload(
-  filePath: string,
-  title: string
-): Promise<SkillResult> {
-  const token = await getAccessToken();
+export async function initUpload(options: TikTokUploadOptions): Promise<SkillResult> {
+  const token = await getAccessToken(options.accountId);
   if (!token) {
     return {
       success: false,
@@ -62,27 +237,26 @@ export async function initUpload(
   }
 
   try {
-    // Get file size
-    const stats = statSync(filePath);
-    const fileSize = stats.size;
+    const fileSize = statSync(options.filePath).size;
+    const { chunkSize, chunkCount } = getChunkPlan(fileSize);
+    const direct = options.mode === 'direct';
 
-    // Initialize upload
+    // Inbox uploads only take the file, the user adds the rest in the app
     const response = await axios.post(
-      `${TIKTOK_API_BASE}/post/publish/inbox/video/init/`,
+      `${TIKTOK_API_BASE}/post/publish/${direct ? 'video' : 'inbox/video'}/init/`,
       {
+        ...(direct && { post_info: await buildPostInfo(options, token) }),
         source_info: {
           source: 'FILE_UPLOAD',
           video_size: fileSize,
-          chunk_size: fileSize, // Single chunk for simplicity
-          total_chunk_count: 1,
+          chunk_size: chunkSize,
+          total_chunk_count: chunkCount,
         },
-        title,
-        privacy_level: 'PUBLIC',
       },
       {
         headers: {
           Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
+          'Content-Type': 'application/json; charset=UTF-8',
         },
       }
     );
@@ -93,8 +267,9 @@ export async function initUpload(
       success: true,
       platform: 'tiktok',
       action: 'init_upload',
-      message: 'Upload initialized',
+      message: `Upload initialized (${chunkCount} chunk${chunkCount === 1 ? '' : 's'})`,
       url: data.upload_url,
+      publishId: data.publish_id,
     };
   } catch (error) {
     console.error('TikTok init upload error:', error);
@@ -102,38 +277,79 @@ export async function initUpload(
       success: false,
       platform: 'tiktok',
       action: 'init_upload',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: getErrorMessage(error),
     };
   }
 }
 
+/**
+ * Send one chunk, retrying network and server errors
+ */
+async function uploadChunk(
+  uploadUrl: string,
+  file: FileHandle,
+  offset: number,
+  length: number,
+  fileSize: number,
+  contentType: string
+): Promise<void> {
+  const buffer = Buffer.alloc(length);
+  await file.read(buffer, 0, length, offset);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': contentType,
+          'Content-Length': String(length),
+          'Content-Range': `bytes ${offset}-${offset + length - 1}/${fileSize}`,
+        },
+        body: buffer,
+      });
+
+      // 206 for every chunk but the last, 201 once the file is complete
+      if (response.ok) return;
+
+      const error = new Error(`TikTok chunk upload failed: status ${response.status} ${await response.text()}`);
+      if (response.status < 500) throw Object.assign(error, { permanent: true });
+      throw error;
+    } catch (error) {
+      if ((error as { permanent?: boolean }).permanent || attempt > MAX_CHUNK_RETRIES) throw error;
+      console.error(`TikTok chunk at byte ${offset} failed (attempt ${attempt}), retrying:`, error);
+      await new Promise((resolve) => setTimeout(resolve, CHUNK_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
 /**
  * Upload video chunks to TikTok
  */
 export async function uploadChunks(
   uploadUrl: string,
-  filePath: string
+  filePath: string,
+  onProgress?: UploadProgressCallback
 ): Promise<SkillResult> {
+  let file: FileHandle | undefined;
   try {
-    const fileStream = createReadStream(filePath);
-    const stats = statSync(filePath);
-    const fileSize = stats.size;
+    const fileSize = (await stat(filePath)).size;
+    const { chunkSize, chunkCount } = getChunkPlan(fileSize);
+    const contentType = getMimeType(filePath);
+    file = await open(filePath, 'r');
 
-    await axios.put(uploadUrl, fileStream, {
-      headers: {
-        'Content-Length': fileSize,
-        'Content-Range': `bytes 0-${fileSize - 1}/${fileSize}`,
-        'Content-Type': 'video/mp4',
-      },
-      maxBodyLength: Infinity,
-      maxContentLength: Infinity,
-    });
+    for (let index = 0; index < chunkCount; index++) {
+      const offset = index * chunkSize;
+      const length = index === chunkCount - 1 ? fileSize - offset : chunkSize;
+      onProgress?.({ bytesSent: offset, totalBytes: fileSize });
+      await uploadChunk(uploadUrl, file, offset, length, fileSize, contentType);
+    }
+    onProgress?.({ bytesSent: fileSize, totalBytes: fileSize });
 
     return {
       success: true,
       platform: 'tiktok',
       action: 'upload_chunks',
-      message: 'Video uploaded successfully',
+      message: `Video uploaded successfully (${chunkCount} chunk${chunkCount === 1 ? '' : 's'})`,
     };
   } catch (error) {
     console.error('TikTok upload chunks error:', error);
@@ -143,14 +359,19 @@ export async function uploadChunks(
       action: 'upload_chunks',
       error: error instanceof Error ? error.message : 'Unknown error',
     };
+  } finally {
+    await file?.close();
   }
 }
 
 /**
  * Check upload status
+ *
+ * A result with `processing` set is not final yet; poll again with the same
+ * publishId. Inbox uploads are final once they reach the user's inbox.
  */
-export async function checkStatus(publishId: string): Promise<SkillResult> {
-  const token = await getAccessToken();
+export async function checkStatus(publishId: string, accountId?: string): Promise<SkillResult> {
+  const token = await getAccessToken(accountId);
   if (!token) {
     return {
       success: false,
@@ -170,37 +391,57 @@ export async function checkStatus(publishId: string): Promise<SkillResult> {
       {
         headers: {
           Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
+          'Content-Type': 'application/json; charset=UTF-8',
         },
       }
     );
 
     const { data } = response.data;
-    const status = data.status;
-
-    // Status can be: PUBLISH_FAILED, PUBLISH_SUCCESS, PUBLISH_PENDING
-    if (status === 'PUBLISH_SUCCESS') {
-      return {
-        success: true,
-        platform: 'tiktok',
-        action: 'check_status',
-        message: 'Video published successfully',
-        url: data.share_url,
-      };
-    } else if (status === 'PUBLISH_FAILED') {
-      return {
-        success: false,
-        platform: 'tiktok',
-        action: 'check_status',
-        error: data.fail_reason || 'Publishing failed',
-      };
-    } else {
-      return {
-        success: true,
-        platform: 'tiktok',
-        action: 'check_status',
-        message: 'Publishing in progress...',
-      };
+
+    // Status can be: PROCESSING_UPLOAD, PROCESSING_DOWNLOAD, SEND_TO_USER_INBOX, PUBLISH_COMPLETE, FAILED
+    switch (data.status) {
+      case 'PUBLISH_COMPLETE': {
+        // Private posts have no public ID
+        const postId: string | undefined = data.publicaly_available_post_id?.[0]?.toString();
+        return {
+          success: true,
+          platform: 'tiktok',
+          action: 'check_status',
+          publishId,
+          postId,
+          message: postId ? `Video published on TikTok (post ${postId})` : 'Video published on TikTok',
+        };
+      }
+
+      case 'SEND_TO_USER_INBOX':
+        return {
+          success: true,
+          platform: 'tiktok',
+          action: 'check_status',
+          publishId,
+          message: 'Video sent to the TikTok inbox. Open the TikTok app to finish and publish it.',
+          url: 'https://www.tiktok.com/upload',
+        };
+
+      case 'FAILED':
+        return {
+          success: false,
+          platform: 'tiktok',
+          action: 'check_status',
+          publishId,
+          error: `TikTok could not publish the video: ${data.fail_reason || 'unknown reason'}`,
+          retryable: false,
+        };
+
+      default:
+        return {
+          success: true,
+          platform: 'tiktok',
+          action: 'check_status',
+          publishId,
+          processing: true,
+          message: `TikTok is still processing the video (${data.status}). publish_id: ${publishId}`,
+        };
     }
   } catch (error) {
     console.error('TikTok check status error:', error);
@@ -208,46 +449,130 @@ export async function checkStatus(publishId: string): Promise<SkillResult> {
       success: false,
       platform: 'tiktok',
       action: 'check_status',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: getErrorMessage(error),
     };
   }
 }
 
+/**
+ * Poll the status for a short while after an upload
+ * Returns the last status; it still has `processing` set when TikTok is slow.
+ */
+async function waitForPublish(publishId: string, accountId?: string): Promise<SkillResult> {
+  const deadline = Date.now() + STATUS_WAIT_MS;
+  let result = await checkStatus(publishId, accountId);
+
+  while (result.processing && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+    result = await checkStatus(publishId, accountId);
+  }
+
+  return result;
+}
+
 /**
  * Full upload workflow for TikTok
  *
- * Note: TikTok requires mobile confirmation for direct publishing.
- * This returns a preview URL that the user must confirm on mobile.
+ * Inbox uploads (the default) land in the TikTok app, where the user finishes
+ * and publishes them. Direct Post publishes right away with the given privacy
+ * and interaction settings. Either way the result carries the publish_id;
+ * when TikTok is still processing, the scheduler keeps polling it.
  */
-export async function uploadVideo(options: TikTokUploadOptions): Promise<SkillResult> {
+export async function uploadVideo(
+  options: TikTokUploadOptions,
+  onProgress?: UploadProgressCallback
+): Promise<SkillResult> {
   // Step 1: Initialize upload
-  const initResult = await initUpload(options.filePath, options.title);
+  const initResult = await initUpload(options);
   if (!initResult.success) {
-    return initResult;
+    return { ...initResult, action: 'upload' };
   }
+  const publishId = initResult.publishId!;
 
   // Step 2: Upload video chunks
-  const uploadResult = await uploadChunks(initResult.url!, options.filePath);
+  const uploadResult = await uploadChunks(initResult.url!, options.filePath, onProgress);
   if (!uploadResult.success) {
-    return uploadResult;
+    return { ...uploadResult, action: 'upload', publishId };
   }
 
-  // Note: TikTok requires mobile confirmation for the final publish step
-  // The video will be in a "pending confirmation" state
-  return {
-    success: true,
-    platform: 'tiktok',
-    action: 'upload',
-    message:
-      'Video uploaded to TikTok. Please check the TikTok mobile app to confirm and publish.',
-    url: 'https://www.tiktok.com/upload',
-  };
+  // Step 3: Wait for TikTok to process the video
+  const statusResult = await waitForPublish(publishId, options.accountId);
+
+  // A failed status check does not mean the upload failed
+  if (!statusResult.success && statusResult.retryable !== false && !statusResult.needsAuth) {
+    return {
+      success: true,
+      platform: 'tiktok',
+      action: 'upload',
+      publishId,
+      processing: true,
+      message: `Video uploaded to TikTok, status unknown (${statusResult.error}). publish_id: ${publishId}`,
+    };
+  }
+
+  return { ...statusResult, action: 'upload', publishId };
 }
 
 /**
  * Check if TikTok is authenticated
  */
-export async function isAuthenticated(): Promise<boolean> {
-  const token = await getAccessToken();
+export async function isAuthenticated(accountId?: string): Promise<boolean> {
+  const token = await getAccessToken(accountId);
   return token !== null;
 }
+
+/**
+ * Content rules of the TikTok actions
+ */
+function getContentRules(action: string): ContentRules | null {
+  if (action !== 'upload') return null;
+  return {
+    textFields: ['title'],
+    required: [['filePath'], ['title']],
+    fileTypes: ['video'],
+  };
+}
+
+/**
+ * Media spec of the TikTok actions: vertical 1080x1920 H.264 videos
+ */
+function getMediaSpec(action: string): MediaSpec | null {
+  if (action !== 'upload') return null;
+  return {
+    aspectRatio: { min: 9 / 16, max: 9 / 16 },
+    maxWidth: 1080,
+    maxHeight: 1920,
+    maxDuration: 10 * 60,
+    maxFileSize: 4 * 1024 ** 3,
+  };
+}
+
+/**
+ * TikTok adapter for the platform registry
+ */
+export const tiktokAdapter: PlatformAdapter = {
+  name: 'tiktok',
+  displayName: 'TikTok',
+  skill: 'tiktok-skill.ts',
+  publishActions: ['upload'],
+  statusAction: 'status',
+  tools: ['tiktok_upload', 'tiktok_status'],
+  promptNotes: [
+    'tiktok_upload sends the video to the TikTok inbox by default; use mode "direct" only when the user wants it published right away',
+  ],
+  capabilities: {
+    mediaTypes: ['video'],
+    requiresMedia: true,
+    privacyOptions: ['public', 'private', 'friends', 'followers'],
+  },
+  limits: {
+    captionLength: 2200,
+    fileSize: 4 * 1024 ** 3,
+    videoDuration: 10 * 60,
+  },
+  contentRules: getContentRules,
+  mediaSpec: getMediaSpec,
+  getAuthUrl: getTikTokAuthUrl,
+  exchangeCode: exchangeTikTokCode,
+  refreshToken: refreshTikTokToken,
+};
@@ -30,6 +30,8 @@ export interface TikTokConfig {
 
 export interface TokenData {
   platform: string;
+  accountId: string; // Channel / user ID on the platform ('default' for migrated tokens)
+  displayName?: string;
   accessToken: string;
   refreshToken?: string;
   expiresAt?: Date;
@@ -39,6 +41,7 @@ export interface TokenData {
 export interface OAuthState {
   platform: string;
   userId: string;
+  addAccount?: boolean; // Ask the provider to show its account chooser
   codeVerifier?: string;
   redirectPath?: string;
 }
@@ -57,9 +60,123 @@ export interface SkillResult {
   url?: string;
   message?: string;
   jobId?: number;
+  approvalId?: number; // Waiting for confirmation in Telegram
+  publishId?: string; // Platform-side ID of a post that is published asynchronously
+  processing?: boolean; // Accepted, but the platform has not finished publishing (poll with publishId)
   // On error
   error?: string;
   needsAuth?: boolean;
+  retryable?: boolean; // Overrides transient error detection in the scheduler
+  violations?: ContentViolation[]; // Content rejected before it was sent
+}
+
+// Extra in-process hooks a skill action can use (not serializable)
+export interface SkillContext {
+  onProgress?: UploadProgressCallback;
+  // Aborted when the dispatcher gives up on the call (timeout)
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// UPLOADS
+// ============================================================================
+
+export interface UploadProgress {
+  bytesSent: number;
+  totalBytes: number;
+  converting?: boolean; // Transcoding before the upload: both counts are milliseconds of video
+}
+
+export type UploadProgressCallback = (progress: UploadProgress) => void;
+
+// Resumable upload session kept across restarts
+export interface UploadSession {
+  platform: string;
+  accountId?: string;
+  filePath: string;
+  fileSize: number;
+  sessionUri: string;
+  bytesUploaded: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// PLATFORM ADAPTERS
+// ============================================================================
+
+export type PlatformMediaType = 'text' | 'link' | 'image' | 'video' | 'carousel' | 'story';
+
+export interface PlatformCapabilities {
+  mediaTypes: PlatformMediaType[];
+  requiresMedia: boolean; // Text-only posts are not possible
+  privacyOptions?: string[];
+  nativeScheduling?: boolean; // The platform can schedule posts itself
+}
+
+export interface PlatformLimits {
+  titleLength?: number;
+  captionLength?: number;
+  hashtags?: number;
+  fileSize?: number; // Bytes
+  videoDuration?: number; // Seconds
+  carouselItems?: number;
+}
+
+// What an action accepts, checked before anything is sent (src/validation)
+export interface ContentRules {
+  titleField?: string; // Argument checked against limits.titleLength
+  textFields?: string[]; // Arguments checked against limits.captionLength and limits.hashtags
+  required?: string[][]; // Each entry lists arguments of which at least one must be set
+  fileTypes?: ('image' | 'video')[]; // Accepted local media files
+  aspectRatio?: { min: number; max: number }; // Width / height of images and videos
+  minItems?: number; // Carousels and multi-photo posts (maximum is limits.carouselItems)
+  videoDuration?: number; // Seconds, overrides limits.videoDuration
+}
+
+// What an action's media is converted to before the upload (src/media/transcode.ts)
+export interface MediaSpec {
+  aspectRatio?: { min: number; max: number }; // Width / height; other media is fitted to the nearest bound
+  fit?: 'crop' | 'pad'; // How media is fitted to the aspect ratio (default pad)
+  maxWidth?: number;
+  maxHeight?: number;
+  maxDuration?: number; // Seconds, longer videos are trimmed
+  maxFileSize?: number; // Bytes, videos are compressed to fit
+  jpegOnly?: boolean; // Convert PNG and GIF photos to JPEG as well
+}
+
+export interface ContentViolation {
+  field: string;
+  message: string;
+  fix?: string; // Suggested change
+}
+
+export interface OAuthRequest {
+  state: string;
+  codeChallenge: string; // PKCE (S256), ignored by providers without PKCE
+  addAccount?: boolean;
+}
+
+export interface PlatformAdapter {
+  name: string; // Lowercase key used in jobs, tokens and /auth
+  displayName: string;
+  authPlatform?: string; // Platform whose login this one uses (Instagram -> facebook)
+  skill: string; // Skill file in src/skills, run through skills/dispatcher.ts
+  publishActions: string[]; // Skill actions that publish, the first one is the default
+  statusAction?: string; // Skill action the scheduler polls with { publishId, accountId } while processing
+  resumableUploads?: boolean; // Uploads continue from their upload session (see storage/db.ts) after a restart
+  tools: string[]; // MCP tools, listed in the Claude prompt
+  promptNotes?: string[]; // Extra rules for the Claude prompt
+  capabilities: PlatformCapabilities;
+  limits: PlatformLimits;
+  // Rules for the content of an action, null for actions that publish nothing
+  contentRules?: (action: string, args: Record<string, unknown>) => ContentRules | null;
+  // Target format of the media an action uploads, null to upload files as they are
+  mediaSpec?: (action: string, args: Record<string, unknown>) => MediaSpec | null;
+  // OAuth, only for platforms with their own login
+  getAuthUrl?: (request: OAuthRequest) => string;
+  exchangeCode?: (code: string, state: OAuthState) => Promise<TokenData>;
+  refreshToken?: (token: TokenData) => Promise<TokenData | null>;
 }
 
 // ============================================================================
@@ -77,54 +194,145 @@ export interface PostContent {
   filePath?: string;
   imageUrl?: string;
   link?: string;
+  accountId?: string;
+}
+
+// Who a queued job belongs to
+export interface JobContext {
+  workspaceId?: number;
+  chatId?: number; // Telegram chat notified about the outcome
+  seriesId?: number; // Recurring series the job is an occurrence of
+  campaignId?: number; // Campaign the job is one platform of
 }
 
+// processing: claimed by a scheduler run that is executing it
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
 export interface ScheduledJob {
   id?: number;
   platform: string;
   action: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: JobStatus;
   scheduledAt: Date;
   contentJson: string;
   filePath?: string;
   resultJson?: string;
   errorMessage?: string;
-  retryCount: number;
+  retryCount: number; // Failed attempts so far
+  nextAttemptAt?: Date; // Set while waiting to retry
+  workspaceId?: number;
+  chatId?: number;
+  seriesId?: number;
+  campaignId?: number;
+  publishId?: string; // Set once the platform accepted the upload and is still publishing it
+  processingSince?: Date; // When the platform first reported it was still publishing
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface JobAttempt {
+  jobId: number;
+  attempt: number;
+  error: string;
+  transient: boolean;
+  createdAt: Date;
+}
+
 // ============================================================================
 // PLATFORM-SPECIFIC UPLOAD OPTIONS
 // ============================================================================
 
-export interface YouTubeUploadOptions {
-  filePath: string;
-  title: string;
+export type YouTubeLicense = 'youtube' | 'creativeCommon';
+
+export interface YouTubeCaptionTrack {
+  filePath: string; // .srt or .vtt file
+  language: string; // BCP-47 code, e.g. en or fr-CA
+  name?: string; // Track name shown in the player
+}
+
+// Settings shared by uploads and updates of existing videos
+export interface YouTubeVideoSettings {
+  accountId?: string; // Channel ID or name; defaults to the first connected channel
+  title?: string;
   description?: string;
   tags?: string[];
   privacy?: 'public' | 'unlisted' | 'private';
   categoryId?: string;
+  publishAt?: string; // ISO-8601; YouTube keeps the video private and publishes it then
+  language?: string; // Language of the title, description and audio
+  license?: YouTubeLicense;
+  madeForKids?: boolean;
+}
+
+export interface YouTubeUploadOptions extends YouTubeVideoSettings {
+  filePath: string;
+  title: string;
+  thumbnailPath?: string; // Custom thumbnail (JPEG or PNG, max 2 MB)
+  playlistIds?: string[];
+  captions?: YouTubeCaptionTrack[];
+}
+
+export interface YouTubeVideoUpdate extends YouTubeVideoSettings {
+  videoId: string;
+}
+
+// Detected from the file when omitted; reel needs a vertical video
+export type FacebookMediaType = 'photo' | 'video' | 'reel';
+
+export interface FacebookMediaItem {
+  filePath?: string;
+  imageUrl?: string;
 }
 
 export interface FacebookPostOptions {
+  accountId?: string; // Facebook login ID or name; defaults to the first connected login
   pageId: string;
   message?: string;
   link?: string;
-  filePath?: string;
+  filePath?: string; // Photo or video uploaded to the page
+  imageUrl?: string; // Photo fetched by Facebook
+  mediaType?: FacebookMediaType;
+  items?: FacebookMediaItem[]; // Photos of a multi-photo post
+  title?: string; // Videos only
   scheduledTime?: Date;
 }
 
+export type InstagramMediaType = 'image' | 'carousel' | 'reel' | 'story';
+
+export interface InstagramMediaItem {
+  imageUrl?: string;
+  videoUrl?: string;
+  filePath?: string; // Local file, served through a temporary public URL
+}
+
 export interface InstagramPostOptions {
-  igUserId: string;
-  imageUrl: string;
+  accountId?: string; // Facebook login the Instagram account is reached through
+  igUserId?: string; // Resolved from pageId (or the first connected page) when omitted
+  pageId?: string;
+  mediaType?: InstagramMediaType;
+  imageUrl?: string;
+  videoUrl?: string;
+  filePath?: string; // Local file, served through a temporary public URL
+  items?: InstagramMediaItem[]; // Carousel children (2-10)
   caption?: string;
+  coverUrl?: string; // Reels only
+  shareToFeed?: boolean; // Reels only
 }
 
+// inbox: the user finishes the post in the TikTok app; direct: published right away (audited apps only)
+export type TikTokPostMode = 'inbox' | 'direct';
+
 export interface TikTokUploadOptions {
+  accountId?: string; // TikTok open_id or display name; defaults to the first connected account
   filePath: string;
   title: string;
-  privacy?: 'public' | 'private' | 'friends';
+  mode?: TikTokPostMode; // Defaults to inbox
+  // Direct Post only
+  privacy?: 'public' | 'private' | 'friends' | 'followers';
+  disableComment?: boolean;
+  disableDuet?: boolean;
+  disableStitch?: boolean;
+  coverTimestampMs?: number; // Frame used as the cover
 }
 
 // ============================================================================
@@ -144,6 +352,121 @@ export interface PostingGuidelines {
   frequency: string;
 }
 
+// ============================================================================
+// APPROVALS
+// ============================================================================
+
+export type ApprovalStatus = 'pending' | 'approved' | 'published' | 'scheduled' | 'cancelled' | 'failed';
+
+// What the user chose on the card; the approval stays 'approved' while it runs
+export type ApprovalDecision = 'publish' | 'schedule';
+
+export interface PendingApproval {
+  id: number;
+  chatId: number;
+  tool: string;
+  platform: string;
+  argsJson: string;
+  status: ApprovalStatus;
+  decision?: ApprovalDecision;
+  messageId?: number;
+  resultJson?: string;
+  workspaceId?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// WORKSPACES
+// ============================================================================
+
+export interface WorkspaceAccount {
+  platform: string;
+  accountId: string;
+}
+
+export interface Workspace {
+  id: number;
+  name: string;
+  timezone?: string;
+  defaultHashtags: string[];
+  recommendations?: Record<string, PlatformRecommendation>; // Overrides the built-in posting times
+  accounts: WorkspaceAccount[];
+}
+
+// ============================================================================
+// CLAUDE SESSIONS
+// ============================================================================
+
+// Cost and tokens of Claude replies, as reported by the assistant backend
+export interface ClaudeUsage {
+  costUsd: number;
+  inputTokens: number; // Including cached input
+  outputTokens: number;
+}
+
+// A Claude conversation of one Telegram chat in one workspace
+export interface ClaudeSession {
+  id: number;
+  chatId: number;
+  workspaceId?: number;
+  sessionId: string; // Backend conversation (Claude CLI session, passed to --resume)
+  label: string; // First message of the conversation, shortened
+  active: boolean; // The conversation new messages continue
+  usage: ClaudeUsage; // Totals of all replies
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+// ============================================================================
+// ASSISTANT BACKENDS
+// ============================================================================
+
+// One message of a chat for the assistant
+export interface AssistantRequest {
+  prompt: string;
+  sessionId?: string; // Conversation to continue
+  chatId?: number; // Publishing tools wait for approval in this chat
+  workspaceId?: number;
+}
+
+// Progress of a reply while it is written
+export interface AssistantEvents {
+  // All text written so far
+  text: (text: string) => void;
+  // Tool being run, or null once it returned
+  tool: (name: string | null) => void;
+}
+
+export type AssistantErrorKind =
+  | 'max_turns' // Stopped before finishing
+  | 'session_not_found' // The conversation to continue no longer exists
+  | 'auth'
+  | 'credits'
+  | 'rate_limit'
+  | 'failed';
+
+export interface AssistantError {
+  kind: AssistantErrorKind;
+  message: string; // Details for the logs (or a hint for auth errors)
+}
+
+export interface AssistantReply {
+  text: string;
+  sessionId?: string; // Conversation the next message continues
+  usage?: ClaudeUsage;
+  turns?: number;
+  skillResults: SkillResult[]; // Results of the tools called on the way
+  error?: AssistantError;
+}
+
+// What answers chat messages (see src/assistant/assistant.ts)
+export interface AssistantBackend {
+  name: string;
+  isConfigured: () => boolean;
+  reply: (request: AssistantRequest, events?: AssistantEvents) => Promise<AssistantReply>;
+}
+
 // ============================================================================
 // QUEUE OPERATIONS
 // ============================================================================
@@ -154,11 +477,96 @@ export interface QueueAddRequest {
   content: PostContent;
   scheduledAt: string;
   filePath?: string;
+  workspaceId?: number;
+  chatId?: number;
+}
+
+export type SeriesStatus = 'active' | 'paused' | 'ended';
+
+// A recurring post; each occurrence is queued as a ScheduledJob
+export interface RecurringSeries {
+  id: number;
+  platform: string;
+  action: string;
+  contentJson: string;
+  filePath?: string;
+  rule: string; // Cron expression or iCal RRULE
+  timezone: string;
+  startsAt: Date;
+  endsAt?: Date;
+  maxCount?: number;
+  occurrences: number; // Occurrences queued so far
+  status: SeriesStatus;
+  workspaceId?: number;
+  chatId?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SeriesAddRequest {
+  platform: string;
+  action: string;
+  content: PostContent;
+  rule: string;
+  timezone?: string;
+  startAt?: string; // ISO-8601, defaults to now
+  endAt?: string; // ISO-8601
+  maxCount?: number;
+  filePath?: string;
+  workspaceId?: number;
+  chatId?: number;
+}
+
+// ============================================================================
+// CAMPAIGNS (one post fanned out to several platforms)
+// ============================================================================
+
+// Per-platform changes on top of the shared campaign content
+export interface CampaignOverrides extends PostContent {
+  hashtags?: string[];
+  pageId?: string; // Facebook page
+  mediaType?: InstagramMediaType;
+}
+
+export interface CampaignTarget {
+  platform: string;
+  action?: string; // Defaults to the platform's main publish action
+  overrides?: CampaignOverrides;
+}
+
+export interface CampaignAddRequest {
+  name?: string;
+  content: CampaignOverrides;
+  targets: CampaignTarget[];
+  scheduledAt?: string; // ISO-8601, defaults to now
+  filePath?: string;
+  workspaceId?: number;
+  chatId?: number;
+}
+
+export interface Campaign {
+  id: number;
+  name?: string;
+  contentJson: string;
+  scheduledAt: Date;
+  workspaceId?: number;
+  chatId?: number;
+  createdAt: Date;
+}
+
+// pending while any platform is still queued
+export type CampaignStatus = 'pending' | 'completed' | 'partial' | 'failed';
+
+export interface CampaignSummary {
+  campaign: Campaign;
+  status: CampaignStatus;
+  jobs: ScheduledJob[];
 }
 
 export interface QueueListOptions {
-  status?: 'pending' | 'completed' | 'failed';
+  status?: JobStatus;
   platform?: string;
+  workspaceId?: number;
   limit?: number;
 }
 
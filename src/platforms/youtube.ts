@@ -4,19 +4,67 @@
 
 import { google, type youtube_v3 } from 'googleapis';
 import { createReadStream } from 'fs';
+import { open, stat, type FileHandle } from 'fs/promises';
+import { extname } from 'path';
 import { getValidToken, storeToken, createTokenData } from '../auth/token-manager.js';
-import type { YouTubeUploadOptions, TokenData, SkillResult } from './types.js';
+import {
+  getUploadSession,
+  saveUploadSession,
+  updateUploadSessionOffset,
+  deleteUploadSession,
+} from '../storage/db.js';
+import { getMimeType } from '../media/hosting.js';
+import type {
+  YouTubeUploadOptions,
+  YouTubeVideoSettings,
+  YouTubeVideoUpdate,
+  YouTubeCaptionTrack,
+  TokenData,
+  SkillResult,
+  UploadProgressCallback,
+  OAuthRequest,
+  OAuthState,
+  PlatformAdapter,
+  ContentRules,
+  MediaSpec,
+} from './types.js';
+
+// Thumbnails, playlists and captions
+const FORCE_SSL_SCOPE = 'https://www.googleapis.com/auth/youtube.force-ssl';
 
 const YOUTUBE_API_SCOPES = [
   'https://www.googleapis.com/auth/youtube.upload',
   'https://www.googleapis.com/auth/youtube.readonly',
+  FORCE_SSL_SCOPE,
 ];
 
+// Google's answer when a token lacks a scope (e.g. force-ssl on tokens granted before it was added)
+const MISSING_SCOPE_PATTERN = /insufficient (authentication )?scopes|insufficientPermissions|ACCESS_TOKEN_SCOPE_INSUFFICIENT/i;
+const MISSING_SCOPE_ERROR =
+  'YouTube access was granted before thumbnails, playlists and captions were supported. Run /auth youtube again';
+
+const CAPTION_EXTENSIONS = ['.srt', '.vtt'];
+const MAX_THUMBNAIL_SIZE = 2 * 1024 * 1024;
+
+const YOUTUBE_UPLOAD_URL = 'https://www.googleapis.com/upload/youtube/v3/videos';
+
+// Resumable chunks must be a multiple of 256 KB
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+const CHUNK_RETRY_DELAY_MS = 2000;
+
+// Where a resumable upload stands after a request
+interface UploadStep {
+  bytesUploaded?: number; // Bytes YouTube has confirmed
+  video?: youtube_v3.Schema$Video; // Set once the upload is complete
+  expired?: boolean; // The session is gone, start a new one
+}
+
 /**
- * Get authenticated YouTube client
+ * Get authenticated YouTube client for a channel (default: first connected)
  */
-async function getYouTubeClient(): Promise<youtube_v3.Youtube | null> {
-  const token = await getValidToken('youtube', refreshYouTubeToken);
+async function getYouTubeClient(accountId?: string): Promise<youtube_v3.Youtube | null> {
+  const token = await getValidToken('youtube', refreshYouTubeToken, accountId);
   if (!token) return null;
 
   const oauth2Client = new google.auth.OAuth2(
@@ -70,12 +118,224 @@ async function refreshYouTubeToken(token: TokenData): Promise<TokenData | null>
   }
 }
 
+/**
+ * Build the Google consent URL
+ */
+function getYouTubeAuthUrl(request: OAuthRequest): string {
+  const clientId = process.env.YOUTUBE_CLIENT_ID;
+  const redirectUri = process.env.YOUTUBE_REDIRECT_URI;
+
+  if (!clientId || !redirectUri) {
+    throw new Error('YouTube OAuth credentials not configured');
+  }
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: YOUTUBE_API_SCOPES.join(' '),
+    access_type: 'offline',
+    state: request.state,
+    code_challenge: request.codeChallenge,
+    code_challenge_method: 'S256',
+    // Show the account chooser so another channel can be connected
+    prompt: request.addAccount ? 'select_account consent' : 'consent',
+  });
+
+  return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code for a token of the connected channel
+ */
+async function exchangeYouTubeCode(code: string, state: OAuthState): Promise<TokenData> {
+  const clientId = process.env.YOUTUBE_CLIENT_ID;
+  const clientSecret = process.env.YOUTUBE_CLIENT_SECRET;
+  const redirectUri = process.env.YOUTUBE_REDIRECT_URI;
+
+  if (!clientId || !clientSecret || !redirectUri) {
+    throw new Error('YouTube OAuth credentials not configured');
+  }
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      code,
+      redirect_uri: redirectUri,
+      grant_type: 'authorization_code',
+      ...(state.codeVerifier && { code_verifier: state.codeVerifier }),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Token exchange failed: ${error}`);
+  }
+
+  const data = await response.json();
+
+  // Identify the channel so several channels can be connected
+  const channelResponse = await fetch(
+    'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
+    { headers: { Authorization: `Bearer ${data.access_token}` } }
+  );
+  const channel = channelResponse.ok ? (await channelResponse.json()).items?.[0] : undefined;
+
+  return createTokenData(
+    'youtube',
+    data.access_token,
+    data.refresh_token,
+    data.expires_in,
+    channel && { accountId: channel.id, displayName: channel.snippet?.title }
+  );
+}
+
+/**
+ * Build the snippet and status of a video from its settings
+ * Scheduled videos must stay private until publishAt.
+ */
+function buildVideoResource(
+  settings: YouTubeVideoSettings,
+  current?: youtube_v3.Schema$Video
+): youtube_v3.Schema$Video {
+  let publishAt: string | undefined;
+  if (settings.publishAt) {
+    const date = new Date(settings.publishAt);
+    if (isNaN(date.getTime())) throw new Error(`Invalid publishAt: ${settings.publishAt}`);
+    if (date.getTime() <= Date.now()) throw new Error('publishAt must be in the future');
+    publishAt = date.toISOString();
+  }
+
+  const snippet = current?.snippet || {};
+  const status = current?.status || {};
+
+  return {
+    snippet: {
+      title: settings.title ?? snippet.title,
+      description: settings.description ?? snippet.description ?? '',
+      tags: settings.tags ?? snippet.tags ?? [],
+      categoryId: settings.categoryId || snippet.categoryId || '22', // People & Blogs
+      defaultLanguage: settings.language ?? snippet.defaultLanguage,
+      defaultAudioLanguage: settings.language ?? snippet.defaultAudioLanguage,
+    },
+    status: {
+      privacyStatus: publishAt ? 'private' : settings.privacy || status.privacyStatus || 'private',
+      publishAt: publishAt ?? (settings.privacy ? undefined : status.publishAt),
+      license: settings.license ?? status.license,
+      selfDeclaredMadeForKids: settings.madeForKids ?? status.selfDeclaredMadeForKids ?? false,
+    },
+  };
+}
+
+// ============================================================================
+// RESUMABLE UPLOADS
+// ============================================================================
+
+/**
+ * Start a resumable upload session and return its URI
+ * The video metadata is sent here, the file follows in chunks.
+ */
+async function startUploadSession(
+  options: YouTubeUploadOptions,
+  fileSize: number,
+  accessToken: string
+): Promise<string> {
+  const response = await fetch(`${YOUTUBE_UPLOAD_URL}?uploadType=resumable&part=snippet,status`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json; charset=UTF-8',
+      'X-Upload-Content-Length': String(fileSize),
+      'X-Upload-Content-Type': 'video/*',
+    },
+    body: JSON.stringify(buildVideoResource(options)),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Could not start the upload (HTTP ${response.status}): ${await response.text()}`);
+  }
+
+  const sessionUri = response.headers.get('location');
+  if (!sessionUri) {
+    throw new Error('Upload session started but no session URI returned');
+  }
+  return sessionUri;
+}
+
+/**
+ * Read the outcome of a chunk PUT
+ * 308 means YouTube wants more bytes, its Range header tells how many it has.
+ */
+async function readUploadResponse(response: Response): Promise<UploadStep> {
+  if (response.status === 308) {
+    const range = response.headers.get('range')?.match(/bytes=0-(\d+)/);
+    return { bytesUploaded: range ? parseInt(range[1], 10) + 1 : 0 };
+  }
+  if (response.ok) {
+    return { video: (await response.json()) as youtube_v3.Schema$Video };
+  }
+  if (response.status === 404 || response.status === 410) {
+    return { expired: true };
+  }
+  throw new Error(`YouTube upload failed (HTTP ${response.status}): ${await response.text()}`);
+}
+
+/**
+ * Ask YouTube how much of an interrupted upload it received
+ */
+async function queryUploadOffset(sessionUri: string, fileSize: number, accessToken: string): Promise<UploadStep> {
+  const response = await fetch(sessionUri, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Range': `bytes */${fileSize}`,
+    },
+  });
+  return readUploadResponse(response);
+}
+
+/**
+ * Send one chunk starting at a byte offset
+ */
+async function uploadChunk(
+  sessionUri: string,
+  file: FileHandle,
+  offset: number,
+  fileSize: number,
+  accessToken: string
+): Promise<UploadStep> {
+  const length = Math.min(UPLOAD_CHUNK_SIZE, fileSize - offset);
+  const buffer = Buffer.alloc(length);
+  await file.read(buffer, 0, length, offset);
+
+  const response = await fetch(sessionUri, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Length': String(length),
+      'Content-Range': `bytes ${offset}-${offset + length - 1}/${fileSize}`,
+    },
+    body: buffer,
+  });
+  return readUploadResponse(response);
+}
+
 /**
  * Upload a video to YouTube
+ *
+ * Uses a resumable upload session stored in SQLite: if the connection drops
+ * or the process restarts, the next attempt for the same file continues from
+ * the last byte YouTube confirmed instead of starting over.
  */
-export async function uploadVideo(options: YouTubeUploadOptions): Promise<SkillResult> {
-  const youtube = await getYouTubeClient();
-  if (!youtube) {
+export async function uploadVideo(
+  options: YouTubeUploadOptions,
+  onProgress?: UploadProgressCallback
+): Promise<SkillResult> {
+  const token = await getValidToken('youtube', refreshYouTubeToken, options.accountId);
+  if (!token) {
     return {
       success: false,
       platform: 'youtube',
@@ -85,40 +345,97 @@ export async function uploadVideo(options: YouTubeUploadOptions): Promise<SkillR
     };
   }
 
+  // Ask for the missing permission before uploading, not once the video is up
+  const wantsExtras = !!options.thumbnailPath || !!options.playlistIds?.length || !!options.captions?.length;
+  if (wantsExtras && !(await canEditVideos(token.accessToken))) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'upload',
+      needsAuth: true,
+      error: MISSING_SCOPE_ERROR,
+    };
+  }
+
+  let file: FileHandle | undefined;
   try {
-    const videoStream = createReadStream(options.filePath);
+    const fileSize = (await stat(options.filePath)).size;
+    file = await open(options.filePath, 'r');
 
-    const response = await youtube.videos.insert({
-      part: ['snippet', 'status'],
-      requestBody: {
-        snippet: {
-          title: options.title,
-          description: options.description || '',
-          tags: options.tags || [],
-          categoryId: options.categoryId || '22', // People & Blogs
-        },
-        status: {
-          privacyStatus: options.privacy || 'private',
-          selfDeclaredMadeForKids: false,
-        },
-      },
-      media: {
-        body: videoStream,
-      },
-    });
+    // Resume the previous session for this file if YouTube still has it
+    let session = getUploadSession('youtube', options.filePath);
+    if (session && (session.fileSize !== fileSize || session.accountId !== token.accountId)) {
+      deleteUploadSession('youtube', options.filePath);
+      session = null;
+    }
+
+    let sessionUri = session?.sessionUri;
+    let step: UploadStep = { bytesUploaded: 0 };
+    if (sessionUri) {
+      step = await queryUploadOffset(sessionUri, fileSize, token.accessToken);
+      if (step.expired) sessionUri = undefined;
+      else console.log(`YouTube upload of ${options.filePath} resumes at byte ${step.bytesUploaded ?? fileSize}`);
+    }
+    if (!sessionUri) {
+      sessionUri = await startUploadSession(options, fileSize, token.accessToken);
+      saveUploadSession({
+        platform: 'youtube',
+        accountId: token.accountId,
+        filePath: options.filePath,
+        fileSize,
+        sessionUri,
+      });
+      step = { bytesUploaded: 0 };
+    }
 
-    const videoId = response.data.id;
+    let failures = 0;
+    while (!step.video) {
+      const offset = step.bytesUploaded ?? 0;
+      updateUploadSessionOffset('youtube', options.filePath, offset);
+      onProgress?.({ bytesSent: offset, totalBytes: fileSize });
+
+      // Long uploads can outlive the access token
+      const accessToken =
+        (await getValidToken('youtube', refreshYouTubeToken, token.accountId))?.accessToken || token.accessToken;
+
+      try {
+        step = await uploadChunk(sessionUri, file, offset, fileSize, accessToken);
+        failures = 0;
+      } catch (error) {
+        if (++failures > MAX_CHUNK_RETRIES) throw error;
+        console.error(`YouTube chunk at byte ${offset} failed (attempt ${failures}), resuming:`, error);
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_RETRY_DELAY_MS * failures));
+        step = await queryUploadOffset(sessionUri, fileSize, accessToken);
+      }
+
+      if (step.expired) {
+        deleteUploadSession('youtube', options.filePath);
+        throw new Error('YouTube upload session expired, the next attempt starts over');
+      }
+    }
+
+    deleteUploadSession('youtube', options.filePath);
+    onProgress?.({ bytesSent: fileSize, totalBytes: fileSize });
+
+    const videoId = step.video.id;
     if (!videoId) {
       throw new Error('Upload succeeded but no video ID returned');
     }
 
+    // The video exists now, so later steps only add warnings instead of failing it
+    const warnings = await applyUploadExtras(videoId, { ...options, accountId: token.accountId });
+
+    let message = `Video uploaded successfully: ${options.title}`;
+    if (options.publishAt) message += `\nGoes public ${new Date(options.publishAt).toLocaleString()}`;
+    if (warnings.length > 0) message += `\n⚠️ ${warnings.join('\n⚠️ ')}`;
+
     return {
       success: true,
       platform: 'youtube',
       action: 'upload',
       videoId,
       url: `https://youtube.com/watch?v=${videoId}`,
-      message: `Video uploaded successfully: ${options.title}`,
+      message,
     };
   } catch (error) {
     console.error('YouTube upload error:', error);
@@ -128,14 +445,293 @@ export async function uploadVideo(options: YouTubeUploadOptions): Promise<SkillR
       action: 'upload',
       error: error instanceof Error ? error.message : 'Unknown upload error',
     };
+  } finally {
+    await file?.close();
+  }
+}
+
+/**
+ * Check that a token may set thumbnails, playlists and captions
+ * When Google cannot tell, the calls themselves report a missing scope.
+ */
+async function canEditVideos(accessToken: string): Promise<boolean> {
+  try {
+    const info = await new google.auth.OAuth2().getTokenInfo(accessToken);
+    return info.scopes.includes(FORCE_SSL_SCOPE);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Failed result of a thumbnail, playlist or caption call
+ * A token without the force-ssl scope asks the user to authorize again.
+ */
+function extraFailure(action: string, error: unknown): SkillResult {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (MISSING_SCOPE_PATTERN.test(message)) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action,
+      needsAuth: true,
+      error: MISSING_SCOPE_ERROR,
+    };
+  }
+  return { success: false, platform: 'youtube', action, error: message };
+}
+
+/**
+ * Set the thumbnail, playlists and captions of a freshly uploaded video
+ * Returns one warning per step that failed; a missing permission is reported
+ * once, with the /auth youtube it needs.
+ */
+async function applyUploadExtras(videoId: string, options: YouTubeUploadOptions): Promise<string[]> {
+  const results: SkillResult[] = [];
+
+  if (options.thumbnailPath) {
+    results.push(await setThumbnail(videoId, options.thumbnailPath, options.accountId));
+  }
+  for (const playlistId of options.playlistIds || []) {
+    results.push(await addToPlaylist(videoId, playlistId, options.accountId));
+  }
+  for (const track of options.captions || []) {
+    results.push(await uploadCaption(videoId, track, options.accountId));
+  }
+
+  const failed = results.filter((result) => !result.success);
+  const missingScope = failed.find((result) => result.needsAuth);
+  return [
+    ...failed.filter((result) => !result.needsAuth).map((result) => `${result.action}: ${result.error}`),
+    ...(missingScope ? [missingScope.error!] : []),
+  ];
+}
+
+/**
+ * Update the settings of an existing video
+ * Only the given settings change; the rest is kept from the current video.
+ */
+export async function updateVideo(options: YouTubeVideoUpdate): Promise<SkillResult> {
+  const youtube = await getYouTubeClient(options.accountId);
+  if (!youtube) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'update',
+      needsAuth: true,
+      error: 'YouTube authentication required. Run /auth youtube',
+    };
+  }
+
+  try {
+    const current = await youtube.videos.list({ part: ['snippet', 'status'], id: [options.videoId] });
+    const video = current.data.items?.[0];
+    if (!video) {
+      return {
+        success: false,
+        platform: 'youtube',
+        action: 'update',
+        error: `Video ${options.videoId} not found on this channel`,
+      };
+    }
+
+    await youtube.videos.update({
+      part: ['snippet', 'status'],
+      requestBody: { id: options.videoId, ...buildVideoResource(options, video) },
+    });
+
+    return {
+      success: true,
+      platform: 'youtube',
+      action: 'update',
+      videoId: options.videoId,
+      url: `https://youtube.com/watch?v=${options.videoId}`,
+      message: options.publishAt
+        ? `Video updated, goes public ${new Date(options.publishAt).toLocaleString()}`
+        : 'Video updated',
+    };
+  } catch (error) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'update',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Upload a custom thumbnail (JPEG or PNG, max 2 MB)
+ * The channel must be verified to use custom thumbnails.
+ */
+export async function setThumbnail(videoId: string, thumbnailPath: string, accountId?: string): Promise<SkillResult> {
+  const youtube = await getYouTubeClient(accountId);
+  if (!youtube) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'set-thumbnail',
+      needsAuth: true,
+      error: 'YouTube authentication required. Run /auth youtube',
+    };
+  }
+
+  try {
+    const mimeType = getMimeType(thumbnailPath);
+    if (mimeType !== 'image/jpeg' && mimeType !== 'image/png') {
+      throw new Error('Thumbnails must be JPEG or PNG images');
+    }
+    if ((await stat(thumbnailPath)).size > MAX_THUMBNAIL_SIZE) {
+      throw new Error('Thumbnails must be 2 MB or smaller');
+    }
+
+    await youtube.thumbnails.set({
+      videoId,
+      media: { mimeType, body: createReadStream(thumbnailPath) },
+    });
+
+    return {
+      success: true,
+      platform: 'youtube',
+      action: 'set-thumbnail',
+      videoId,
+      message: 'Thumbnail set',
+    };
+  } catch (error) {
+    return extraFailure('set-thumbnail', error);
+  }
+}
+
+/**
+ * Add a video to one of the channel's playlists
+ */
+export async function addToPlaylist(videoId: string, playlistId: string, accountId?: string): Promise<SkillResult> {
+  const youtube = await getYouTubeClient(accountId);
+  if (!youtube) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'add-to-playlist',
+      needsAuth: true,
+      error: 'YouTube authentication required. Run /auth youtube',
+    };
+  }
+
+  try {
+    await youtube.playlistItems.insert({
+      part: ['snippet'],
+      requestBody: {
+        snippet: {
+          playlistId,
+          resourceId: { kind: 'youtube#video', videoId },
+        },
+      },
+    });
+
+    return {
+      success: true,
+      platform: 'youtube',
+      action: 'add-to-playlist',
+      videoId,
+      url: `https://youtube.com/playlist?list=${playlistId}`,
+      message: `Added to playlist ${playlistId}`,
+    };
+  } catch (error) {
+    return extraFailure('add-to-playlist', error);
+  }
+}
+
+/**
+ * List the channel's playlists
+ */
+export async function listPlaylists(accountId?: string): Promise<SkillResult> {
+  const youtube = await getYouTubeClient(accountId);
+  if (!youtube) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'list-playlists',
+      needsAuth: true,
+      error: 'YouTube authentication required. Run /auth youtube',
+    };
+  }
+
+  try {
+    const response = await youtube.playlists.list({ part: ['snippet'], mine: true, maxResults: 50 });
+    const playlists = response.data.items || [];
+
+    return {
+      success: true,
+      platform: 'youtube',
+      action: 'list-playlists',
+      message: playlists.length
+        ? playlists.map((playlist) => `${playlist.snippet?.title} (${playlist.id})`).join('\n')
+        : 'No playlists found',
+    };
+  } catch (error) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'list-playlists',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Upload an SRT or VTT caption track
+ */
+export async function uploadCaption(
+  videoId: string,
+  track: YouTubeCaptionTrack,
+  accountId?: string
+): Promise<SkillResult> {
+  const youtube = await getYouTubeClient(accountId);
+  if (!youtube) {
+    return {
+      success: false,
+      platform: 'youtube',
+      action: 'upload-caption',
+      needsAuth: true,
+      error: 'YouTube authentication required. Run /auth youtube',
+    };
+  }
+
+  try {
+    if (!CAPTION_EXTENSIONS.includes(extname(track.filePath).toLowerCase())) {
+      throw new Error('Captions must be .srt or .vtt files');
+    }
+
+    const response = await youtube.captions.insert({
+      part: ['snippet'],
+      requestBody: {
+        snippet: {
+          videoId,
+          language: track.language,
+          name: track.name || '',
+          isDraft: false,
+        },
+      },
+      media: { mimeType: getMimeType(track.filePath), body: createReadStream(track.filePath) },
+    });
+
+    return {
+      success: true,
+      platform: 'youtube',
+      action: 'upload-caption',
+      videoId,
+      message: `Captions (${track.language}) uploaded: ${response.data.id}`,
+    };
+  } catch (error) {
+    return extraFailure('upload-caption', error);
   }
 }
 
 /**
  * Get channel info (for testing auth)
  */
-export async function getChannelInfo(): Promise<SkillResult> {
-  const youtube = await getYouTubeClient();
+export async function getChannelInfo(accountId?: string): Promise<SkillResult> {
+  const youtube = await getYouTubeClient(accountId);
   if (!youtube) {
     return {
       success: false,
@@ -181,7 +777,76 @@ export async function getChannelInfo(): Promise<SkillResult> {
 /**
  * Check if YouTube is authenticated
  */
-export async function isAuthenticated(): Promise<boolean> {
-  const youtube = await getYouTubeClient();
+export async function isAuthenticated(accountId?: string): Promise<boolean> {
+  const youtube = await getYouTubeClient(accountId);
   return youtube !== null;
 }
+
+/**
+ * Content rules of the YouTube actions
+ */
+function getContentRules(action: string): ContentRules | null {
+  switch (action) {
+    case 'upload':
+      return {
+        titleField: 'title',
+        textFields: ['title', 'description'],
+        required: [['filePath'], ['title']],
+        fileTypes: ['video'],
+      };
+    case 'update':
+      return { titleField: 'title', textFields: ['title', 'description'] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Media spec of the YouTube actions: uploads are re-encoded to H.264/AAC
+ * unless they already are
+ */
+function getMediaSpec(action: string): MediaSpec | null {
+  return action === 'upload' ? {} : null;
+}
+
+/**
+ * YouTube adapter for the platform registry
+ */
+export const youtubeAdapter: PlatformAdapter = {
+  name: 'youtube',
+  displayName: 'YouTube',
+  skill: 'youtube-skill.ts',
+  publishActions: ['upload'],
+  resumableUploads: true,
+  tools: [
+    'youtube_upload',
+    'youtube_update',
+    'youtube_set_thumbnail',
+    'youtube_add_to_playlist',
+    'youtube_list_playlists',
+    'youtube_upload_caption',
+    'youtube_channel_info',
+  ],
+  promptNotes: [
+    'For YouTube, a photo sent together with the video is its thumbnail (thumbnailPath); .srt/.vtt files are captions',
+    'To publish a YouTube video at a set time without the scheduler, pass publishAt (the video stays private until then)',
+  ],
+  capabilities: {
+    mediaTypes: ['video'],
+    requiresMedia: true,
+    privacyOptions: ['public', 'unlisted', 'private'],
+    nativeScheduling: true,
+  },
+  limits: {
+    titleLength: 100,
+    captionLength: 5000,
+    hashtags: 15,
+    fileSize: 256 * 1024 ** 3,
+    videoDuration: 12 * 60 * 60,
+  },
+  contentRules: getContentRules,
+  mediaSpec: getMediaSpec,
+  getAuthUrl: getYouTubeAuthUrl,
+  exchangeCode: exchangeYouTubeCode,
+  refreshToken: refreshYouTubeToken,
+};
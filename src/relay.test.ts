@@ -0,0 +1,196 @@
+/**
+ * Telegram updates go through the relay's handlers, the stub assistant, the
+ * tool calls and the skills, with the Bot API answered in-process
+ *
+ * Run with: bun test
+ */
+
+import { beforeAll, expect, test } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Bot } from 'grammy';
+import type { Update, UserFromGetMe } from 'grammy/types';
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const CHAT_ID = 5678;
+const USER = { id: CHAT_ID, is_bot: false, first_name: 'Test' };
+const CHAT = { id: CHAT_ID, type: 'private' as const, first_name: 'Test' };
+
+// What getMe would return, so handleUpdate runs without bot.init()
+const BOT_INFO: UserFromGetMe = {
+  id: 1,
+  is_bot: true,
+  first_name: 'Relay',
+  username: 'relay_bot',
+  can_join_groups: false,
+  can_read_all_group_messages: false,
+  supports_inline_queries: false,
+  can_connect_to_business: false,
+  has_main_web_app: false,
+  has_topics_enabled: false,
+  allows_users_to_create_topics: false,
+  can_manage_bots: false,
+  supports_join_request_queries: false,
+};
+
+interface ApiCall {
+  method: string;
+  payload: Record<string, any>;
+}
+
+let bot: Bot;
+let calls: ApiCall[] = [];
+let source: string;
+let nextUpdateId = 1;
+let nextMessageId = 100;
+
+beforeAll(async () => {
+  // The photo Telegram hands out, as a local Bot API server would: an absolute path
+  source = join(process.env.RELAY_DIR!, 'telegram-photo.png');
+  writeFileSync(source, PNG);
+
+  process.env.TELEGRAM_BOT_TOKEN = '123:test';
+  process.env.ASSISTANT_BACKEND = 'stub';
+  process.env.ASSISTANT_FIXTURES = join(import.meta.dir, '../examples/assistant-fixtures.json');
+
+  ({ bot } = await import('./relay.js'));
+  bot.botInfo = BOT_INFO;
+
+  // Answer every Bot API call without the network and record it
+  bot.api.config.use(async (_prev, method, payload) => {
+    calls.push({ method, payload: payload as Record<string, any> });
+    const result =
+      method === 'getFile'
+        ? { file_id: 'photo', file_unique_id: 'photo', file_path: source }
+        : method === 'sendMessage'
+          ? { message_id: nextMessageId++, date: 0, chat: CHAT, text: (payload as { text: string }).text }
+          : true;
+    return { ok: true, result } as any;
+  });
+});
+
+async function send(update: Omit<Update, 'update_id'>): Promise<ApiCall[]> {
+  calls = [];
+  await bot.handleUpdate({ update_id: nextUpdateId++, ...update } as Update);
+  return calls;
+}
+
+const texts = (sent: ApiCall[]) =>
+  sent.filter((c) => c.method === 'sendMessage' || c.method === 'editMessageText').map((c) => c.payload.text);
+
+test('a text message streams the stub reply into one message', async () => {
+  const sent = await send({
+    message: { message_id: 1, date: 0, chat: CHAT, from: USER, text: "What's in the queue?" },
+  });
+
+  // A placeholder shows up at once and the final reply replaces it
+  expect(sent[0]).toMatchObject({ method: 'sendChatAction', payload: { chat_id: CHAT_ID, action: 'typing' } });
+  expect(sent[1]).toMatchObject({ method: 'sendMessage', payload: { text: '💭 Thinking...' } });
+  expect(sent.at(-1)).toMatchObject({
+    method: 'editMessageText',
+    payload: { text: 'Here is the queue. /queue pending lists the posts waiting to go out.' },
+  });
+});
+
+test('a photo sent for Instagram gets an approval card, and Schedule queues it', async () => {
+  const { getApproval } = await import('./approvals/approvals.js');
+  const { getJob } = await import('./scheduler/queue.js');
+
+  const sent = await send({
+    message: {
+      message_id: 2,
+      date: 0,
+      chat: CHAT,
+      from: USER,
+      photo: [{ file_id: 'photo', file_unique_id: 'photo', width: 1, height: 1 }],
+      caption: 'Post to Instagram: Sunset over the bay',
+    },
+  });
+
+  // The tool ran the Instagram skill, which held the post for approval
+  expect(texts(sent)).toContain('Your Instagram post is ready for review.');
+  const card = sent.at(-1)!;
+  expect(card.method).toBe('sendMessage');
+  const buttons = card.payload.reply_markup.inline_keyboard.flat().map((b: { callback_data: string }) => b.callback_data);
+  const id = parseInt(buttons[0].split(':')[2], 10);
+  expect(buttons).toEqual([`approval:publish:${id}`, `approval:edit:${id}`, `approval:schedule:${id}`, `approval:cancel:${id}`]);
+
+  const approval = getApproval(id)!;
+  expect(approval).toMatchObject({ status: 'pending', chatId: CHAT_ID, tool: 'instagram_post', platform: 'instagram' });
+  const args = JSON.parse(approval.argsJson);
+  expect(args).toMatchObject({ mediaType: 'image', caption: 'Sunset over the bay' });
+  expect(args.filePath.startsWith(join(process.env.RELAY_DIR!, 'uploads'))).toBe(true);
+
+  // Pressing Schedule queues the job the scheduler will publish
+  const pressed = await send({
+    callback_query: {
+      id: 'press',
+      chat_instance: 'chat',
+      from: USER,
+      data: `approval:schedule:${id}`,
+      message: { message_id: nextMessageId - 1, date: 0, chat: CHAT, text: card.payload.text },
+    },
+  });
+
+  expect(pressed[0]).toMatchObject({ method: 'answerCallbackQuery', payload: { text: 'Scheduled' } });
+  const scheduled = getApproval(id)!;
+  expect(scheduled.status).toBe('scheduled');
+  const jobId = JSON.parse(scheduled.resultJson!).jobId;
+  expect(getJob(jobId)).toMatchObject({ platform: 'instagram', action: 'post', status: 'pending', filePath: args.filePath });
+  expect(texts(pressed).at(-1)).toContain(`📋 Job ID: ${jobId}`);
+});
+
+test('an edit replaces the card, and a schedule that fails offers to publish again', async () => {
+  const { getApproval } = await import('./approvals/approvals.js');
+
+  const sent = await send({
+    message: {
+      message_id: 3,
+      date: 0,
+      chat: CHAT,
+      from: USER,
+      photo: [{ file_id: 'photo', file_unique_id: 'photo', width: 1, height: 1 }],
+      caption: 'Post to Instagram: Low tide',
+    },
+  });
+  const card = nextMessageId - 1;
+  const id = parseInt(sent.at(-1)!.payload.reply_markup.inline_keyboard[0][0].callback_data.split(':')[2], 10);
+
+  const press = (data: string, messageId: number) =>
+    send({
+      callback_query: {
+        id: data,
+        chat_instance: 'chat',
+        from: USER,
+        data,
+        message: { message_id: messageId, date: 0, chat: CHAT, text: 'card' },
+      },
+    });
+
+  await press(`approval:edit:${id}`, card);
+  const edited = await send({
+    message: { message_id: 4, date: 0, chat: CHAT, from: USER, text: 'scheduledAt: someday' },
+  });
+
+  // The old card loses its buttons, the new one has them
+  expect(edited[0]).toMatchObject({ method: 'editMessageReplyMarkup', payload: { chat_id: CHAT_ID, message_id: card } });
+  expect(edited[0].payload.reply_markup).toBeUndefined();
+  expect(edited[1].method).toBe('sendMessage');
+  expect(edited[1].payload.reply_markup.inline_keyboard.flat()).toHaveLength(4);
+  const newCard = nextMessageId - 1;
+
+  // "someday" is no date: the job cannot be queued
+  const pressed = await press(`approval:schedule:${id}`, newCard);
+  expect(pressed[0]).toMatchObject({ method: 'answerCallbackQuery', payload: { text: 'Could not schedule' } });
+  expect(getApproval(id)!.status).toBe('failed');
+  const update = pressed.find((c) => c.method === 'editMessageText')!;
+  expect(update.payload.text).toEndWith('❌ Could not schedule');
+  expect(update.payload.reply_markup.inline_keyboard.flat().map((b: { callback_data: string }) => b.callback_data)).toEqual([
+    `approval:reopen:${id}`,
+  ]);
+});
@@ -11,13 +11,52 @@
  * Run: bun run src/relay.ts
  */
 
-import { Bot, Context } from "grammy";
-import { spawn } from "bun";
-import { writeFile, mkdir, readFile, unlink } from "fs/promises";
-import { join } from "path";
+import { Bot, Context, GrammyError, InlineKeyboard } from "grammy";
+import { writeFile, mkdir, readFile, unlink, copyFile } from "fs/promises";
+import { createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
+import { join, isAbsolute } from "path";
 import { generateAuthUrl, startOAuthServer } from "./auth/oauth-server.js";
+import { listAccounts, removeToken } from "./auth/token-manager.js";
 import { formatRecommendations } from "./editorial/recommendations.js";
-import type { SkillResult } from "./platforms/types.js";
+import { getPlatform, getPlatformNames, listPlatforms, listAuthPlatforms } from "./platforms/registry.js";
+import { dispatchSkill } from "./skills/dispatcher.js";
+import { getTranscriptionProvider, transcribeAudio } from "./transcription/transcription.js";
+import { deleteMedia } from "./media/transcode.js";
+import { UPLOADS_DIR } from "./media/uploads.js";
+import { askAssistant, getAssistantBackend } from "./assistant/assistant.js";
+import { getCurrentSession, recordReply, startNewSession, listSessions, resumeSession } from "./sessions/sessions.js";
+import {
+  getApproval,
+  listApprovals,
+  formatPreview,
+  editApproval,
+  publishApproval,
+  scheduleApproval,
+  cancelApproval,
+  getApprovalFiles,
+  setApprovalCard,
+  failInterruptedApprovals,
+  reopenApproval,
+} from "./approvals/approvals.js";
+import {
+  createWorkspace,
+  getWorkspace,
+  listWorkspaces,
+  updateWorkspace,
+  linkAccount,
+  unlinkAccount,
+  setActiveWorkspace,
+  getActiveWorkspace,
+} from "./workspaces/workspaces.js";
+import { retry } from "./scheduler/queue.js";
+import type {
+  AssistantError,
+  AssistantEvents,
+  SkillResult,
+  PendingApproval,
+  Workspace,
+} from "./platforms/types.js";
 
 // ============================================================
 // CONFIGURATION
@@ -25,39 +64,17 @@ import type { SkillResult } from "./platforms/types.js";
 
 const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || "";
 const ALLOWED_USER_ID = process.env.TELEGRAM_USER_ID || "";
-const CLAUDE_PATH = process.env.CLAUDE_PATH || "claude";
+
+// Bot API server; a local telegram-bot-api (--local) lifts the 20 MB download limit
+const TELEGRAM_API_ROOT = (process.env.TELEGRAM_API_ROOT || "https://api.telegram.org").replace(/\/+$/, "");
+const IS_LOCAL_API = TELEGRAM_API_ROOT !== "https://api.telegram.org";
+
+// Largest file bots can download from the cloud Bot API
+const CLOUD_DOWNLOAD_LIMIT = 20 * 1024 * 1024;
 const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".claude-relay");
 
 // Directories
 const TEMP_DIR = join(RELAY_DIR, "temp");
-const UPLOADS_DIR = join(RELAY_DIR, "uploads");
-
-// Session tracking for conversation continuity
-const SESSION_FILE = join(RELAY_DIR, "session.json");
-
-interface SessionState {
-  sessionId: string | null;
-  lastActivity: string;
-}
-
-// ============================================================
-// SESSION MANAGEMENT
-// ============================================================
-
-async function loadSession(): Promise<SessionState> {
-  try {
-    const content = await readFile(SESSION_FILE, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return { sessionId: null, lastActivity: new Date().toISOString() };
-  }
-}
-
-async function saveSession(state: SessionState): Promise<void> {
-  await writeFile(SESSION_FILE, JSON.stringify(state, null, 2));
-}
-
-let session = await loadSession();
 
 // ============================================================
 // LOCK FILE (prevent multiple instances)
@@ -124,16 +141,19 @@ if (!BOT_TOKEN) {
 await mkdir(TEMP_DIR, { recursive: true });
 await mkdir(UPLOADS_DIR, { recursive: true });
 
-// Acquire lock
-if (!(await acquireLock())) {
-  console.error("Could not acquire lock. Another instance may be running.");
-  process.exit(1);
-}
+// Run if called directly; tests import the bot and feed it updates
+if (import.meta.main) {
+  // Acquire lock
+  if (!(await acquireLock())) {
+    console.error("Could not acquire lock. Another instance may be running.");
+    process.exit(1);
+  }
 
-// Start OAuth server for authentication callbacks
-await startOAuthServer();
+  // Start OAuth server for authentication callbacks
+  await startOAuthServer();
+}
 
-const bot = new Bot(BOT_TOKEN);
+const bot = new Bot(BOT_TOKEN, { client: { apiRoot: TELEGRAM_API_ROOT } });
 
 // ============================================================
 // SECURITY: Only respond to authorized user
@@ -153,112 +173,473 @@ bot.use(async (ctx, next) => {
 });
 
 // ============================================================
-// CORE: Call Claude CLI
+// CORE: Ask the assistant (Claude CLI, Messages API or stub, see assistant/assistant.ts)
 // ============================================================
 
+interface ClaudeResponse {
+  text: string;
+  skillResults: SkillResult[];
+}
+
+/**
+ * Explain a failed reply in a way the user can act on
+ */
+function describeAssistantError(error: AssistantError, turns?: number): string {
+  switch (error.kind) {
+    case "max_turns":
+      return (
+        `⚠️ Claude stopped after ${turns ?? "too many"} steps without finishing. ` +
+        `Reply "continue" to let it go on, or /new to start over.`
+      );
+    case "credits":
+      return "⚠️ The Claude account is out of credits.";
+    case "rate_limit":
+      return "⚠️ Claude is at its usage limit right now. Try again in a few minutes.";
+    case "auth":
+      return `⚠️ Claude is not authorized on the server: ${error.message}.`;
+    case "session_not_found":
+    case "failed":
+      return `⚠️ Claude failed (${error.message.slice(0, 500)}). Try again, or /new if it keeps happening.`;
+  }
+}
+
 async function callClaude(
   prompt: string,
-  options?: { resume?: boolean; imagePath?: string }
-): Promise<string> {
-  const args = [CLAUDE_PATH, "-p", prompt];
+  options?: {
+    resume?: boolean;
+    imagePath?: string;
+    chatId?: number;
+    workspaceId?: number;
+    label?: string; // Names the session this message starts
+    stream?: ReplyStream; // Shows the reply while Claude writes it
+  }
+): Promise<ClaudeResponse> {
+  // Continue the chat's conversation in its current workspace (see sessions/sessions.ts)
+  const session =
+    options?.resume && options.chatId !== undefined
+      ? getCurrentSession(options.chatId, options.workspaceId)
+      : null;
+
+  console.log(`Calling Claude: ${prompt.substring(0, 50)}...`);
 
-  // Resume previous session if available and requested
-  if (options?.resume && session.sessionId) {
-    args.push("--resume", session.sessionId);
+  const reply = await askAssistant(
+    { prompt, sessionId: session?.sessionId, chatId: options?.chatId, workspaceId: options?.workspaceId },
+    options?.stream
+  );
+
+  // The backend no longer has the session (e.g. its history was cleared): start over
+  if (reply.error?.kind === "session_not_found" && session) {
+    console.log(`Session #${session.id} no longer exists, starting a new one`);
+    startNewSession(session.chatId, session.workspaceId);
+    return callClaude(prompt, options);
   }
 
-  args.push("--output-format", "text");
+  if (reply.sessionId && options?.chatId !== undefined) {
+    const usage = reply.usage || { costUsd: 0, inputTokens: 0, outputTokens: 0 };
+    console.log(
+      `Claude used ${reply.turns ?? "?"} turns, $${usage.costUsd.toFixed(4)}, ` +
+        `${usage.inputTokens} input / ${usage.outputTokens} output tokens`
+    );
+    recordReply(session, options.chatId, options.workspaceId, reply.sessionId, options.label || prompt, usage);
+  }
 
-  console.log(`Calling Claude: ${prompt.substring(0, 50)}...`);
+  if (reply.error) {
+    console.error(`Claude error (${reply.error.kind}):`, reply.error.message);
+    return { text: describeAssistantError(reply.error, reply.turns), skillResults: reply.skillResults };
+  }
 
-  try {
-    const proc = spawn(args, {
-      stdout: "pipe",
-      stderr: "pipe",
-      env: {
-        ...process.env,
-        // Pass through any env vars Claude might need
-      },
+  return { text: reply.text, skillResults: reply.skillResults };
+}
+
+// ============================================================
+// STREAMING REPLIES
+// ============================================================
+
+// Telegram rate limits edits of a message; stay below about one per second
+const STREAM_EDIT_INTERVAL_MS = parseInt(process.env.STREAM_EDIT_INTERVAL || "1500", 10);
+
+// Telegram has a 4096 character limit
+const MAX_MESSAGE_LENGTH = 4000;
+
+interface ReplyStream extends AssistantEvents {
+  // Stop editing; returns the live message for the final reply to replace
+  finish: () => Promise<number | undefined>;
+}
+
+/**
+ * Show a reply while Claude writes it
+ *
+ * Posts a placeholder right away and edits it as text and tool calls arrive,
+ * at most every STREAM_EDIT_INTERVAL ms. Updates in between are merged into
+ * the next edit, and a 429 from Telegram pauses edits for as long as it asks.
+ * Only the end of a long text is shown; sendResponse splits the final reply.
+ */
+function createReplyStream(ctx: Context): ReplyStream {
+  const chatId = ctx.chat!.id;
+  let messageId: number | undefined;
+  let text = "";
+  let tool: string | null = null;
+  let shown = "";
+  let nextEdit = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let queue: Promise<void> = Promise.resolve();
+  let finished = false;
+
+  const render = (): string => {
+    const status = tool ? `🔧 Running ${tool}...` : "💭 Thinking...";
+    const room = MAX_MESSAGE_LENGTH - status.length - 3;
+    const body = text.length > room ? `…${text.slice(-room)}` : text;
+    return body ? `${body}\n\n${status}` : status;
+  };
+
+  const flush = (): void => {
+    timer = undefined;
+    const next = render();
+    if (finished || next === shown) return;
+    shown = next;
+    nextEdit = Date.now() + STREAM_EDIT_INTERVAL_MS;
+
+    // Edits run one after another so they never arrive out of order
+    queue = queue.then(async () => {
+      try {
+        if (messageId === undefined) {
+          messageId = (await ctx.reply(next)).message_id;
+        } else {
+          await ctx.api.editMessageText(chatId, messageId, next);
+        }
+      } catch (error) {
+        if (error instanceof GrammyError && error.error_code === 429) {
+          nextEdit = Date.now() + (error.parameters.retry_after ?? 5) * 1000;
+          shown = "";
+        } else {
+          console.error(`Could not update streamed reply in chat ${chatId}:`, error);
+        }
+      }
     });
+  };
+
+  const update = (): void => {
+    if (finished || timer) return;
+    timer = setTimeout(flush, Math.max(0, nextEdit - Date.now()));
+  };
+
+  flush();
+
+  return {
+    text: (value) => {
+      text = value;
+      update();
+    },
+    tool: (name) => {
+      tool = name;
+      update();
+    },
+    finish: async () => {
+      finished = true;
+      if (timer) clearTimeout(timer);
+      await queue;
+      return messageId;
+    },
+  };
+}
+
+// ============================================================
+// SKILL RESULTS
+// ============================================================
+
+function formatSkillResult(result: SkillResult): string {
+  if (result.success) {
+    let message = `✅ Success!`;
+    if (result.url) message += `\n🔗 ${result.url}`;
+    if (result.message) message += `\n📝 ${result.message}`;
+    if (result.jobId) message += `\n📋 Job ID: ${result.jobId}`;
+    return message;
+  } else if (result.needsAuth) {
+    return `⚠️ Authentication required. Run: /auth ${result.platform}`;
+  } else {
+    return `❌ Error: ${result.error}`;
+  }
+}
+
+/**
+ * Combine Claude's reply with the results of any publishing tools it called.
+ * Read-only tools (lists, stats, recommendations) are already summarised by
+ * Claude, so only results that changed something are echoed. Approvals get
+ * their own preview card.
+ */
+function formatReply(response: ClaudeResponse): string {
+  const reported = response.skillResults.filter(
+    (r) => !r.approvalId && (!r.success || r.url || r.jobId || r.postId || r.videoId)
+  );
+  const parts = [response.text, ...reported.map(formatSkillResult)];
+  return parts.filter((part) => part).join("\n\n");
+}
+
+// ============================================================
+// APPROVALS
+// ============================================================
+
+// Chats currently asked to send an edit for an approval
+const pendingEdits = new Map<number, number>();
+
+function approvalKeyboard(id: number): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("✅ Publish", `approval:publish:${id}`)
+    .text("✏️ Edit", `approval:edit:${id}`)
+    .row()
+    .text("🕒 Schedule", `approval:schedule:${id}`)
+    .text("✖️ Cancel", `approval:cancel:${id}`);
+}
+
+// Failed approvals keep their media, so they can be published again
+function reopenKeyboard(id: number): InlineKeyboard {
+  return new InlineKeyboard().text("🔁 Publish again", `approval:reopen:${id}`);
+}
+
+async function sendApprovalCard(ctx: Context, approval: PendingApproval): Promise<void> {
+  const message = await ctx.reply(formatPreview(approval), {
+    reply_markup: approvalKeyboard(approval.id),
+  });
+  setApprovalCard(approval.id, message.message_id);
+}
+
+async function sendApprovalCards(ctx: Context, results: SkillResult[]): Promise<void> {
+  for (const result of results) {
+    if (!result.approvalId) continue;
+    const approval = getApproval(result.approvalId);
+    if (approval?.status === "pending") {
+      await sendApprovalCard(ctx, approval);
+    }
+  }
+}
+
+async function cleanupApprovalMedia(approval: PendingApproval): Promise<void> {
+  for (const file of getApprovalFiles(approval)) {
+    if (file.startsWith(UPLOADS_DIR)) {
+      await deleteMedia(file);
+    }
+  }
+}
 
-    const output = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
+bot.callbackQuery(/^approval:(publish|edit|schedule|cancel):(\d+)$/, async (ctx) => {
+  const [, decision, idStr] = ctx.match;
+  const approval = getApproval(parseInt(idStr, 10));
 
-    const exitCode = await proc.exited;
+  if (!approval || approval.status !== "pending") {
+    await ctx.answerCallbackQuery({ text: "This request was already handled." });
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    return;
+  }
 
-    if (exitCode !== 0) {
-      console.error("Claude error:", stderr);
-      return `Error: ${stderr || "Claude exited with code " + exitCode}`;
+  const preview = formatPreview(approval);
+
+  switch (decision) {
+    case "publish": {
+      await ctx.answerCallbackQuery({ text: "Publishing..." });
+      await ctx.editMessageText(`${preview}\n\n⏳ Publishing...`);
+      await ctx.replyWithChatAction("typing");
+
+      const result = await publishApproval(approval);
+      if (result.success) await cleanupApprovalMedia(approval);
+
+      if (result.violations) {
+        // Rejected before publishing: the approval is still pending and can be edited
+        await ctx.editMessageText(preview, { reply_markup: approvalKeyboard(approval.id) });
+      } else {
+        const outcome = !result.success ? "❌ Failed" : result.processing ? "⏳ Publishing" : "✅ Published";
+        await ctx.editMessageText(`${preview}\n\n${outcome}`, {
+          reply_markup: result.success ? undefined : reopenKeyboard(approval.id),
+        });
+      }
+      await ctx.reply(formatSkillResult(result));
+      break;
     }
 
-    // Extract session ID from output if present (for --resume)
-    const sessionMatch = output.match(/Session ID: ([a-f0-9-]+)/i);
-    if (sessionMatch) {
-      session.sessionId = sessionMatch[1];
-      session.lastActivity = new Date().toISOString();
-      await saveSession(session);
+    case "edit": {
+      pendingEdits.set(approval.chatId, approval.id);
+      await ctx.answerCallbackQuery();
+      await ctx.reply(
+        `Send the new text for approval #${approval.id}.\n\n` +
+          `Plain text replaces the caption/title. Use "field: value" lines to change other fields, e.g.\n` +
+          `description: New description\nprivacy: unlisted`
+      );
+      break;
     }
 
-    return output.trim();
-  } catch (error) {
-    console.error("Spawn error:", error);
-    return `Error: Could not run Claude CLI`;
+    case "schedule": {
+      const result = await scheduleApproval(approval);
+      await ctx.answerCallbackQuery({ text: result.success ? "Scheduled" : "Could not schedule" });
+      if (result.success) {
+        await ctx.editMessageText(`${preview}\n\n🕒 ${result.message}`);
+      } else if (getApproval(approval.id)?.status === "failed") {
+        // Queuing failed once started; rejected content leaves the approval pending with its buttons
+        await ctx.editMessageText(`${preview}\n\n❌ Could not schedule`, { reply_markup: reopenKeyboard(approval.id) });
+      }
+      await ctx.reply(formatSkillResult(result));
+      break;
+    }
+
+    case "cancel": {
+      cancelApproval(approval.id);
+      await cleanupApprovalMedia(approval);
+      await ctx.answerCallbackQuery({ text: "Cancelled" });
+      await ctx.editMessageText(`${preview}\n\n✖️ Cancelled`);
+      break;
+    }
+  }
+});
+
+// Publish again button of failed approvals
+bot.callbackQuery(/^approval:reopen:(\d+)$/, async (ctx) => {
+  const approval = reopenApproval(parseInt(ctx.match[1], 10));
+
+  if (!approval) {
+    await ctx.answerCallbackQuery({ text: "This request was already handled." });
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+  await ctx.editMessageReplyMarkup().catch(() => {});
+  await sendApprovalCard(ctx, approval);
+});
+
+/**
+ * Report approvals a restart interrupted, with a button to publish them again
+ */
+async function reportInterruptedApprovals(): Promise<void> {
+  for (const { approval, result } of failInterruptedApprovals()) {
+    console.log(`Approval #${approval.id} was interrupted by a restart`);
+    await bot.api
+      .sendMessage(approval.chatId, `${formatPreview(approval)}\n\n❌ ${result.error}`, {
+        reply_markup: reopenKeyboard(approval.id),
+      })
+      .catch((error) => console.error(`Could not report approval #${approval.id}:`, error));
   }
 }
 
+// Retry button on scheduler failure notifications (src/scheduler/notify.ts)
+bot.callbackQuery(/^job:retry:(\d+)$/, async (ctx) => {
+  const id = parseInt(ctx.match[1], 10);
+  const success = retry(id);
+
+  await ctx.answerCallbackQuery({ text: success ? "Queued for retry" : "Job is not failed" });
+  if (success) {
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    await ctx.reply(`🔁 Job #${id} queued for retry`);
+  }
+});
+
+// Resume buttons of /sessions
+bot.callbackQuery(/^session:resume:(\d+)$/, async (ctx) => {
+  const session = resumeSession(parseInt(ctx.match[1], 10), ctx.chat!.id);
+
+  if (!session) {
+    await ctx.answerCallbackQuery({ text: "Conversation not found" });
+    return;
+  }
+
+  await ctx.answerCallbackQuery({ text: "Resumed" });
+  await ctx.editMessageReplyMarkup().catch(() => {});
+  await ctx.reply(`↩️ Continuing conversation #${session.id}: ${session.label}`);
+});
+
 // ============================================================
-// SKILL PARSING AND EXECUTION
+// MEDIA GROUPS (albums)
 // ============================================================
 
-async function parseAndExecuteSkill(response: string, ctx: Context): Promise<string> {
-  const skillMatch = response.match(/SKILL:(\w+):(\w+)\s*(.*)/);
-  if (!skillMatch) return response; // No skill, return as-is
+// Telegram delivers every album item as its own message; wait this long for the rest
+const MEDIA_GROUP_WINDOW_MS = parseInt(process.env.MEDIA_GROUP_WINDOW || "1500", 10);
+
+interface MediaFile {
+  path: string;
+  type: "image" | "video" | "document";
+}
+
+interface MediaGroup {
+  ctx: Context;
+  files: MediaFile[];
+  caption?: string; // Telegram puts the album caption on one of the items
+  downloading: number; // Items still being downloaded
+  timer?: ReturnType<typeof setTimeout>;
+}
 
-  const [, platform, action, argsJson] = skillMatch;
+const mediaGroups = new Map<string, MediaGroup>();
 
-  // Handle special case: recommendations
-  if (platform === "recommend") {
-    return formatRecommendations(action);
+/**
+ * Buffer an album item from the moment its download starts. The album goes
+ * to Claude as one prompt once every item has downloaded and no new item
+ * arrived for MEDIA_GROUP_WINDOW_MS, so a slow download never splits it.
+ * Rejects (without the item) when the download fails.
+ */
+async function addToMediaGroup(
+  ctx: Context,
+  groupId: string,
+  file: MediaFile,
+  caption: string | undefined,
+  download: Promise<void>
+): Promise<void> {
+  let group = mediaGroups.get(groupId);
+  if (!group) {
+    group = { ctx, files: [], downloading: 0 };
+    mediaGroups.set(groupId, group);
   }
 
-  // Handle scheduler skill specially
-  const skillFile = platform === "scheduler" ? "scheduler-skill" : `${platform}-skill`;
-  const skillPath = join(process.cwd(), "src/skills", `${skillFile}.ts`);
+  group.files.push(file);
+  group.caption ||= caption;
+  group.downloading++;
+  clearTimeout(group.timer);
 
-  console.log(`Executing skill: ${platform}:${action}`);
-  await ctx.replyWithChatAction("typing");
+  try {
+    await download;
+  } catch (error) {
+    group.files = group.files.filter((item) => item !== file);
+    throw error;
+  } finally {
+    group.downloading--;
+    if (group.downloading === 0) {
+      const ready = group;
+      ready.timer = setTimeout(() => {
+        mediaGroups.delete(groupId);
+        if (ready.files.length === 0) return;
+        processMediaGroup(ready).catch((error) => console.error("Album error:", error));
+      }, MEDIA_GROUP_WINDOW_MS);
+    }
+  }
+}
+
+async function processMediaGroup(group: MediaGroup): Promise<void> {
+  const { ctx, files } = group;
+  const chatId = ctx.chat!.id;
+  console.log(`Album received: ${files.length} files`);
 
   try {
-    const proc = spawn(["bun", "run", skillPath, action, argsJson || "{}"], {
-      stdout: "pipe",
-      stderr: "pipe",
+    await ctx.replyWithChatAction("typing");
+
+    const caption = group.caption || `Process these ${files.length} files.`;
+    const workspace = getActiveWorkspace(chatId);
+    const prompt = buildPrompt(caption, files, workspace);
+
+    const reply = createReplyStream(ctx);
+    const claudeResponse = await callClaude(prompt, {
+      resume: true,
+      chatId,
+      workspaceId: workspace?.id,
+      label: caption,
+      stream: reply,
     });
 
-    const output = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
-    const exitCode = await proc.exited;
-
-    if (exitCode !== 0) {
-      console.error(`Skill error: ${stderr}`);
-      return `❌ Skill execution failed: ${stderr || "Unknown error"}`;
+    // Cleanup after processing (unless it was queued or awaits approval)
+    if (!claudeResponse.skillResults.some((r) => r.jobId || r.approvalId)) {
+      await Promise.all(files.map((file) => unlink(file.path).catch(() => {})));
     }
 
-    const result: SkillResult = JSON.parse(output);
-
-    if (result.success) {
-      let message = `✅ Success!`;
-      if (result.url) message += `\n🔗 ${result.url}`;
-      if (result.message) message += `\n📝 ${result.message}`;
-      if (result.jobId) message += `\n📋 Job ID: ${result.jobId}`;
-      return message;
-    } else if (result.needsAuth) {
-      return `⚠️ Authentication required. Run: /auth ${platform}`;
-    } else {
-      return `❌ Error: ${result.error}`;
-    }
+    await sendResponse(ctx, formatReply(claudeResponse), reply);
+    await sendApprovalCards(ctx, claudeResponse.skillResults);
   } catch (error) {
-    console.error("Skill execution error:", error);
-    return `❌ Failed to execute skill: ${error instanceof Error ? error.message : "Unknown error"}`;
+    console.error("Album error:", error);
+    await ctx.reply("Could not process album.");
+    await Promise.all(files.map((file) => unlink(file.path).catch(() => {})));
   }
 }
 
@@ -268,21 +649,28 @@ async function parseAndExecuteSkill(response: string, ctx: Context): Promise<str
 
 // Auth command
 bot.command("auth", async (ctx) => {
-  const platform = ctx.match?.trim().toLowerCase();
-  const validPlatforms = ["youtube", "facebook", "tiktok"];
+  const [platform, option] = (ctx.match?.trim().toLowerCase() || "").split(/\s+/);
+  const validPlatforms = listAuthPlatforms().map((adapter) => adapter.name);
 
   if (!platform || !validPlatforms.includes(platform)) {
+    // Platforms without their own login point to the one they use
+    const adapter = platform ? getPlatform(platform) : undefined;
+    if (adapter?.authPlatform) {
+      return ctx.reply(`${adapter.displayName} uses the ${adapter.authPlatform} login. Run /auth ${adapter.authPlatform}`);
+    }
     return ctx.reply(
-      "Usage: /auth <platform>\n\nAvailable platforms:\n• youtube\n• facebook\n• tiktok"
+      `Usage: /auth <platform> [add]\n\nAvailable platforms:\n${validPlatforms.map((name) => `• ${name}`).join("\n")}\n\nAdd "add" to connect another account, e.g. /auth ${validPlatforms[0]} add`
     );
   }
 
   const userId = ctx.from?.id.toString() || "unknown";
+  const addAccount = option === "add";
 
   try {
-    const authUrl = await generateAuthUrl(platform, userId);
+    const authUrl = await generateAuthUrl(platform, userId, { addAccount });
+    const name = getPlatform(platform)!.displayName;
     await ctx.reply(
-      `🔐 Authenticate with ${platform.charAt(0).toUpperCase() + platform.slice(1)}:\n\n${authUrl}\n\nClick the link above to authorize. After authorization, you can use ${platform} features.`
+      `🔐 ${addAccount ? "Connect another" : "Authenticate with"} ${name}${addAccount ? " account" : ""}:\n\n${authUrl}\n\nClick the link above to authorize. After authorization, you can use ${platform} features.`
     );
   } catch (error) {
     console.error(`Auth error for ${platform}:`, error);
@@ -292,33 +680,61 @@ bot.command("auth", async (ctx) => {
   }
 });
 
+// Accounts command
+bot.command("accounts", async (ctx) => {
+  const [subcommand, platform, accountId] = (ctx.match?.trim() || "").split(/\s+/);
+
+  if (subcommand === "remove") {
+    if (!platform || !accountId) {
+      return ctx.reply("Usage: /accounts remove <platform> <account ID>");
+    }
+    const removed = removeToken(platform.toLowerCase(), accountId);
+    return ctx.reply(removed ? `✅ Removed ${platform} account ${accountId}` : `❌ Account not found`);
+  }
+
+  const accounts = listAccounts(subcommand?.toLowerCase() || undefined);
+  if (accounts.length === 0) {
+    return ctx.reply("No accounts connected. Use /auth <platform> to connect one.");
+  }
+
+  const lines = accounts.map(
+    (a) => `• ${a.platform}: ${a.displayName || a.accountId} (${a.accountId})`
+  );
+  await ctx.reply(
+    `🔑 Connected accounts:\n\n${lines.join("\n")}\n\nThe first account of each platform is the default.`
+  );
+});
+
 // Recommend command
 bot.command("recommend", async (ctx) => {
   const platform = ctx.match?.trim().toLowerCase();
 
   if (!platform) {
     return ctx.reply(
-      "Usage: /recommend <platform>\n\nAvailable platforms:\n• youtube\n• facebook\n• instagram\n• tiktok\n\nOr use /recommend all for all platforms"
+      `Usage: /recommend <platform>\n\nAvailable platforms:\n${getPlatformNames().map((name) => `• ${name}`).join("\n")}\n\nOr use /recommend all for all platforms`
     );
   }
 
+  const workspace = getActiveWorkspace(ctx.chat.id);
+
   if (platform === "all") {
-    return ctx.reply(formatRecommendations());
+    return ctx.reply(formatRecommendations(undefined, workspace));
   }
 
-  const guidelines = formatRecommendations(platform);
+  const guidelines = formatRecommendations(platform, workspace);
   await ctx.reply(guidelines);
 });
 
 // Queue command
 bot.command("queue", async (ctx) => {
-  const subcommand = ctx.match?.trim().toLowerCase() || "list";
+  const [subcommand = "list", idStr] = (ctx.match?.trim().toLowerCase() || "").split(/\s+/).filter(Boolean);
 
   try {
-    const skillPath = join(process.cwd(), "src/skills", "scheduler-skill.ts");
+    const workspace = getActiveWorkspace(ctx.chat.id);
+    const workspaceId = workspace?.id;
 
     let action: string;
-    let argsJson = "{}";
+    let argsJson = JSON.stringify({ workspaceId });
 
     switch (subcommand) {
       case "list":
@@ -327,26 +743,36 @@ bot.command("queue", async (ctx) => {
         break;
       case "pending":
         action = "list";
-        argsJson = JSON.stringify({ status: "pending" });
+        argsJson = JSON.stringify({ status: "pending", workspaceId });
+        break;
+      case "series":
+        action = "list-series";
+        break;
+      case "campaign":
+        if (!idStr) return ctx.reply("Usage: /queue campaign <campaign ID>");
+        action = "campaign";
+        argsJson = JSON.stringify({ id: parseInt(idStr, 10), workspaceId });
+        break;
+      case "pause":
+      case "resume":
+      case "delete":
+        if (!idStr) return ctx.reply(`Usage: /queue ${subcommand} <series ID>`);
+        action = `${subcommand}-series`;
+        argsJson = JSON.stringify({ id: parseInt(idStr, 10), workspaceId });
         break;
       default:
         return ctx.reply(
-          "Usage: /queue [command]\n\nCommands:\n• list/status - Show queue statistics\n• pending - Show pending jobs"
+          "Usage: /queue [command]\n\nCommands:\n• list/status - Show queue statistics\n• pending - Show pending jobs\n• series - Show recurring posts\n• pause/resume/delete <id> - Manage a recurring post\n• campaign <id> - Show each platform of a campaign"
         );
     }
 
-    const proc = spawn(["bun", "run", skillPath, action, argsJson], {
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-
-    const output = await new Response(proc.stdout).text();
-    const result: SkillResult = JSON.parse(output);
+    const result = await dispatchSkill("scheduler-skill.ts", action, argsJson);
 
     if (result.success) {
-      await ctx.reply(`📊 Queue Status:\n\n${result.message}`);
+      const scope = workspace ? ` (${workspace.name})` : "";
+      await ctx.reply(`📊 Queue Status${scope}:\n\n${result.message}`);
     } else {
-      await ctx.reply(`❌ Error: ${result.error}`);
+      await ctx.reply(`❌ Error: ${result.error || result.message}`);
     }
   } catch (error) {
     console.error("Queue command error:", error);
@@ -354,6 +780,195 @@ bot.command("queue", async (ctx) => {
   }
 });
 
+// Workspace command
+function formatWorkspace(workspace: Workspace, active: boolean): string {
+  const accounts = workspace.accounts.map((a) => `${a.platform}:${a.accountId}`).join(", ");
+  const hashtags = workspace.defaultHashtags.join(" ");
+  const times = Object.entries(workspace.recommendations || {})
+    .map(([platform, rec]) => `${platform} ${rec.days.join("/")} at ${rec.hours.join(",")}h`)
+    .join("; ");
+
+  return [
+    `${active ? "▶️" : "•"} ${workspace.name}`,
+    `  Timezone: ${workspace.timezone || "server default"}`,
+    `  Accounts: ${accounts || "default accounts"}`,
+    `  Hashtags: ${hashtags || "none"}`,
+    ...(times ? [`  Posting times: ${times}`] : []),
+  ].join("\n");
+}
+
+const WORKSPACE_USAGE = `Usage: /workspace [command]
+
+Commands:
+• (none) - Show the active workspace
+• list - List workspaces
+• new <name> [timezone] - Create a workspace and switch to it
+• use <name> - Switch this chat to a workspace
+• timezone <tz> - Set the timezone, e.g. Europe/Paris
+• hashtags <#tag ...> - Set default hashtags ("none" to clear)
+• link <platform> <account ID> - Use a connected account in this workspace
+• unlink <platform> <account ID> - Stop using an account
+• times <platform> <days> <hours> - Override posting times, e.g. times instagram Mon,Wed 9,18`;
+
+bot.command("workspace", async (ctx) => {
+  const [subcommand = "", ...rest] = (ctx.match?.trim() || "").split(/\s+/);
+  const workspace = getActiveWorkspace(ctx.chat.id);
+
+  try {
+    switch (subcommand.toLowerCase()) {
+      case "": {
+        if (!workspace) {
+          return ctx.reply("No workspace selected. Create one with /workspace new <name>.");
+        }
+        return ctx.reply(formatWorkspace(workspace, true));
+      }
+
+      case "list": {
+        const workspaces = listWorkspaces();
+        if (workspaces.length === 0) {
+          return ctx.reply("No workspaces yet. Create one with /workspace new <name>.");
+        }
+        return ctx.reply(
+          `🗂 Workspaces:\n\n${workspaces.map((w) => formatWorkspace(w, w.id === workspace?.id)).join("\n\n")}`
+        );
+      }
+
+      case "new": {
+        const [name, timezone] = rest;
+        if (!name) return ctx.reply("Usage: /workspace new <name> [timezone]");
+        const created = createWorkspace(name, timezone);
+        setActiveWorkspace(ctx.chat.id, created.id);
+        return ctx.reply(`✅ Created workspace ${created.name} and switched to it`);
+      }
+
+      case "use": {
+        const name = rest.join(" ");
+        const target = name ? getWorkspace(name) : null;
+        if (!target) return ctx.reply(`❌ Workspace not found: ${name || "(none)"}`);
+        setActiveWorkspace(ctx.chat.id, target.id);
+        return ctx.reply(`✅ Switched to workspace ${target.name}`);
+      }
+    }
+
+    if (!workspace) {
+      return ctx.reply("No workspace selected. Use /workspace use <name> first.");
+    }
+
+    switch (subcommand.toLowerCase()) {
+      case "timezone": {
+        if (!rest[0]) return ctx.reply("Usage: /workspace timezone <tz>");
+        updateWorkspace(workspace.id, { timezone: rest[0] });
+        return ctx.reply(`✅ ${workspace.name} timezone set to ${rest[0]}`);
+      }
+
+      case "hashtags": {
+        const hashtags =
+          rest[0]?.toLowerCase() === "none"
+            ? []
+            : rest.filter((tag) => tag).map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
+        updateWorkspace(workspace.id, { defaultHashtags: hashtags });
+        return ctx.reply(`✅ ${workspace.name} hashtags: ${hashtags.join(" ") || "none"}`);
+      }
+
+      case "link":
+      case "unlink": {
+        const [platform, accountId] = rest;
+        if (!platform || !accountId) {
+          return ctx.reply(`Usage: /workspace ${subcommand} <platform> <account ID>`);
+        }
+        if (subcommand.toLowerCase() === "link") {
+          linkAccount(workspace.id, platform, accountId);
+          return ctx.reply(`✅ ${workspace.name} now uses ${platform} account ${accountId}`);
+        }
+        const removed = unlinkAccount(workspace.id, platform, accountId);
+        return ctx.reply(removed ? `✅ Unlinked ${platform} account ${accountId}` : "❌ Account not linked");
+      }
+
+      case "times": {
+        const [platform, days, hours] = rest;
+        if (!platform || !days || !hours) {
+          return ctx.reply("Usage: /workspace times <platform> <days> <hours>");
+        }
+        const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+        const parsedDays = days.split(",").map((day) => {
+          const match = dayNames.find((d) => d.toLowerCase().startsWith(day.toLowerCase().slice(0, 3)));
+          if (!match) throw new Error(`Unknown day: ${day}`);
+          return match;
+        });
+        const parsedHours = hours.split(",").map((hour) => {
+          const value = parseInt(hour, 10);
+          if (isNaN(value) || value < 0 || value > 23) throw new Error(`Invalid hour: ${hour}`);
+          return value;
+        });
+        const key = platform.toLowerCase();
+        const existing = workspace.recommendations?.[key];
+        updateWorkspace(workspace.id, {
+          recommendations: {
+            ...workspace.recommendations,
+            [key]: {
+              days: parsedDays,
+              hours: parsedHours.sort((a, b) => a - b),
+              frequency: existing?.frequency || "custom",
+            },
+          },
+        });
+        return ctx.reply(`✅ ${workspace.name} posts to ${key} on ${parsedDays.join(", ")} at ${parsedHours.join(", ")}h`);
+      }
+
+      default:
+        return ctx.reply(WORKSPACE_USAGE);
+    }
+  } catch (error) {
+    await ctx.reply(`❌ ${error instanceof Error ? error.message : "Workspace command failed"}`);
+  }
+});
+
+// New conversation command
+bot.command("new", async (ctx) => {
+  const workspace = getActiveWorkspace(ctx.chat.id);
+  startNewSession(ctx.chat.id, workspace?.id);
+  await ctx.reply(`🆕 New conversation${workspace ? ` in ${workspace.name}` : ""}. Claude starts without earlier context.`);
+});
+
+// Sessions command
+bot.command("sessions", async (ctx) => {
+  const workspace = getActiveWorkspace(ctx.chat.id);
+  const sessions = listSessions(ctx.chat.id, workspace?.id);
+
+  if (sessions.length === 0) {
+    return ctx.reply("No conversations yet. Send a message to start one.");
+  }
+
+  const lines = sessions.map(
+    (s) =>
+      `${s.active ? "▶️" : "•"} #${s.id} ${s.label}\n  Last message: ${s.lastActivity.toLocaleString()}\n` +
+      `  Usage: $${s.usage.costUsd.toFixed(2)}, ${s.usage.inputTokens + s.usage.outputTokens} tokens`
+  );
+  const keyboard = new InlineKeyboard();
+  for (const s of sessions.filter((s) => !s.active)) {
+    keyboard.text(`↩️ #${s.id} ${s.label}`, `session:resume:${s.id}`).row();
+  }
+
+  await ctx.reply(
+    `💬 Conversations${workspace ? ` in ${workspace.name}` : ""}:\n\n${lines.join("\n\n")}\n\n` +
+      `/new starts a fresh one; tap a conversation to continue it.`,
+    { reply_markup: keyboard }
+  );
+});
+
+// Approvals command
+bot.command("approvals", async (ctx) => {
+  const approvals = listApprovals(ctx.chat.id);
+
+  if (approvals.length === 0) {
+    return ctx.reply("No posts waiting for approval.");
+  }
+
+  for (const approval of approvals) {
+    await sendApprovalCard(ctx, approval);
+  }
+});
+
 // Help command
 bot.command("help", async (ctx) => {
   await ctx.reply(
@@ -362,14 +977,29 @@ bot.command("help", async (ctx) => {
 /media <message>
 Send a message to Claude for social media actions.
 
-/auth <platform>
-Authenticate with a platform (youtube, facebook, tiktok)
+/auth <platform> [add]
+Authenticate with a platform (${listAuthPlatforms().map((adapter) => adapter.name).join(", ")}), add "add" to connect another account
+
+/accounts [platform]
+List connected accounts (/accounts remove <platform> <id> to disconnect)
 
 /recommend <platform|all>
 Get optimal posting time recommendations
 
-/queue [list|pending]
-View scheduled post queue status
+/queue [list|pending|series|campaign <id>]
+View scheduled post queue status and recurring posts (/queue pause|resume|delete <id>)
+
+/workspace [list|new|use|timezone|hashtags|link|unlink|times]
+Switch client workspace and manage its accounts and defaults
+
+/approvals
+Show posts waiting for your approval
+
+/new
+Start a fresh conversation (Claude forgets the earlier context)
+
+/sessions
+List recent conversations and continue an older one
 
 /help
 Show this help message
@@ -378,7 +1008,9 @@ Show this help message
 • Send a video with caption "Upload to YouTube as 'My Title'"
 • Send an image with "Post this to Instagram with caption..."
 • Say "Schedule this for Friday 6pm on YouTube"
-• Ask "What's the best time to post on Facebook?"`
+• Ask "What's the best time to post on Facebook?"
+
+Nothing is published until you press Publish on the preview card.`
   );
 });
 
@@ -391,39 +1023,97 @@ bot.on("message:text", async (ctx) => {
   const text = ctx.message.text;
   console.log(`Message: ${text.substring(0, 50)}...`);
 
-  await ctx.replyWithChatAction("typing");
+  try {
+    // Reply to an Edit button on an approval card
+    const editingId = pendingEdits.get(ctx.chat.id);
+    if (editingId !== undefined) {
+      pendingEdits.delete(ctx.chat.id);
+      const approval = getApproval(editingId);
+      if (approval?.status === "pending") {
+        // The new card supersedes the old one, so only its buttons stay
+        if (approval.messageId !== undefined) {
+          await ctx.api.editMessageReplyMarkup(approval.chatId, approval.messageId).catch(() => {});
+        }
+        await sendApprovalCard(ctx, editApproval(approval, text));
+        return;
+      }
+    }
 
-  // Add any context you want here
-  const enrichedPrompt = buildPrompt(text, false);
+    await ctx.replyWithChatAction("typing");
 
-  const response = await callClaude(enrichedPrompt, { resume: true });
+    // Add any context you want here
+    const workspace = getActiveWorkspace(ctx.chat.id);
+    const enrichedPrompt = buildPrompt(text, [], workspace);
 
-  // Check if response contains a skill command
-  const processedResponse = await parseAndExecuteSkill(response, ctx);
+    const reply = createReplyStream(ctx);
+    const response = await callClaude(enrichedPrompt, {
+      resume: true,
+      chatId: ctx.chat.id,
+      workspaceId: workspace?.id,
+      label: text,
+      stream: reply,
+    });
 
-  await sendResponse(ctx, processedResponse);
+    await sendResponse(ctx, formatReply(response), reply);
+    await sendApprovalCards(ctx, response.skillResults);
+  } catch (error) {
+    console.error("Message error:", error);
+    await ctx.reply("Could not process message.").catch(() => {});
+  }
 });
 
-// Voice messages (optional - requires transcription)
+// Voice messages (transcribed locally, see transcription/transcription.ts)
 bot.on("message:voice", async (ctx) => {
   console.log("Voice message received");
+
+  if (!getTranscriptionProvider()) {
+    await ctx.reply(
+      "Voice messages need a transcription backend. " +
+        "Set WHISPER_MODEL for whisper.cpp, or TRANSCRIPTION_PROVIDER=command with TRANSCRIPTION_COMMAND."
+    );
+    return;
+  }
+
   await ctx.replyWithChatAction("typing");
 
-  // To handle voice, you need a transcription service
-  // Options: Whisper API, Gemini, AssemblyAI, etc.
-  //
-  // Example flow:
-  // 1. Download the voice file
-  // 2. Send to transcription service
-  // 3. Pass transcription to Claude
-  //
-  // const transcription = await transcribe(voiceFile);
-  // const response = await callClaude(`[Voice]: ${transcription}`);
+  let filePath: string | null = null;
 
-  await ctx.reply(
-    "Voice messages require a transcription service. " +
-      "Add Whisper, Gemini, or similar to handle voice."
-  );
+  try {
+    filePath = join(TEMP_DIR, `voice_${Date.now()}.ogg`);
+    await downloadTelegramFile(ctx.message.voice.file_id, filePath);
+
+    const transcript = await transcribeAudio(filePath);
+    if (!transcript) {
+      await ctx.reply("Could not make out any speech in this voice message.");
+      return;
+    }
+
+    // Echo the transcript so dictated captions can be checked before publishing
+    await ctx.reply(`🎙️ ${transcript}`);
+    await ctx.replyWithChatAction("typing");
+
+    const workspace = getActiveWorkspace(ctx.chat.id);
+    const prompt = buildPrompt(`[Voice]: ${transcript}`, [], workspace);
+
+    const reply = createReplyStream(ctx);
+    const claudeResponse = await callClaude(prompt, {
+      resume: true,
+      chatId: ctx.chat.id,
+      workspaceId: workspace?.id,
+      label: transcript,
+      stream: reply,
+    });
+
+    await sendResponse(ctx, formatReply(claudeResponse), reply);
+    await sendApprovalCards(ctx, claudeResponse.skillResults);
+  } catch (error) {
+    console.error("Voice error:", error);
+    await ctx.reply("Could not transcribe voice message.");
+  } finally {
+    if (filePath) {
+      await unlink(filePath).catch(() => {});
+    }
+  }
 });
 
 // Photos/Images
@@ -437,33 +1127,41 @@ bot.on("message:photo", async (ctx) => {
     // Get highest resolution photo
     const photos = ctx.message.photo;
     const photo = photos[photos.length - 1];
-    const file = await ctx.api.getFile(photo.file_id);
 
     // Download the image
     const timestamp = Date.now();
     filePath = join(UPLOADS_DIR, `image_${timestamp}.jpg`);
+    const download = downloadTelegramFile(photo.file_id, filePath);
 
-    const response = await fetch(
-      `https://api.telegram.org/file/bot${BOT_TOKEN}/${file.file_path}`
-    );
-    const buffer = await response.arrayBuffer();
-    await writeFile(filePath, Buffer.from(buffer));
+    // Album items are collected and sent to Claude together
+    const groupId = ctx.message.media_group_id;
+    if (groupId) {
+      await addToMediaGroup(ctx, groupId, { path: filePath, type: "image" }, ctx.message.caption, download);
+      return;
+    }
+    await download;
 
     // Build prompt with file path context
     const caption = ctx.message.caption || "Analyze this image.";
-    const prompt = buildPrompt(caption, true, filePath);
-
-    const claudeResponse = await callClaude(prompt, { resume: true });
-
-    // Check if response contains a skill command
-    const processedResponse = await parseAndExecuteSkill(claudeResponse, ctx);
+    const workspace = getActiveWorkspace(ctx.chat.id);
+    const prompt = buildPrompt(caption, [{ path: filePath, type: "image" }], workspace);
+
+    const reply = createReplyStream(ctx);
+    const claudeResponse = await callClaude(prompt, {
+      resume: true,
+      chatId: ctx.chat.id,
+      workspaceId: workspace?.id,
+      label: caption,
+      stream: reply,
+    });
 
-    // Cleanup after processing (unless it was queued)
-    if (!processedResponse.includes("Job ID:")) {
+    // Cleanup after processing (unless it was queued or awaits approval)
+    if (!claudeResponse.skillResults.some((r) => r.jobId || r.approvalId)) {
       await unlink(filePath).catch(() => {});
     }
 
-    await sendResponse(ctx, processedResponse);
+    await sendResponse(ctx, formatReply(claudeResponse), reply);
+    await sendApprovalCards(ctx, claudeResponse.skillResults);
   } catch (error) {
     console.error("Image error:", error);
     await ctx.reply("Could not process image.");
@@ -482,34 +1180,46 @@ bot.on("message:video", async (ctx) => {
 
   try {
     const video = ctx.message.video;
-    const file = await ctx.api.getFile(video.file_id);
+    if (isOverDownloadLimit(video.file_size)) {
+      await ctx.reply(DOWNLOAD_LIMIT_MESSAGE);
+      return;
+    }
 
     // Download the video
     const timestamp = Date.now();
     const ext = video.file_name?.split(".").pop() || "mp4";
     filePath = join(UPLOADS_DIR, `video_${timestamp}.${ext}`);
+    const download = downloadTelegramFile(video.file_id, filePath);
 
-    const response = await fetch(
-      `https://api.telegram.org/file/bot${BOT_TOKEN}/${file.file_path}`
-    );
-    const buffer = await response.arrayBuffer();
-    await writeFile(filePath, Buffer.from(buffer));
+    // Album items are collected and sent to Claude together
+    const groupId = ctx.message.media_group_id;
+    if (groupId) {
+      await addToMediaGroup(ctx, groupId, { path: filePath, type: "video" }, ctx.message.caption, download);
+      return;
+    }
+    await download;
 
     // Build prompt with file path context
     const caption = ctx.message.caption || "Process this video.";
-    const prompt = buildPrompt(caption, true, filePath, "video");
-
-    const claudeResponse = await callClaude(prompt, { resume: true });
-
-    // Check if response contains a skill command
-    const processedResponse = await parseAndExecuteSkill(claudeResponse, ctx);
+    const workspace = getActiveWorkspace(ctx.chat.id);
+    const prompt = buildPrompt(caption, [{ path: filePath, type: "video" }], workspace);
+
+    const reply = createReplyStream(ctx);
+    const claudeResponse = await callClaude(prompt, {
+      resume: true,
+      chatId: ctx.chat.id,
+      workspaceId: workspace?.id,
+      label: caption,
+      stream: reply,
+    });
 
-    // Cleanup after processing (unless it was queued)
-    if (!processedResponse.includes("Job ID:")) {
+    // Cleanup after processing (unless it was queued or awaits approval)
+    if (!claudeResponse.skillResults.some((r) => r.jobId || r.approvalId)) {
       await unlink(filePath).catch(() => {});
     }
 
-    await sendResponse(ctx, processedResponse);
+    await sendResponse(ctx, formatReply(claudeResponse), reply);
+    await sendApprovalCards(ctx, claudeResponse.skillResults);
   } catch (error) {
     console.error("Video error:", error);
     await ctx.reply("Could not process video.");
@@ -528,31 +1238,44 @@ bot.on("message:document", async (ctx) => {
   let filePath: string | null = null;
 
   try {
-    const file = await ctx.getFile();
+    if (isOverDownloadLimit(doc.file_size)) {
+      await ctx.reply(DOWNLOAD_LIMIT_MESSAGE);
+      return;
+    }
+
     const timestamp = Date.now();
     const fileName = doc.file_name || `file_${timestamp}`;
     filePath = join(UPLOADS_DIR, `${timestamp}_${fileName}`);
+    const download = downloadTelegramFile(doc.file_id, filePath);
 
-    const response = await fetch(
-      `https://api.telegram.org/file/bot${BOT_TOKEN}/${file.file_path}`
-    );
-    const buffer = await response.arrayBuffer();
-    await writeFile(filePath, Buffer.from(buffer));
+    // Album items are collected and sent to Claude together
+    const groupId = ctx.message.media_group_id;
+    if (groupId) {
+      await addToMediaGroup(ctx, groupId, { path: filePath, type: "document" }, ctx.message.caption, download);
+      return;
+    }
+    await download;
 
     const caption = ctx.message.caption || `Analyze: ${doc.file_name}`;
-    const prompt = buildPrompt(caption, true, filePath, "document");
-
-    const claudeResponse = await callClaude(prompt, { resume: true });
-
-    // Check if response contains a skill command
-    const processedResponse = await parseAndExecuteSkill(claudeResponse, ctx);
+    const workspace = getActiveWorkspace(ctx.chat.id);
+    const prompt = buildPrompt(caption, [{ path: filePath, type: "document" }], workspace);
+
+    const reply = createReplyStream(ctx);
+    const claudeResponse = await callClaude(prompt, {
+      resume: true,
+      chatId: ctx.chat.id,
+      workspaceId: workspace?.id,
+      label: caption,
+      stream: reply,
+    });
 
-    // Cleanup after processing (unless it was queued)
-    if (!processedResponse.includes("Job ID:")) {
+    // Cleanup after processing (unless it was queued or awaits approval)
+    if (!claudeResponse.skillResults.some((r) => r.jobId || r.approvalId)) {
       await unlink(filePath).catch(() => {});
     }
 
-    await sendResponse(ctx, processedResponse);
+    await sendResponse(ctx, formatReply(claudeResponse), reply);
+    await sendApprovalCards(ctx, claudeResponse.skillResults);
   } catch (error) {
     console.error("Document error:", error);
     await ctx.reply("Could not process document.");
@@ -566,15 +1289,51 @@ bot.on("message:document", async (ctx) => {
 // HELPERS
 // ============================================================
 
+const DOWNLOAD_LIMIT_MESSAGE =
+  "This file is over Telegram's 20 MB limit for bots. " +
+  "Run a local telegram-bot-api server and set TELEGRAM_API_ROOT to receive large files.";
+
+/**
+ * Check if a file is too big for the cloud Bot API to hand to the bot
+ */
+function isOverDownloadLimit(fileSize?: number): boolean {
+  return !IS_LOCAL_API && (fileSize ?? 0) > CLOUD_DOWNLOAD_LIMIT;
+}
+
+/**
+ * Save a file sent to the bot at destPath
+ *
+ * A local telegram-bot-api server returns the absolute path of the file on
+ * its own disk, which is copied from there. Otherwise the file is streamed
+ * to disk, so large videos are never held in memory.
+ */
+async function downloadTelegramFile(fileId: string, destPath: string): Promise<void> {
+  const file = await bot.api.getFile(fileId);
+  if (!file.file_path) {
+    throw new Error("Telegram returned no file path");
+  }
+
+  if (isAbsolute(file.file_path)) {
+    await copyFile(file.file_path, destPath);
+    return;
+  }
+
+  const response = await fetch(`${TELEGRAM_API_ROOT}/file/bot${BOT_TOKEN}/${file.file_path}`);
+  if (!response.ok || !response.body) {
+    throw new Error(`File download failed: ${response.status} ${response.statusText}`);
+  }
+  await pipeline(response.body, createWriteStream(destPath));
+}
+
 function buildPrompt(
   userMessage: string,
-  hasMedia: boolean,
-  filePath?: string,
-  mediaType: "image" | "video" | "document" = "image"
+  media: MediaFile[] = [],
+  workspace: Workspace | null = null
 ): string {
   const now = new Date();
+  const timeZone = workspace?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
   const timeStr = now.toLocaleString("en-US", {
-    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    timeZone,
     weekday: "long",
     year: "numeric",
     month: "long",
@@ -583,40 +1342,64 @@ function buildPrompt(
     minute: "2-digit",
   });
 
-  let mediaContext = "";
-  if (hasMedia && filePath) {
-    mediaContext = `\n[Media: ${mediaType} at ${filePath}]`;
+  let mediaContext = media.map((file) => `\n[Media: ${file.type} at ${file.path}]`).join("");
+  if (media.length > 1) {
+    mediaContext += `\n[Album: these ${media.length} files were sent together, treat them as one post (carousel or multi-photo) unless the user says otherwise]`;
   }
 
-  return `
-You are a social media publishing assistant. You can publish to YouTube, Facebook, Instagram, and TikTok.
-
-AVAILABLE SKILLS - Output exactly one of these formats when the user wants to post content:
-
-1. YouTube upload:
-SKILL:youtube:upload {"filePath": "${filePath || ""}", "title": "...", "description": "...", "privacy": "public|unlisted|private"}
-
-2. Facebook post:
-SKILL:facebook:post {"pageId": "...", "message": "...", "link": "..."}
-
-3. Instagram post:
-SKILL:instagram:post {"imageUrl": "...", "caption": "..."}
-
-4. Schedule post:
-SKILL:scheduler:queue {"platform": "youtube|facebook|instagram|tiktok", "action": "upload|post", "content": {...}, "scheduledAt": "ISO-8601"}
-
-5. List scheduled:
-SKILL:scheduler:list
+  // A workspace only sees the accounts linked to it
+  const connected = listAccounts();
+  const accounts = (
+    workspace?.accounts.length
+      ? workspace.accounts.map((linked) => ({
+          ...linked,
+          displayName: connected.find((a) => a.accountId === linked.accountId)?.displayName,
+        }))
+      : connected
+  )
+    .map((a) => `- ${a.platform}: ${a.displayName || a.accountId} (accountId: ${a.accountId})`)
+    .join("\n");
+
+  let workspaceContext = "";
+  if (workspace) {
+    workspaceContext = `\nWORKSPACE: ${workspace.name} (all times are ${timeZone})`;
+    if (workspace.defaultHashtags.length > 0) {
+      workspaceContext += `\nDefault hashtags (append to captions and descriptions unless the user says otherwise): ${workspace.defaultHashtags.join(" ")}`;
+    }
+    workspaceContext += "\n";
+  }
 
-6. Get recommendations:
-SKILL:recommend:{platform} (when user asks about best times to post)
+  const platforms = listPlatforms();
+  const platformNames = platforms.map((adapter) => adapter.displayName);
+  const platformTools = platforms.map((adapter) => `- ${adapter.tools.join(", ")}`).join("\n");
+  const platformNotes = platforms
+    .flatMap((adapter) => adapter.promptNotes || [])
+    .map((note) => `\n- ${note}`)
+    .join("");
 
+  return `
+You are a social media publishing assistant. You can publish to ${platformNames.slice(0, -1).join(", ")}, and ${platformNames[platformNames.length - 1]}.
+
+You have social media tools (prefixed mcp__social__) for publishing, scheduling and posting recommendations:
+${platformTools}
+- scheduler_add, scheduler_list, scheduler_cancel, scheduler_retry, scheduler_stats
+- scheduler_add_series, scheduler_list_series, scheduler_pause_series, scheduler_resume_series, scheduler_delete_series
+- campaign_post, campaign_status
+- recommend
+${workspaceContext}
 RULES:
-- If user sends media with caption like "Post this to YouTube as 'My Video'", extract title and use youtube skill
-- For scheduling, suggest optimal times based on platform best practices
-- If auth required, tell user to run /auth/{platform}
-- Always output ONLY the SKILL command, no other text (unless user is just chatting)
-- For questions about best posting times, use SKILL:recommend:{platform}
+- If user sends media with caption like "Post this to YouTube as 'My Video'", extract title and call youtube_upload with the media path${platformNotes}
+- For scheduling, suggest optimal times based on platform best practices and use scheduler_add
+- To publish the same content on several platforms, call campaign_post once with a target per platform (put platform-specific title, caption, hashtags or privacy in its overrides) instead of separate publish tools
+- For repeating posts ("every Monday at 9"), use scheduler_add_series with a cron expression or RRULE
+- Several accounts can be connected per platform; pass accountId when the user names a client, channel or page (defaults to the first account)
+- If a tool reports needsAuth, tell user to run /auth {platform}
+- For questions about best posting times, use the recommend tool
+- Publishing tools return an approval ID: the user reviews a preview card and presses Publish, so just tell them it is ready for review
+- After calling a tool, reply with a short confirmation; the relay shows links and job IDs itself
+
+CONNECTED ACCOUNTS:
+${accounts || "- none (ask the user to run /auth <platform>)"}
 
 Current time: ${timeStr}${mediaContext}
 
@@ -624,13 +1407,9 @@ User: ${userMessage}
 `.trim();
 }
 
-async function sendResponse(ctx: Context, response: string): Promise<void> {
-  // Telegram has a 4096 character limit
-  const MAX_LENGTH = 4000;
-
-  if (response.length <= MAX_LENGTH) {
-    await ctx.reply(response);
-    return;
+function splitResponse(response: string): string[] {
+  if (response.length <= MAX_MESSAGE_LENGTH) {
+    return [response];
   }
 
   // Split long responses
@@ -638,22 +1417,52 @@ async function sendResponse(ctx: Context, response: string): Promise<void> {
   let remaining = response;
 
   while (remaining.length > 0) {
-    if (remaining.length <= MAX_LENGTH) {
+    if (remaining.length <= MAX_MESSAGE_LENGTH) {
       chunks.push(remaining);
       break;
     }
 
     // Try to split at a natural boundary
-    let splitIndex = remaining.lastIndexOf("\n\n", MAX_LENGTH);
-    if (splitIndex === -1) splitIndex = remaining.lastIndexOf("\n", MAX_LENGTH);
-    if (splitIndex === -1) splitIndex = remaining.lastIndexOf(" ", MAX_LENGTH);
-    if (splitIndex === -1) splitIndex = MAX_LENGTH;
+    let splitIndex = remaining.lastIndexOf("\n\n", MAX_MESSAGE_LENGTH);
+    if (splitIndex === -1) splitIndex = remaining.lastIndexOf("\n", MAX_MESSAGE_LENGTH);
+    if (splitIndex === -1) splitIndex = remaining.lastIndexOf(" ", MAX_MESSAGE_LENGTH);
+    if (splitIndex === -1) splitIndex = MAX_MESSAGE_LENGTH;
 
     chunks.push(remaining.substring(0, splitIndex));
     remaining = remaining.substring(splitIndex).trim();
   }
 
-  for (const chunk of chunks) {
+  return chunks;
+}
+
+/**
+ * Send a reply, split into messages Telegram accepts
+ * With a reply stream, the first part replaces its live message.
+ */
+async function sendResponse(ctx: Context, response: string, stream?: ReplyStream): Promise<void> {
+  const messageId = await stream?.finish();
+
+  if (!response) {
+    // Nothing to say (e.g. only approval cards follow): drop the placeholder
+    if (messageId !== undefined) await ctx.api.deleteMessage(ctx.chat!.id, messageId).catch(() => {});
+    return;
+  }
+
+  const [first, ...rest] = splitResponse(response);
+  let replaced = false;
+  if (messageId !== undefined) {
+    try {
+      await ctx.api.editMessageText(ctx.chat!.id, messageId, first);
+      replaced = true;
+    } catch (error) {
+      // Unchanged text is fine; otherwise send the reply as a new message
+      replaced = error instanceof GrammyError && error.description.includes("message is not modified");
+      if (!replaced) console.error("Could not replace streamed reply:", error);
+    }
+  }
+  if (!replaced) await ctx.reply(first);
+
+  for (const chunk of rest) {
     await ctx.reply(chunk);
   }
 }
@@ -662,12 +1471,24 @@ async function sendResponse(ctx: Context, response: string): Promise<void> {
 // START
 // ============================================================
 
-console.log("Starting Claude Social Media Agent...");
-console.log(`Authorized user: ${ALLOWED_USER_ID || "ANY (not recommended)"}`);
-
-bot.start({
-  onStart: () => {
-    console.log("Bot is running!");
-    console.log("Available commands: /auth, /recommend, /queue, /help");
-  },
+// Errors a handler did not catch: log them and keep polling
+bot.catch(async (err) => {
+  console.error(`Error while handling update ${err.ctx.update.update_id}:`, err.error);
+  await err.ctx.reply("Something went wrong, please try again.").catch(() => {});
 });
+
+if (import.meta.main) {
+  console.log("Starting Claude Social Media Agent...");
+  console.log(`Authorized user: ${ALLOWED_USER_ID || "ANY (not recommended)"}`);
+  console.log(`Assistant backend: ${getAssistantBackend()?.name || `${process.env.ASSISTANT_BACKEND || "cli"} (not configured)`}`);
+
+  bot.start({
+    onStart: () => {
+      console.log("Bot is running!");
+      console.log("Available commands: /auth, /accounts, /recommend, /queue, /workspace, /approvals, /help");
+      reportInterruptedApprovals().catch((error) => console.error("Could not report interrupted approvals:", error));
+    },
+  });
+}
+
+export { bot };
@@ -6,107 +6,243 @@
  */
 
 import cron from 'node-cron';
-import { spawn } from 'bun';
-import { join } from 'path';
-import { unlink } from 'fs/promises';
-import { getReadyJobs, completeJob, failJob, getStats, cleanup } from './queue.js';
+import {
+  getReadyJobs,
+  completeJob,
+  failJob,
+  rescheduleFailedJob,
+  markProcessing,
+  startJob,
+  requeueInterruptedJobs,
+  recordAttempt,
+  scheduleNextOccurrence,
+  getStats,
+  cleanup,
+} from './queue.js';
+import { isTransientError, getRetryDelay } from './retry.js';
+import {
+  notifyJobCompleted,
+  notifyJobFailed,
+  notifyJobNeedsAuth,
+  notifyCampaignFinished,
+  createUploadProgress,
+} from './notify.js';
+import { getCampaignSummary } from '../campaigns/campaigns.js';
+import { getPlatform } from '../platforms/registry.js';
+import { dispatchSkill } from '../skills/dispatcher.js';
+import { deleteMedia } from '../media/transcode.js';
+import { deleteExpiredMediaLinks, deleteOldUploadSessions } from '../storage/db.js';
 import type { ScheduledJob, SkillResult } from '../platforms/types.js';
 
 const CHECK_INTERVAL = parseInt(process.env.SCHEDULER_CHECK_INTERVAL || '60000', 10);
 const MAX_RETRIES = parseInt(process.env.MAX_RETRIES || '3', 10);
 const RETENTION_DAYS = parseInt(process.env.RETENTION_DAYS || '7', 10);
+const PROCESSING_TIMEOUT = parseInt(process.env.PROCESSING_TIMEOUT || '3600000', 10);
+
+// YouTube drops resumable upload sessions after about a week
+const UPLOAD_SESSION_DAYS = 7;
+
+// Set while processJobs runs: an upload can outlast the check interval
+let running = false;
 
 /**
  * Execute a skill for a job
  */
 async function executeSkill(job: ScheduledJob): Promise<SkillResult> {
-  const skillPath = join(process.cwd(), 'src/skills', `${job.platform}-skill.ts`);
+  const adapter = getPlatform(job.platform);
+  if (!adapter) {
+    return {
+      success: false,
+      platform: job.platform,
+      action: job.action,
+      error: `Unknown platform: ${job.platform}`,
+    };
+  }
 
   // Parse content to get skill arguments
   const content = JSON.parse(job.contentJson);
-  const argsJson = JSON.stringify({
-    ...content,
-    filePath: job.filePath,
-  });
+
+  // Already uploaded: follow the platform's publishing instead of posting again
+  if (job.publishId && adapter.statusAction) {
+    console.log(`[Scheduler] Checking ${job.platform} publish ${job.publishId} for job ${job.id}`);
+    return dispatchSkill(adapter.skill, adapter.statusAction, {
+      publishId: job.publishId,
+      accountId: content.accountId,
+    });
+  }
 
   console.log(`[Scheduler] Executing ${job.platform}:${job.action} for job ${job.id}`);
 
-  const proc = spawn(['bun', 'run', skillPath, job.action, argsJson], {
-    stdout: 'pipe',
-    stderr: 'pipe',
-  });
+  const progress = createUploadProgress(job, `job #${job.id} (${adapter.displayName})`);
+  const result = await dispatchSkill(
+    adapter.skill,
+    job.action,
+    { ...content, filePath: job.filePath },
+    { context: { onProgress: progress.onProgress } }
+  );
+  await progress.finish(result.success);
+  return result;
+}
 
-  const output = await new Response(proc.stdout).text();
-  const stderr = await new Response(proc.stderr).text();
-  const exitCode = await proc.exited;
+/**
+ * Queue the next occurrence once a recurring job has run
+ */
+function continueSeries(job: ScheduledJob): void {
+  if (!job.seriesId) return;
 
-  if (exitCode !== 0) {
-    console.error(`[Scheduler] Skill error: ${stderr}`);
-    return {
-      success: false,
-      platform: job.platform,
-      action: job.action,
-      error: stderr || `Skill exited with code ${exitCode}`,
-    };
+  try {
+    const nextJobId = scheduleNextOccurrence(job.seriesId);
+    if (nextJobId) {
+      console.log(`[Scheduler] Series ${job.seriesId}: next occurrence is job ${nextJobId}`);
+    } else {
+      console.log(`[Scheduler] Series ${job.seriesId} has no further occurrences`);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Could not schedule the next occurrence of series ${job.seriesId}:`, error);
+  }
+}
+
+/**
+ * Send the campaign summary once none of its platforms is pending
+ * Shared media is removed when every platform has published.
+ */
+async function finishCampaign(campaignId: number): Promise<void> {
+  const summary = getCampaignSummary(campaignId);
+  if (!summary || summary.status === 'pending') return;
+
+  console.log(`[Scheduler] Campaign ${campaignId} finished: ${summary.status}`);
+  await notifyCampaignFinished(summary);
+
+  if (summary.status === 'completed') {
+    const files = new Set(summary.jobs.map((job) => job.filePath).filter((file) => !!file));
+    for (const file of files) {
+      await deleteMedia(file!);
+    }
+  }
+}
+
+/**
+ * Record a failed attempt and either schedule a retry or fail the job
+ *
+ * Transient errors are retried up to MAX_RETRIES times with exponential
+ * backoff; permanent errors fail right away and are reported to Telegram.
+ */
+async function handleFailure(job: ScheduledJob, result: SkillResult): Promise<void> {
+  const jobId = job.id!;
+  const attempt = job.retryCount + 1;
+  const error = result.needsAuth
+    ? `Authentication required: ${result.error}`
+    : result.error || 'Unknown error';
+  const transient = isTransientError(result);
+
+  recordAttempt(jobId, attempt, error, transient);
+
+  if (transient && attempt <= MAX_RETRIES) {
+    const nextAttemptAt = new Date(Date.now() + getRetryDelay(attempt));
+    console.log(
+      `[Scheduler] Job ${jobId} failed (attempt ${attempt}): ${error}. Retrying at ${nextAttemptAt.toISOString()}`
+    );
+    rescheduleFailedJob(jobId, error, nextAttemptAt);
+    return;
+  }
+
+  const reason = transient ? `Max retries exceeded: ${error}` : error;
+  console.log(`[Scheduler] Job ${jobId} failed: ${reason}`);
+  failJob(jobId, reason);
+  continueSeries(job);
+
+  if (job.campaignId) {
+    await finishCampaign(job.campaignId);
+  } else if (result.needsAuth) {
+    await notifyJobNeedsAuth(job);
+  } else {
+    await notifyJobFailed(job, reason);
+  }
+}
+
+/**
+ * Run one due job and record its outcome
+ */
+async function processJob(job: ScheduledJob): Promise<void> {
+  // Claimed first, so nothing else runs the same job at the same time
+  if (!startJob(job.id!)) {
+    console.log(`[Scheduler] Job ${job.id} was already picked up, skipping it`);
+    return;
   }
 
   try {
-    return JSON.parse(output) as SkillResult;
-  } catch {
-    return {
+    const result = await executeSkill(job);
+
+    const processingFor = job.processingSince ? Date.now() - job.processingSince.getTime() : 0;
+
+    if (result.success && result.processing && processingFor >= PROCESSING_TIMEOUT) {
+      // The platform never finished: stop polling and let the user decide
+      const minutes = Math.round(processingFor / 60000);
+      await handleFailure(job, {
+        success: false,
+        platform: job.platform,
+        action: job.action,
+        error: `Still processing after ${minutes} minutes; check ${job.platform} before retrying`,
+        retryable: false,
+      });
+    } else if (result.success && result.processing && result.publishId) {
+      const nextCheckAt = new Date(Date.now() + CHECK_INTERVAL);
+      console.log(`[Scheduler] Job ${job.id} is still being published, checking again at ${nextCheckAt.toISOString()}`);
+      markProcessing(job.id!, result.publishId, nextCheckAt);
+    } else if (result.success) {
+      console.log(`[Scheduler] Job ${job.id} completed successfully`);
+      completeJob(job.id!, result);
+      continueSeries(job);
+
+      if (job.campaignId) {
+        await finishCampaign(job.campaignId);
+      } else {
+        await notifyJobCompleted(job, result);
+
+        // Clean up the file and its variants (recurring posts reuse them)
+        if (job.filePath && !job.seriesId) {
+          await deleteMedia(job.filePath);
+        }
+      }
+    } else {
+      await handleFailure(job, result);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Error processing job ${job.id}:`, error);
+    await handleFailure(job, {
       success: false,
       platform: job.platform,
       action: job.action,
-      error: `Invalid JSON output: ${output}`,
-    };
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
 }
 
 /**
  * Process pending jobs
+ * A run still busy with a slow upload makes the next tick skip.
  */
 async function processJobs(): Promise<void> {
-  const jobs = getReadyJobs();
-
-  if (jobs.length === 0) {
+  if (running) {
+    console.log('[Scheduler] Previous run still in progress, skipping this check');
     return;
   }
 
-  console.log(`[Scheduler] Processing ${jobs.length} jobs`);
+  running = true;
+  try {
+    const jobs = getReadyJobs();
 
-  for (const job of jobs) {
-    // Check retry count
-    if (job.retryCount >= MAX_RETRIES) {
-      console.log(`[Scheduler] Job ${job.id} exceeded max retries, marking as failed`);
-      failJob(job.id, 'Max retries exceeded');
-      continue;
+    if (jobs.length === 0) {
+      return;
     }
 
-    try {
-      const result = await executeSkill(job);
-
-      if (result.success) {
-        console.log(`[Scheduler] Job ${job.id} completed successfully`);
-        completeJob(job.id, result);
+    console.log(`[Scheduler] Processing ${jobs.length} jobs`);
 
-        // Clean up file if it exists
-        if (job.filePath) {
-          await unlink(job.filePath).catch(() => {
-            // File may already be deleted
-          });
-        }
-      } else if (result.needsAuth) {
-        // Auth errors shouldn't count as retries
-        console.log(`[Scheduler] Job ${job.id} needs authentication`);
-        failJob(job.id, `Authentication required: ${result.error}`);
-      } else {
-        console.log(`[Scheduler] Job ${job.id} failed: ${result.error}`);
-        failJob(job.id, result.error || 'Unknown error');
-      }
-    } catch (error) {
-      console.error(`[Scheduler] Error processing job ${job.id}:`, error);
-      failJob(job.id, error instanceof Error ? error.message : 'Unknown error');
+    for (const job of jobs) {
+      await processJob(job);
     }
+  } finally {
+    running = false;
   }
 }
 
@@ -117,6 +253,12 @@ async function runCleanup(): Promise<void> {
   console.log('[Scheduler] Running cleanup...');
   const deleted = cleanup(RETENTION_DAYS);
   console.log(`[Scheduler] Cleaned up ${deleted} old posts`);
+
+  const expiredLinks = deleteExpiredMediaLinks();
+  console.log(`[Scheduler] Removed ${expiredLinks} expired media links`);
+
+  const staleUploads = deleteOldUploadSessions(UPLOAD_SESSION_DAYS);
+  console.log(`[Scheduler] Removed ${staleUploads} stale upload sessions`);
 }
 
 /**
@@ -126,6 +268,22 @@ async function startScheduler(): Promise<void> {
   console.log('[Scheduler] Starting...');
   console.log(`[Scheduler] Check interval: ${CHECK_INTERVAL}ms`);
   console.log(`[Scheduler] Max retries: ${MAX_RETRIES}`);
+  console.log(`[Scheduler] Processing timeout: ${PROCESSING_TIMEOUT}ms`);
+
+  // Jobs left running by a scheduler that stopped mid-upload
+  const { requeued, interrupted } = requeueInterruptedJobs();
+  if (requeued > 0) {
+    console.log(`[Scheduler] Requeued ${requeued} interrupted jobs`);
+  }
+  for (const job of interrupted) {
+    await handleFailure(job, {
+      success: false,
+      platform: job.platform,
+      action: job.action,
+      error: `Interrupted by a restart; check ${job.platform} before retrying`,
+      retryable: false,
+    });
+  }
 
   // Print initial stats
   const stats = getStats();
@@ -0,0 +1,207 @@
+/**
+ * Telegram notifications about scheduled job outcomes
+ *
+ * The scheduler runs in its own process, so it talks to the Bot API directly
+ * instead of going through the relay. Messages go to the chat that created
+ * the job, or to the owner (TELEGRAM_USER_ID) when the job has none. The
+ * Retry button is handled by the relay (job:retry:<id>). Campaign jobs are
+ * reported together in one summary. Long uploads report their progress by
+ * editing a single status message.
+ */
+
+import { Api, InlineKeyboard } from 'grammy';
+import { formatCampaignSummary } from '../campaigns/campaigns.js';
+import { getAuthPlatform } from '../platforms/registry.js';
+import type {
+  ScheduledJob,
+  SkillResult,
+  CampaignSummary,
+  UploadProgress,
+  UploadProgressCallback,
+} from '../platforms/types.js';
+
+const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || '';
+const OWNER_CHAT_ID = process.env.TELEGRAM_USER_ID || '';
+const API_ROOT = process.env.TELEGRAM_API_ROOT || 'https://api.telegram.org';
+
+// Telegram limits how often a message can be edited
+const PROGRESS_INTERVAL_MS = 3000;
+
+const api = BOT_TOKEN ? new Api(BOT_TOKEN, { apiRoot: API_ROOT.replace(/\/+$/, '') }) : null;
+
+function getChatId(chatId?: number): number | string | null {
+  return chatId ?? (OWNER_CHAT_ID || null);
+}
+
+function describeJob(job: ScheduledJob): string {
+  return `Job #${job.id} (${job.platform} ${job.action})`;
+}
+
+async function send(target: { chatId?: number }, text: string, keyboard?: InlineKeyboard): Promise<void> {
+  const chatId = getChatId(target.chatId);
+  if (!api || !chatId) return;
+
+  try {
+    await api.sendMessage(chatId, text, keyboard ? { reply_markup: keyboard } : undefined);
+  } catch (error) {
+    console.error(`[Scheduler] Could not notify chat ${chatId}:`, error);
+  }
+}
+
+function retryKeyboard(job: ScheduledJob): InlineKeyboard {
+  return new InlineKeyboard().text('🔁 Retry', `job:retry:${job.id}`);
+}
+
+/**
+ * Tell the user a scheduled post was published
+ */
+export async function notifyJobCompleted(job: ScheduledJob, result: SkillResult): Promise<void> {
+  let text = `✅ ${describeJob(job)} published`;
+  if (result.url) text += `\n🔗 ${result.url}`;
+  if (result.message) text += `\n📝 ${result.message}`;
+  await send(job, text);
+}
+
+/**
+ * Tell the user a scheduled post failed for good
+ */
+export async function notifyJobFailed(job: ScheduledJob, error: string): Promise<void> {
+  await send(job, `❌ ${describeJob(job)} failed\n\n${error}`, retryKeyboard(job));
+}
+
+/**
+ * Ask the user to re-authenticate before retrying a job
+ */
+export async function notifyJobNeedsAuth(job: ScheduledJob): Promise<void> {
+  const platform = getAuthPlatform(job.platform);
+  await send(
+    job,
+    `⚠️ ${describeJob(job)} needs authentication.\n\nRun /auth ${platform}, then press Retry.`,
+    retryKeyboard(job)
+  );
+}
+
+/**
+ * Send one summary for all platforms of a campaign
+ * Failed platforms get their own Retry button.
+ */
+export async function notifyCampaignFinished(summary: CampaignSummary): Promise<void> {
+  const failed = summary.jobs.filter((job) => job.status === 'failed');
+
+  let text = formatCampaignSummary(summary);
+  const authPlatforms = new Set(
+    failed
+      .filter((job) => job.errorMessage?.startsWith('Authentication required'))
+      .map((job) => getAuthPlatform(job.platform))
+  );
+  if (authPlatforms.size > 0) {
+    text += `\n\n⚠️ Run ${[...authPlatforms].map((platform) => `/auth ${platform}`).join(', ')}, then press Retry.`;
+  }
+
+  let keyboard: InlineKeyboard | undefined;
+  if (failed.length > 0) {
+    keyboard = new InlineKeyboard();
+    for (const job of failed) {
+      keyboard.text(`🔁 Retry ${job.platform}`, `job:retry:${job.id}`).row();
+    }
+  }
+
+  await send(summary.campaign, text, keyboard);
+}
+
+export interface UploadProgressReporter {
+  onProgress: UploadProgressCallback;
+  // Final edit of the status message (nothing is sent if no progress was reported)
+  finish: (success: boolean) => Promise<void>;
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function getPercent(progress: UploadProgress): number {
+  return progress.totalBytes > 0 ? Math.floor((progress.bytesSent / progress.totalBytes) * 100) : 100;
+}
+
+/**
+ * Report upload progress in one Telegram message (percent done and ETA)
+ *
+ * The message is sent on the first progress report and then edited at most
+ * every few seconds. The ETA only counts bytes sent by this attempt, so a
+ * resumed upload does not look faster than it is.
+ */
+export function createUploadProgress(target: { chatId?: number }, label: string): UploadProgressReporter {
+  const chatId = getChatId(target.chatId);
+  let messageId: number | undefined;
+  let queue: Promise<void> = Promise.resolve();
+  let lastEdit = 0;
+  let first: { time: number; bytes: number; converting: boolean } | undefined;
+  let last: UploadProgress | undefined;
+
+  const show = (text: string): void => {
+    if (!api || !chatId) return;
+
+    // Edits run one after another so they never arrive out of order
+    queue = queue.then(async () => {
+      try {
+        if (messageId === undefined) {
+          messageId = (await api.sendMessage(chatId, text)).message_id;
+        } else {
+          await api.editMessageText(chatId, messageId, text);
+        }
+      } catch (error) {
+        console.error(`[Upload] Could not update progress in chat ${chatId}:`, error);
+      }
+    });
+  };
+
+  return {
+    onProgress: (progress) => {
+      const now = Date.now();
+      const converting = !!progress.converting;
+      // Converting and uploading get their own ETA
+      if (first?.converting !== converting) {
+        first = { time: now, bytes: progress.bytesSent, converting };
+      }
+      last = progress;
+
+      if (now - lastEdit < PROGRESS_INTERVAL_MS && progress.bytesSent < progress.totalBytes) return;
+      lastEdit = now;
+
+      const sent = progress.bytesSent - first.bytes;
+      const elapsed = now - first.time;
+      const eta =
+        sent > 0 && elapsed > 0
+          ? formatDuration(((progress.totalBytes - progress.bytesSent) / sent) * elapsed)
+          : 'calculating...';
+
+      show(
+        converting
+          ? `🎞️ Converting ${label}: ${getPercent(progress)}%, ETA ${eta}`
+          : `⬆️ Uploading ${label}: ${getPercent(progress)}%\n` +
+              `${formatBytes(progress.bytesSent)} of ${formatBytes(progress.totalBytes)}, ETA ${eta}`
+      );
+    },
+
+    finish: async (success) => {
+      if (last?.converting) {
+        show(success ? `✅ Uploaded ${label}` : `⚠️ Upload of ${label} failed`);
+      } else if (last) {
+        show(
+          success
+            ? `✅ Uploaded ${label} (${formatBytes(last.totalBytes)})`
+            : `⚠️ Upload of ${label} stopped at ${getPercent(last)}%, a retry resumes from there`
+        );
+      }
+      await queue;
+    },
+  };
+}
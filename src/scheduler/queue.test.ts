@@ -0,0 +1,166 @@
+/**
+ * Workspace scoping, job claims and restarts, and series limits of the queue
+ *
+ * Run with: bun test
+ */
+
+import { expect, test } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  addJob,
+  addSeries,
+  cancel,
+  deleteSeries,
+  getJob,
+  getSeries,
+  getStats,
+  markProcessing,
+  pauseSeries,
+  requeueInterruptedJobs,
+  resumeSeries,
+  retry,
+  scheduleNextOccurrence,
+  startJob,
+} from './queue.js';
+import { saveUploadSession } from '../storage/db.js';
+
+const TOMORROW = new Date(Date.now() + 86_400_000).toISOString();
+
+function queueUpdate(workspaceId?: number): Promise<number> {
+  return addJob({
+    platform: 'youtube',
+    action: 'update',
+    content: { title: 'Tides' },
+    scheduledAt: TOMORROW,
+    workspaceId,
+  });
+}
+
+test('jobs can only be cancelled and retried from their own workspace', async () => {
+  const ours = await queueUpdate(1);
+  const theirs = await queueUpdate(2);
+
+  expect(cancel(theirs, 1)).toBe(false);
+  expect(getJob(theirs)!.status).toBe('pending');
+  expect(cancel(ours, 1)).toBe(true);
+  expect(getJob(ours)!.status).toBe('failed');
+
+  expect(retry(ours, 2)).toBe(false);
+  expect(retry(ours, 1)).toBe(true);
+  expect(getJob(ours)!.status).toBe('pending');
+
+  // Without a workspace every job is in reach
+  expect(cancel(theirs)).toBe(true);
+});
+
+test('queue statistics only count the jobs of the workspace', async () => {
+  const before = getStats(3);
+  await queueUpdate(3);
+  await queueUpdate(4);
+
+  expect(getStats(3)).toEqual({ ...before, total: before.total + 1, pending: before.pending + 1 });
+});
+
+test('a job is only claimed once', async () => {
+  const id = await queueUpdate();
+
+  expect(startJob(id)).toBe(true);
+  expect(startJob(id)).toBe(false);
+  expect(getJob(id)!.status).toBe('processing');
+  expect(cancel(id)).toBe(false);
+});
+
+test('a restart only requeues jobs that cannot post twice', async () => {
+  // Nothing tells whether this one went out
+  const update = await queueUpdate();
+
+  // Resumes its upload session
+  const video = join(process.env.RELAY_DIR!, 'uploads', 'tides.mp4');
+  writeFileSync(video, 'video');
+  const upload = await addJob({
+    platform: 'youtube',
+    action: 'upload',
+    content: { title: 'Tides' },
+    scheduledAt: TOMORROW,
+    filePath: video,
+  });
+  saveUploadSession({ platform: 'youtube', filePath: video, fileSize: 5, sessionUri: 'https://upload.example/tides' });
+
+  // Already sent, only polls TikTok for the result
+  const clip = join(process.env.RELAY_DIR!, 'uploads', 'clip.mp4');
+  writeFileSync(clip, 'video');
+  const polled = await addJob({
+    platform: 'tiktok',
+    action: 'upload',
+    content: { title: 'Clip' },
+    scheduledAt: TOMORROW,
+    filePath: clip,
+  });
+  markProcessing(polled, 'v_pub_1', new Date());
+
+  for (const id of [update, upload, polled]) expect(startJob(id)).toBe(true);
+
+  const { requeued, interrupted } = requeueInterruptedJobs();
+  const left = interrupted.map((job) => job.id);
+  expect(requeued).toBe(2);
+  expect(left).toContain(update);
+  expect(left).not.toContain(upload);
+  expect(left).not.toContain(polled);
+  expect(getJob(upload)!.status).toBe('pending');
+  expect(getJob(polled)!.status).toBe('pending');
+  expect(getJob(update)!.status).toBe('processing');
+});
+test('series can only be paused, resumed and deleted from their own workspace', () => {
+  const { series } = addSeries({
+    platform: 'youtube',
+    action: 'update',
+    content: { title: 'Weekly tides' },
+    rule: '0 9 * * 1',
+    timezone: 'UTC',
+    workspaceId: 1,
+  });
+
+  expect(pauseSeries(series.id, 2)).toBe(false);
+  expect(pauseSeries(series.id, 1)).toBe(true);
+  expect(resumeSeries(series.id, 2)).toBe(false);
+  expect(resumeSeries(series.id, 1)).toBe(true);
+
+  expect(deleteSeries(series.id, 2)).toBe(false);
+  expect(deleteSeries(series.id, 1)).toBe(true);
+  expect(getSeries(series.id)).toBeNull();
+});
+
+test('a series ends once it queued its maximum number of occurrences', () => {
+  const { series, jobId } = addSeries({
+    platform: 'youtube',
+    action: 'update',
+    content: { title: 'Daily tides' },
+    rule: '0 9 * * *',
+    timezone: 'UTC',
+    maxCount: 2,
+  });
+  expect(series.occurrences).toBe(1);
+
+  const first = getJob(jobId!)!;
+  const second = scheduleNextOccurrence(series.id, first.scheduledAt);
+  expect(getJob(second!)!.scheduledAt.getTime() - first.scheduledAt.getTime()).toBe(86_400_000);
+
+  expect(scheduleNextOccurrence(series.id, getJob(second!)!.scheduledAt)).toBeNull();
+  expect(getSeries(series.id)).toMatchObject({ status: 'ended', occurrences: 2 });
+});
+
+test('an RRULE COUNT lower than maxCount limits the series', () => {
+  const { series } = addSeries({
+    platform: 'youtube',
+    action: 'update',
+    content: { title: 'Once' },
+    rule: 'FREQ=DAILY;COUNT=1;BYHOUR=9;BYMINUTE=0',
+    timezone: 'UTC',
+    maxCount: 5,
+  });
+
+  expect(series.maxCount).toBe(1);
+  expect(scheduleNextOccurrence(series.id)).toBeNull();
+  expect(getSeries(series.id)!.status).toBe('ended');
+});
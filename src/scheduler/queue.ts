@@ -11,14 +11,45 @@ import {
   markFailed,
   cancelJob,
   retryJob,
+  rescheduleJob,
+  claimJob,
+  releaseClaimedJob,
+  setJobPublishId,
+  addJobAttempt,
+  getJobAttempts,
+  listUploadSessions,
   deleteOldPosts,
+  addSeriesRow,
+  getSeriesById,
+  listSeriesRows,
+  setSeriesStatus,
+  incrementSeriesOccurrences,
+  deleteSeriesRow,
+  cancelSeriesJobs,
 } from '../storage/db.js';
-import type { QueueAddRequest, ScheduledJob, QueueListOptions } from '../platforms/types.js';
+import { parseRecurrence, getNextOccurrence, describeRecurrence } from './recurrence.js';
+import { getDefaultTimezone } from './timezone.js';
+import { assertValidContent } from '../validation/validation.js';
+import { getPlatform } from '../platforms/registry.js';
+import { isMediaOf } from '../media/transcode.js';
+import { isInWorkspace } from '../workspaces/workspaces.js';
+import type {
+  QueueAddRequest,
+  ScheduledJob,
+  QueueListOptions,
+  JobAttempt,
+  RecurringSeries,
+  SeriesAddRequest,
+  SeriesStatus,
+} from '../platforms/types.js';
 
 /**
  * Add a job to the queue
+ * Throws a ContentValidationError when the content breaks the platform rules.
  */
-export function addJob(request: QueueAddRequest): number {
+export async function addJob(request: QueueAddRequest): Promise<number> {
+  await assertValidContent(request.platform, request.action, request.content || {}, request.filePath);
+
   const scheduledAt = request.scheduledAt ? new Date(request.scheduledAt) : new Date();
 
   return addPost(
@@ -26,10 +57,24 @@ export function addJob(request: QueueAddRequest): number {
     request.action,
     JSON.stringify(request.content),
     scheduledAt,
-    request.filePath
+    request.filePath,
+    { workspaceId: request.workspaceId, chatId: request.chatId }
   );
 }
 
+/**
+ * Queue a post the platform is still publishing, so the scheduler polls its
+ * status with the publish ID and reports the outcome like a scheduled job
+ */
+export function trackPublishing(request: Omit<QueueAddRequest, 'scheduledAt'>, publishId: string): number {
+  const id = addPost(request.platform, request.action, JSON.stringify(request.content), new Date(), request.filePath, {
+    workspaceId: request.workspaceId,
+    chatId: request.chatId,
+  });
+  setJobPublishId(id, publishId, new Date());
+  return id;
+}
+
 /**
  * Get pending jobs that are ready to execute
  */
@@ -51,6 +96,51 @@ export function listQueue(options?: QueueListOptions): ScheduledJob[] {
   return listJobs(options);
 }
 
+/**
+ * Claim a due job before running it, so an overlapping run never picks it up
+ * Returns false when it was already claimed, cancelled or run.
+ */
+export function startJob(id: number): boolean {
+  return claimJob(id);
+}
+
+/**
+ * Check if a job a restart interrupted can run again without posting twice:
+ * it only polls the platform for a publish ID, or its upload continues from
+ * the upload session the platform keeps
+ */
+function canResume(job: ScheduledJob): boolean {
+  const adapter = getPlatform(job.platform);
+  if (!adapter) return false;
+  if (job.publishId && adapter.statusAction) return true;
+
+  const filePath = job.filePath;
+  return (
+    !!adapter.resumableUploads &&
+    !!filePath &&
+    listUploadSessions(job.platform).some((session) => isMediaOf(session.filePath, filePath))
+  );
+}
+
+/**
+ * Requeue the jobs a stopped scheduler left running that can resume
+ * Returns the others: they may have been published, so they are not run again.
+ */
+export function requeueInterruptedJobs(): { requeued: number; interrupted: ScheduledJob[] } {
+  let requeued = 0;
+  const interrupted: ScheduledJob[] = [];
+
+  for (const job of listJobs({ status: 'processing' })) {
+    if (!canResume(job)) {
+      interrupted.push(job);
+    } else if (releaseClaimedJob(job.id!)) {
+      requeued++;
+    }
+  }
+
+  return { requeued, interrupted };
+}
+
 /**
  * Mark a job as completed
  */
@@ -65,18 +155,51 @@ export function failJob(id: number, error: string): void {
   markFailed(id, error);
 }
 
+/**
+ * Keep a job pending and try it again at a later time
+ */
+export function rescheduleFailedJob(id: number, error: string, nextAttemptAt: Date): void {
+  rescheduleJob(id, error, nextAttemptAt);
+}
+
+/**
+ * Keep a job pending while the platform finishes publishing it
+ * The scheduler polls its status with the publish ID from nextCheckAt on.
+ */
+export function markProcessing(id: number, publishId: string, nextCheckAt: Date): void {
+  setJobPublishId(id, publishId, nextCheckAt);
+}
+
+/**
+ * Record the error of a failed attempt
+ */
+export function recordAttempt(id: number, attempt: number, error: string, transient: boolean): void {
+  addJobAttempt(id, attempt, error, transient);
+}
+
+/**
+ * Get the failed attempts of a job
+ */
+export function getAttempts(id: number): JobAttempt[] {
+  return getJobAttempts(id);
+}
+
 /**
  * Cancel a pending job
+ * Jobs of another workspace than the given one are left alone (returns false).
  */
-export function cancel(id: number): boolean {
-  return cancelJob(id);
+export function cancel(id: number, workspaceId?: number): boolean {
+  const job = getJobById(id);
+  return !!job && isInWorkspace(job, workspaceId) && cancelJob(id);
 }
 
 /**
  * Retry a failed job
+ * Jobs of another workspace than the given one are left alone (returns false).
  */
-export function retry(id: number): boolean {
-  return retryJob(id);
+export function retry(id: number, workspaceId?: number): boolean {
+  const job = getJobById(id);
+  return !!job && isInWorkspace(job, workspaceId) && retryJob(id);
 }
 
 /**
@@ -87,19 +210,155 @@ export function cleanup(days: number): number {
 }
 
 /**
- * Get queue statistics
+ * Get queue statistics (for one workspace, or all jobs)
  */
-export function getStats(): {
+export function getStats(workspaceId?: number): {
   total: number;
   pending: number;
+  processing: number;
   completed: number;
   failed: number;
 } {
-  const all = listJobs();
+  const all = listJobs({ workspaceId });
   return {
     total: all.length,
     pending: all.filter((j) => j.status === 'pending').length,
+    processing: all.filter((j) => j.status === 'processing').length,
     completed: all.filter((j) => j.status === 'completed').length,
     failed: all.filter((j) => j.status === 'failed').length,
   };
 }
+
+// ============================================================================
+// RECURRING SERIES
+// ============================================================================
+
+/**
+ * Create a recurring series and queue its first occurrence
+ */
+export function addSeries(request: SeriesAddRequest): { series: RecurringSeries; jobId: number | null } {
+  const timezone = request.timezone || getDefaultTimezone();
+  const startsAt = request.startAt ? new Date(request.startAt) : new Date();
+  if (isNaN(startsAt.getTime())) throw new Error(`Invalid startAt: ${request.startAt}`);
+
+  // RRULE COUNT and UNTIL tighten the explicit limits
+  const recurrence = parseRecurrence(request.rule, startsAt, timezone);
+  const endAt = request.endAt ? new Date(request.endAt) : undefined;
+  const endsAt =
+    endAt && recurrence.until ? (endAt < recurrence.until ? endAt : recurrence.until) : endAt || recurrence.until;
+  const maxCount =
+    request.maxCount && recurrence.count
+      ? Math.min(request.maxCount, recurrence.count)
+      : request.maxCount || recurrence.count;
+
+  const id = addSeriesRow({
+    platform: request.platform,
+    action: request.action,
+    contentJson: JSON.stringify(request.content),
+    filePath: request.filePath,
+    rule: request.rule,
+    timezone,
+    startsAt,
+    endsAt,
+    maxCount,
+    workspaceId: request.workspaceId,
+    chatId: request.chatId,
+  });
+
+  const jobId = scheduleNextOccurrence(id);
+  return { series: getSeriesById(id)!, jobId };
+}
+
+/**
+ * Queue the next occurrence of a series
+ * Ends the series when it has reached its end date or occurrence count.
+ * Returns the new job ID, or null if nothing was queued.
+ */
+export function scheduleNextOccurrence(seriesId: number, after: Date = new Date()): number | null {
+  const series = getSeriesById(seriesId);
+  if (!series || series.status !== 'active') return null;
+
+  const recurrence = parseRecurrence(series.rule, series.startsAt, series.timezone);
+  // Occurrences never come before the start
+  const from = after > series.startsAt ? after : new Date(series.startsAt.getTime() - 1);
+  const next = getNextOccurrence(recurrence, from, series.timezone);
+
+  const limitReached = series.maxCount !== undefined && series.occurrences >= series.maxCount;
+  if (!next || limitReached || (series.endsAt && next > series.endsAt)) {
+    setSeriesStatus(seriesId, 'active', 'ended');
+    return null;
+  }
+
+  const jobId = addPost(series.platform, series.action, series.contentJson, next, series.filePath, {
+    workspaceId: series.workspaceId,
+    chatId: series.chatId,
+    seriesId,
+  });
+  incrementSeriesOccurrences(seriesId);
+  return jobId;
+}
+
+/**
+ * Get a series by ID
+ */
+export function getSeries(id: number): RecurringSeries | null {
+  return getSeriesById(id);
+}
+
+/**
+ * List series with optional filtering
+ */
+export function listSeries(options?: { status?: SeriesStatus; workspaceId?: number }): RecurringSeries[] {
+  return listSeriesRows(options);
+}
+
+function isSeriesInWorkspace(id: number, workspaceId?: number): boolean {
+  const series = getSeriesById(id);
+  return !!series && isInWorkspace(series, workspaceId);
+}
+
+/**
+ * Pause a series and cancel its pending occurrence
+ * Series of another workspace than the given one are left alone, as in resumeSeries and deleteSeries.
+ */
+export function pauseSeries(id: number, workspaceId?: number): boolean {
+  if (!isSeriesInWorkspace(id, workspaceId)) return false;
+  if (!setSeriesStatus(id, 'active', 'paused')) return false;
+  cancelSeriesJobs(id);
+  return true;
+}
+
+/**
+ * Resume a paused series from the next occurrence after now
+ */
+export function resumeSeries(id: number, workspaceId?: number): boolean {
+  if (!isSeriesInWorkspace(id, workspaceId)) return false;
+  if (!setSeriesStatus(id, 'paused', 'active')) return false;
+  scheduleNextOccurrence(id);
+  return true;
+}
+
+/**
+ * Delete a series and cancel its pending occurrence
+ * Past occurrences stay in the queue history.
+ */
+export function deleteSeries(id: number, workspaceId?: number): boolean {
+  if (!isSeriesInWorkspace(id, workspaceId)) return false;
+  cancelSeriesJobs(id);
+  return deleteSeriesRow(id);
+}
+
+/**
+ * Format series as a readable list
+ */
+export function formatSeriesList(series: RecurringSeries[]): string {
+  if (series.length === 0) return 'No recurring posts';
+
+  return series
+    .map((item) => {
+      const limit = item.maxCount ? `${item.occurrences}/${item.maxCount}` : `${item.occurrences}`;
+      const ends = item.endsAt ? `, ends ${item.endsAt.toISOString()}` : '';
+      return `#${item.id} ${item.platform} ${item.action} [${item.status}]\n  ${describeRecurrence(item.rule, item.timezone)}, ${limit} queued${ends}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,57 @@
+/**
+ * Next occurrences of cron expressions and RRULEs
+ *
+ * Run with: bun test
+ */
+
+import { expect, test } from 'bun:test';
+import { getNextOccurrence, isRRule, parseRecurrence } from './recurrence.js';
+
+// A Monday
+const START = new Date('2026-10-19T10:00:00Z');
+
+function next(rule: string, after: Date, timezone = 'UTC'): string | undefined {
+  return getNextOccurrence(parseRecurrence(rule, START, timezone), after, timezone)?.toISOString();
+}
+
+test('a cron expression finds the next matching time strictly after', () => {
+  expect(next('0 9 * * 1', START)).toBe('2026-10-26T09:00:00.000Z');
+  expect(next('0 9 * * 1', new Date('2026-10-19T08:59:00Z'))).toBe('2026-10-19T09:00:00.000Z');
+  expect(next('0 9 * * 1', new Date('2026-10-19T09:00:00Z'))).toBe('2026-10-26T09:00:00.000Z');
+  expect(next('*/15 * * * *', START)).toBe('2026-10-19T10:15:00.000Z');
+});
+
+test('occurrences follow the wall clock of the series timezone', () => {
+  expect(next('0 9 * * *', new Date('2026-07-01T00:00:00Z'), 'Europe/Berlin')).toBe('2026-07-01T07:00:00.000Z');
+  expect(next('0 9 * * *', new Date('2026-01-10T00:00:00Z'), 'Europe/Berlin')).toBe('2026-01-10T08:00:00.000Z');
+});
+
+test('RRULEs handle intervals and last weekdays of the month', () => {
+  const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;BYHOUR=9;BYMINUTE=0';
+  const recurrence = parseRecurrence(rule, START, 'UTC');
+  const dates: string[] = [];
+  let after = START;
+  for (let i = 0; i < 3; i++) {
+    after = getNextOccurrence(recurrence, after, 'UTC')!;
+    dates.push(after.toISOString());
+  }
+  expect(dates).toEqual(['2026-11-02T09:00:00.000Z', '2026-11-16T09:00:00.000Z', '2026-11-30T09:00:00.000Z']);
+
+  expect(next('FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=17;BYMINUTE=0', START)).toBe('2026-10-30T17:00:00.000Z');
+});
+
+test('RRULE COUNT and UNTIL are passed on as series limits', () => {
+  const recurrence = parseRecurrence('RRULE:FREQ=DAILY;COUNT=5;UNTIL=20261231', START, 'UTC');
+  expect(recurrence.count).toBe(5);
+  expect(recurrence.until?.toISOString()).toBe('2026-12-31T23:59:59.000Z');
+});
+
+test('rules without a next occurrence and invalid rules', () => {
+  expect(next('0 9 31 2 *', START)).toBeUndefined();
+
+  expect(isRRule('FREQ=DAILY')).toBe(true);
+  expect(isRRule('0 9 * * 1')).toBe(false);
+  expect(() => parseRecurrence('0 9 * *', START, 'UTC')).toThrow('5 fields');
+  expect(() => parseRecurrence('0 25 * * *', START, 'UTC')).toThrow('out of range');
+  expect(() => parseRecurrence('FREQ=HOURLY', START, 'UTC')).toThrow('Unsupported RRULE FREQ');
+});
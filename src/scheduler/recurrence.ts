@@ -0,0 +1,290 @@
+/**
+ * Recurrence rules for recurring posts
+ *
+ * A series repeats on either a 5-field cron expression ("0 9 * * 1") or an
+ * iCal RRULE ("FREQ=WEEKLY;BYDAY=MO;BYHOUR=9;BYMINUTE=0"). Both are evaluated
+ * in the series timezone. Supported RRULE parts: FREQ (DAILY, WEEKLY,
+ * MONTHLY, YEARLY), INTERVAL, BYDAY (with ordinals for monthly/yearly rules),
+ * BYMONTHDAY, BYMONTH, BYHOUR, BYMINUTE, COUNT and UNTIL.
+ */
+
+import { getZonedParts, zonedTimeToDate } from './timezone.js';
+
+// How far ahead to look for the next occurrence
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const RRULE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+interface CalendarDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface Recurrence {
+  kind: 'cron' | 'rrule';
+  matchesDay: (day: CalendarDay) => boolean;
+  hours: number[];
+  minutes: number[];
+  count?: number; // RRULE COUNT
+  until?: Date; // RRULE UNTIL
+}
+
+// Days since 1970-01-01 (a Thursday)
+function dayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / 86_400_000);
+}
+
+// Weeks since 1969-12-29, weeks start on Monday
+function weekNumber(year: number, month: number, day: number): number {
+  return Math.floor((dayNumber(year, month, day) + 3) / 7);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// ============================================================================
+// CRON
+// ============================================================================
+
+/**
+ * Parse one cron field into the sorted values it allows
+ */
+function parseCronField(field: string, min: number, max: number, names?: string[]): number[] {
+  const parseValue = (value: string): number => {
+    const index = names?.indexOf(value.toUpperCase()) ?? -1;
+    if (index !== -1) return index + min;
+    const number = parseInt(value, 10);
+    if (isNaN(number)) throw new Error(`Invalid cron value: ${value}`);
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr !== undefined ? parseInt(stepStr, 10) : 1;
+    if (!step || step < 1) throw new Error(`Invalid cron step: ${part}`);
+
+    let from = min;
+    let to = max;
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = parseValue(start);
+      to = end !== undefined ? parseValue(end) : stepStr !== undefined ? max : from;
+    }
+    if (from < min || to > max || from > to) throw new Error(`Cron value out of range: ${part}`);
+
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseCron(expression: string): Recurrence {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+  const minutes = parseCronField(minuteField, 0, 59);
+  const hours = parseCronField(hourField, 0, 23);
+  const daysOfMonth = parseCronField(domField, 1, 31);
+  const months = parseCronField(monthField, 1, 12, MONTH_NAMES);
+  // 7 is also Sunday
+  const weekdays = parseCronField(dowField, 0, 7, DAY_NAMES).map((day) => day % 7);
+
+  // Like cron, a day matches either field when both are restricted
+  const domRestricted = domField !== '*';
+  const dowRestricted = dowField !== '*';
+
+  return {
+    kind: 'cron',
+    hours,
+    minutes,
+    matchesDay: ({ month, day, weekday }) => {
+      if (!months.includes(month)) return false;
+      const domMatch = daysOfMonth.includes(day);
+      const dowMatch = weekdays.includes(weekday);
+      if (domRestricted && dowRestricted) return domMatch || dowMatch;
+      return domMatch && dowMatch;
+    },
+  };
+}
+
+// ============================================================================
+// RRULE
+// ============================================================================
+
+/**
+ * Parse an RRULE UNTIL value (20261231T090000Z or 20261231)
+ */
+function parseRRuleDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) throw new Error(`Invalid RRULE date: ${value}`);
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+function parseNumberList(value: string | undefined, min: number, max: number, key: string): number[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map((item) => {
+    const number = parseInt(item, 10);
+    if (isNaN(number) || Math.abs(number) < min || Math.abs(number) > max) {
+      throw new Error(`Invalid RRULE ${key}: ${item}`);
+    }
+    return number;
+  });
+}
+
+function parseRRule(rule: string, start: Date, timezone: string): Recurrence {
+  const parts: Record<string, string> = {};
+  for (const part of rule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const freq = parts.FREQ;
+  if (!RRULE_FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported RRULE FREQ: ${freq || '(missing)'}. Use ${RRULE_FREQUENCIES.join(', ')}`);
+  }
+
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+  if (!interval || interval < 1) throw new Error(`Invalid RRULE INTERVAL: ${parts.INTERVAL}`);
+
+  // BYDAY entries like MO, 1MO (first Monday) or -1FR (last Friday)
+  const byDay = parts.BYDAY?.split(',').map((item) => {
+    const match = item.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) throw new Error(`Invalid RRULE BYDAY: ${item}`);
+    return { ordinal: match[1] ? parseInt(match[1], 10) : 0, weekday: RRULE_DAYS.indexOf(match[2]) };
+  });
+  const byMonthDay = parseNumberList(parts.BYMONTHDAY, 1, 31, 'BYMONTHDAY');
+  const byMonth = parseNumberList(parts.BYMONTH, 1, 12, 'BYMONTH');
+  const byHour = parseNumberList(parts.BYHOUR, 0, 23, 'BYHOUR');
+  const byMinute = parseNumberList(parts.BYMINUTE, 0, 59, 'BYMINUTE');
+
+  const first = getZonedParts(start, timezone);
+  const firstDay = dayNumber(first.year, first.month, first.day);
+
+  const matchesMonthDay = ({ year, month, day, weekday }: CalendarDay, defaultDay: number): boolean => {
+    if (byMonthDay) {
+      const lastDay = daysInMonth(year, month);
+      return byMonthDay.some((d) => (d > 0 ? d === day : lastDay + d + 1 === day));
+    }
+    if (byDay) {
+      const occurrence = Math.ceil(day / 7);
+      const fromEnd = Math.ceil((daysInMonth(year, month) - day + 1) / 7);
+      return byDay.some(
+        (d) =>
+          d.weekday === weekday &&
+          (d.ordinal === 0 || d.ordinal === occurrence || d.ordinal === -fromEnd)
+      );
+    }
+    return day === defaultDay;
+  };
+
+  const matchesDay = (date: CalendarDay): boolean => {
+    const { year, month, day, weekday } = date;
+    if (dayNumber(year, month, day) < firstDay) return false;
+    if (byMonth && freq !== 'YEARLY' && !byMonth.includes(month)) return false;
+
+    switch (freq) {
+      case 'DAILY':
+        if ((dayNumber(year, month, day) - firstDay) % interval !== 0) return false;
+        if (byDay && !byDay.some((d) => d.weekday === weekday)) return false;
+        return !byMonthDay || matchesMonthDay(date, day);
+
+      case 'WEEKLY': {
+        const weeks = weekNumber(year, month, day) - weekNumber(first.year, first.month, first.day);
+        if (weeks % interval !== 0) return false;
+        return byDay ? byDay.some((d) => d.weekday === weekday) : weekday === first.weekday;
+      }
+
+      case 'MONTHLY': {
+        const months = year * 12 + month - (first.year * 12 + first.month);
+        if (months % interval !== 0) return false;
+        return matchesMonthDay(date, first.day);
+      }
+
+      default: {
+        // YEARLY
+        if ((year - first.year) % interval !== 0) return false;
+        if (!(byMonth || [first.month]).includes(month)) return false;
+        return matchesMonthDay(date, first.day);
+      }
+    }
+  };
+
+  return {
+    kind: 'rrule',
+    matchesDay,
+    hours: (byHour || [first.hour]).sort((a, b) => a - b),
+    minutes: (byMinute || [first.minute]).sort((a, b) => a - b),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseRRuleDate(parts.UNTIL) : undefined,
+  };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Check if a rule is an RRULE rather than a cron expression
+ */
+export function isRRule(rule: string): boolean {
+  return /(^RRULE:|FREQ=)/i.test(rule.trim());
+}
+
+/**
+ * Parse a cron expression or RRULE
+ * Throws with a readable message when the rule is invalid.
+ */
+export function parseRecurrence(rule: string, start: Date, timezone: string): Recurrence {
+  return isRRule(rule) ? parseRRule(rule, start, timezone) : parseCron(rule);
+}
+
+/**
+ * Find the first occurrence strictly after a time
+ * Returns null if there is none in the next five years.
+ */
+export function getNextOccurrence(
+  recurrence: Recurrence,
+  after: Date,
+  timezone: string
+): Date | null {
+  const from = getZonedParts(after, timezone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    // Date.UTC normalizes day overflow into the next month
+    const date = new Date(Date.UTC(from.year, from.month - 1, from.day + offset));
+    const day: CalendarDay = {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday: date.getUTCDay(),
+    };
+    if (!recurrence.matchesDay(day)) continue;
+
+    for (const hour of recurrence.hours) {
+      for (const minute of recurrence.minutes) {
+        const occurrence = zonedTimeToDate(day.year, day.month, day.day, hour, minute, timezone);
+        if (occurrence.getTime() > after.getTime()) return occurrence;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describe a rule for humans
+ */
+export function describeRecurrence(rule: string, timezone: string): string {
+  return `${isRRule(rule) ? 'RRULE' : 'cron'} "${rule}" (${timezone})`;
+}
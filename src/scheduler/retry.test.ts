@@ -0,0 +1,70 @@
+/**
+ * Backoff and the transient error check of scheduled jobs
+ *
+ * Run with: bun test
+ */
+
+import { expect, test } from 'bun:test';
+import { getRetryDelay, isTransientError } from './retry.js';
+import type { SkillResult } from '../platforms/types.js';
+
+function failure(error: string, extra?: Partial<SkillResult>): SkillResult {
+  return { success: false, platform: 'youtube', action: 'upload', error, ...extra };
+}
+
+test('the retry delay doubles, with up to half of it as jitter', () => {
+  for (let i = 0; i < 20; i++) {
+    const first = getRetryDelay(1);
+    expect(first).toBeGreaterThanOrEqual(30_000);
+    expect(first).toBeLessThanOrEqual(60_000);
+
+    const third = getRetryDelay(3);
+    expect(third).toBeGreaterThanOrEqual(120_000);
+    expect(third).toBeLessThanOrEqual(240_000);
+  }
+});
+
+test('the retry delay stops growing at RETRY_MAX_DELAY', () => {
+  for (let i = 0; i < 20; i++) {
+    const delay = getRetryDelay(30);
+    expect(delay).toBeGreaterThanOrEqual(1_800_000);
+    expect(delay).toBeLessThanOrEqual(3_600_000);
+  }
+});
+
+test('network errors, 5xx responses and rate limits are transient', () => {
+  for (const error of [
+    'Request failed with status code 503',
+    'HTTP 429',
+    'Backend Error',
+    'Bad Gateway',
+    'Service temporarily unavailable, try again later',
+    'User rate limit exceeded',
+    'Too many requests',
+    'read ECONNRESET',
+    'socket hang up',
+    'timeout of 30000ms exceeded',
+    'Network Error',
+  ]) {
+    expect(isTransientError(failure(error))).toBe(true);
+  }
+});
+
+test('permanent errors fail right away', () => {
+  for (const error of [
+    'Request failed with status code 400',
+    'The video is unavailable',
+    'Social network account not found',
+    'Invalid title: too long',
+    'Daily quota exceeded',
+    '',
+  ]) {
+    expect(isTransientError(failure(error))).toBe(false);
+  }
+});
+
+test('an expired login is never retried, an explicit retryable flag wins', () => {
+  expect(isTransientError(failure('status code 503', { needsAuth: true }))).toBe(false);
+  expect(isTransientError(failure('status code 503', { retryable: false }))).toBe(false);
+  expect(isTransientError(failure('Video still processing', { retryable: true }))).toBe(true);
+});
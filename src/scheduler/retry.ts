@@ -0,0 +1,44 @@
+/**
+ * Retry policy for scheduled jobs
+ *
+ * Transient failures (network errors, 5xx responses, rate limits) are retried
+ * with exponential backoff and jitter. Everything else, including bad
+ * requests and expired authentication, fails right away.
+ */
+
+import type { SkillResult } from '../platforms/types.js';
+
+const BASE_DELAY_MS = parseInt(process.env.RETRY_BASE_DELAY || '60000', 10);
+const MAX_DELAY_MS = parseInt(process.env.RETRY_MAX_DELAY || '3600000', 10);
+
+// Error messages worth another attempt. Kept specific: words like
+// "unavailable" alone also describe permanent errors ("video unavailable").
+const TRANSIENT_PATTERNS = [
+  /\b(status code|status|HTTP)\s*:?\s*(429|5\d\d)\b/i,
+  /backend error|internal (server )?error|bad gateway|service (temporarily )?unavailable|gateway time-?out/i,
+  /rate.?limit|too many requests|quota.*(second|minute)/i,
+  /ECONNRESET|ECONNREFUSED|ECONNABORTED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up/i,
+  /\bnetwork error\b|timeout of \d+ms exceeded|(request|connection|socket) timed out/i,
+  /temporarily unavailable|(try|retry)( your request)? (again )?later/i,
+];
+
+/**
+ * Check if a failed result is worth retrying
+ */
+export function isTransientError(result: SkillResult): boolean {
+  if (result.needsAuth) return false;
+  if (result.retryable !== undefined) return result.retryable;
+
+  const error = result.error || '';
+  return TRANSIENT_PATTERNS.some((pattern) => pattern.test(error));
+}
+
+/**
+ * Delay before the given retry (1 = first retry)
+ * Doubles each time up to RETRY_MAX_DELAY, with up to 50% random jitter so
+ * jobs that failed together do not all retry at the same moment.
+ */
+export function getRetryDelay(retry: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (retry - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
@@ -0,0 +1,102 @@
+/**
+ * Claude conversations per Telegram chat
+ *
+ * Every chat keeps its own Claude CLI sessions, separately for each workspace,
+ * so clients never share a context. New messages continue the active session
+ * until the chat starts a new one (/new), switches back to an older one
+ * (/sessions) or leaves it idle for longer than SESSION_IDLE_TIMEOUT; the
+ * next message then starts a fresh conversation. Old sessions stay listed
+ * and can still be resumed.
+ */
+
+import {
+  addClaudeSession,
+  getClaudeSessionById,
+  getActiveClaudeSession,
+  listClaudeSessionRows,
+  touchClaudeSession,
+  activateClaudeSession,
+  deactivateClaudeSessions,
+} from '../storage/db.js';
+import type { ClaudeSession, ClaudeUsage } from '../platforms/types.js';
+
+// Idle time in ms after which a session is no longer resumed (0 keeps sessions forever)
+const SESSION_IDLE_TIMEOUT_MS = parseInt(process.env.SESSION_IDLE_TIMEOUT || '86400000', 10);
+const LABEL_LENGTH = 40;
+const LIST_LIMIT = 10;
+
+function isExpired(session: ClaudeSession): boolean {
+  return SESSION_IDLE_TIMEOUT_MS > 0 && Date.now() - session.lastActivity.getTime() > SESSION_IDLE_TIMEOUT_MS;
+}
+
+/**
+ * Shorten a message to a one-line session label
+ */
+function toLabel(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim();
+  return text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1).trim()}…` : text || 'Conversation';
+}
+
+/**
+ * Get the session new messages of a chat continue
+ * Returns null (and deactivates the session) once it has been idle too long.
+ */
+export function getCurrentSession(chatId: number, workspaceId?: number): ClaudeSession | null {
+  const session = getActiveClaudeSession(chatId, workspaceId);
+  if (!session) return null;
+
+  if (isExpired(session)) {
+    console.log(`[Sessions] Session #${session.id} of chat ${chatId} expired after being idle`);
+    deactivateClaudeSessions(chatId, workspaceId);
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Record a Claude reply and its usage
+ * Continues the resumed session, or starts a new one labelled with the message.
+ */
+export function recordReply(
+  resumed: ClaudeSession | null,
+  chatId: number,
+  workspaceId: number | undefined,
+  sessionId: string,
+  message: string,
+  usage: ClaudeUsage
+): void {
+  if (resumed) {
+    touchClaudeSession(resumed.id, sessionId, usage);
+  } else {
+    addClaudeSession(chatId, workspaceId, sessionId, toLabel(message), usage);
+  }
+}
+
+/**
+ * Start a fresh conversation: the next message no longer resumes the active session
+ * Returns false when there was no active session.
+ */
+export function startNewSession(chatId: number, workspaceId?: number): boolean {
+  return deactivateClaudeSessions(chatId, workspaceId) > 0;
+}
+
+/**
+ * List the most recent sessions of a chat in a workspace
+ */
+export function listSessions(chatId: number, workspaceId?: number): ClaudeSession[] {
+  // Expire the active session first so it is not shown as current
+  getCurrentSession(chatId, workspaceId);
+  return listClaudeSessionRows(chatId, workspaceId, LIST_LIMIT);
+}
+
+/**
+ * Resume an older session of a chat
+ * Returns null when the session does not belong to the chat.
+ */
+export function resumeSession(id: number, chatId: number): ClaudeSession | null {
+  const session = getClaudeSessionById(id);
+  if (!session || session.chatId !== chatId) return null;
+
+  activateClaudeSession(id);
+  return getClaudeSessionById(id);
+}
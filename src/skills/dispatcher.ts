@@ -0,0 +1,175 @@
+/**
+ * In-process skill dispatcher
+ *
+ * Runs a skill action inside the calling process (relay, scheduler) instead
+ * of spawning `bun run src/skills/<skill>`, so SQLite and the API clients are
+ * only initialised once. Arguments go through JSON exactly like on the command
+ * line, so a skill behaves the same in both modes; in-process callers can
+ * add hooks such as upload progress through a SkillContext. Every call has a
+ * timeout, errors thrown by a skill come back as a failed SkillResult, and
+ * promise rejections a skill leaves unhandled are logged while it runs.
+ *
+ * The skill CLIs are thin wrappers around runSkillCli().
+ */
+
+import { prepareMedia } from '../media/transcode.js';
+import type { SkillResult, SkillContext } from '../platforms/types.js';
+
+const SKILL_TIMEOUT_MS = parseInt(process.env.SKILL_TIMEOUT || '600000', 10);
+
+// Skill modules are files in this directory exporting runSkill()
+const SKILL_FILE_PATTERN = /^([\w-]+)-skill\.ts$/;
+
+export type SkillHandler = (action: string, argsJson?: string, context?: SkillContext) => Promise<SkillResult>;
+
+interface SkillModule {
+  runSkill: SkillHandler;
+}
+
+// Calls in flight, named in the log of a rejection they left unhandled
+const running: string[] = [];
+
+function logUnhandledRejection(reason: unknown): void {
+  console.error(`[Skills] Unhandled rejection while running ${running.join(', ')}:`, reason);
+}
+
+/**
+ * Keep a rejection a skill left unhandled from ending the host process
+ * (skills used to run in their own process, where it only ended the skill).
+ * The listener is only attached while a call is in flight, so the host's own
+ * rejections behave as before.
+ */
+function trackCall(name: string): () => void {
+  if (running.length === 0) process.on('unhandledRejection', logUnhandledRejection);
+  running.push(name);
+
+  return () => {
+    running.splice(running.indexOf(name), 1);
+    if (running.length === 0) process.off('unhandledRejection', logUnhandledRejection);
+  };
+}
+
+function errorResult(skill: string, action: string, error: string): SkillResult {
+  const match = skill.match(SKILL_FILE_PATTERN);
+  return {
+    success: false,
+    platform: match ? match[1] : skill,
+    action: action || 'unknown',
+    error,
+  };
+}
+
+/**
+ * Load the handler of a skill file (e.g. youtube-skill.ts)
+ */
+async function loadSkill(skill: string): Promise<SkillHandler> {
+  if (!SKILL_FILE_PATTERN.test(skill)) {
+    throw new Error(`Invalid skill: ${skill}`);
+  }
+
+  const module = (await import(`./${skill}`)) as Partial<SkillModule>;
+  if (typeof module.runSkill !== 'function') {
+    throw new Error(`Skill ${skill} does not export runSkill()`);
+  }
+  return module.runSkill;
+}
+
+/**
+ * Run a skill action in-process
+ *
+ * Resolves with a failed result (never rejects) when the skill is unknown,
+ * throws, or does not finish within the timeout (SKILL_TIMEOUT by default,
+ * counted from the last progress report). On timeout the context's signal is
+ * aborted, which stops uploads at their next progress report and skills
+ * before they publish. The post may still have gone out, so a timeout is
+ * never retried automatically.
+ */
+export async function dispatchSkill(
+  skill: string,
+  action: string,
+  args: Record<string, unknown> | string = {},
+  options?: { timeoutMs?: number; context?: SkillContext }
+): Promise<SkillResult> {
+  const timeoutMs = options?.timeoutMs ?? SKILL_TIMEOUT_MS;
+  const argsJson = typeof args === 'string' ? args : JSON.stringify(args);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let finished = false;
+  const controller = new AbortController();
+  const release = trackCall(`${skill} ${action}`);
+
+  try {
+    const handler = await loadSkill(skill);
+
+    // Skills that report progress (uploads) only time out when they stall
+    let expire: (result: SkillResult) => void = () => {};
+    const arm = (): void => {
+      clearTimeout(timer);
+      if (finished) return;
+      timer = setTimeout(() => {
+        const error = `Skill ${skill} ${action} timed out after ${Math.round(timeoutMs / 1000)}s`;
+        controller.abort(new Error(error));
+        expire({
+          ...errorResult(skill, action, `${error}; it may have been published, check before retrying`),
+          retryable: false,
+        });
+      }, timeoutMs);
+    };
+    const timeout = new Promise<SkillResult>((resolve) => {
+      expire = resolve;
+      arm();
+    });
+
+    const context: SkillContext = {
+      ...options?.context,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        // Throwing here stops the upload or conversion reporting progress
+        controller.signal.throwIfAborted();
+        arm();
+        options?.context?.onProgress?.(progress);
+      },
+    };
+
+    const result = await Promise.race([handler(action, argsJson, context), timeout]);
+    if (!result || typeof result.success !== 'boolean') {
+      return errorResult(skill, action, `Skill ${skill} returned no result`);
+    }
+    return result;
+  } catch (error) {
+    console.error(`[Skills] ${skill} ${action} failed:`, error);
+    return errorResult(skill, action, error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    finished = true;
+    clearTimeout(timer);
+    release();
+  }
+}
+
+/**
+ * Convert the media of a publishing action to the platform's spec
+ * Throws once the dispatcher gave up on the call, so nothing is published
+ * after a timeout.
+ */
+export async function prepareSkillMedia<T extends object>(
+  platform: string,
+  action: string,
+  options: T,
+  context?: SkillContext
+): Promise<T> {
+  const prepared = await prepareMedia(platform, action, options, context?.onProgress);
+  context?.signal?.throwIfAborted();
+  return prepared;
+}
+
+/**
+ * Command line entry point of a skill
+ * Usage: bun run src/skills/<skill> <action> <args JSON>
+ */
+export async function runSkillCli(skill: string): Promise<void> {
+  const [action, argsJson = '{}'] = process.argv.slice(2);
+  const result = await dispatchSkill(skill, action, argsJson);
+
+  // Output JSON result to stdout
+  console.log(JSON.stringify(result));
+  process.exit(result.success ? 0 : 1);
+}
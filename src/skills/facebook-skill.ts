@@ -1,23 +1,25 @@
 #!/usr/bin/env bun
 /**
- * Facebook/Instagram Skill CLI
+ * Facebook/Instagram Skill
  *
+ * Runs in-process through skills/dispatcher.ts, or from the command line:
  * Usage: bun run src/skills/facebook-skill.ts <action> <args>
  */
 
-import {
-  postToPage,
-  postToInstagram,
-  getPages,
-  getInstagramAccountId,
-} from '../platforms/facebook.js';
-import type { SkillResult, FacebookPostOptions, InstagramPostOptions } from '../platforms/types.js';
+import { postToPage, getPages, getInstagramAccountId } from '../platforms/facebook.js';
+import { postToInstagram } from '../platforms/instagram.js';
+import { checkContent } from '../validation/validation.js';
+import { runSkillCli, prepareSkillMedia } from './dispatcher.js';
+import type { SkillResult, SkillContext, FacebookPostOptions, InstagramPostOptions } from '../platforms/types.js';
 
-const args = process.argv.slice(2);
-const action = args[0];
-const argsJson = args[1] || '{}';
-
-async function main(): Promise<void> {
+/**
+ * Run one action with its JSON arguments
+ */
+export async function runSkill(
+  action: string,
+  argsJson = '{}',
+  context?: SkillContext
+): Promise<SkillResult> {
   let result: SkillResult;
 
   try {
@@ -32,32 +34,38 @@ async function main(): Promise<void> {
             error: 'Missing required field: pageId',
           };
         } else {
-          result = await postToPage(options);
+          const prepared = await prepareSkillMedia('facebook', 'post-page', options, context);
+          result =
+            (await checkContent('facebook', 'post-page', prepared)) ||
+            (await postToPage(prepared, context?.onProgress));
         }
         break;
       }
 
       case 'post-ig': {
         const options: InstagramPostOptions = JSON.parse(argsJson);
-        if (!options.igUserId || !options.imageUrl) {
+        if (!options.imageUrl && !options.videoUrl && !options.filePath && !options.items?.length) {
           result = {
             success: false,
             platform: 'instagram',
             action: 'post-ig',
-            error: 'Missing required fields: igUserId, imageUrl',
+            error: 'Missing required fields: imageUrl, videoUrl, filePath or items',
           };
         } else {
-          result = await postToInstagram(options);
+          const prepared = await prepareSkillMedia('instagram', 'post-ig', options, context);
+          result = (await checkContent('instagram', 'post-ig', prepared)) || (await postToInstagram(prepared));
         }
         break;
       }
 
-      case 'get-pages':
-        result = await getPages();
+      case 'get-pages': {
+        const { accountId } = JSON.parse(argsJson);
+        result = await getPages(accountId);
         break;
+      }
 
       case 'get-ig-account': {
-        const { pageId } = JSON.parse(argsJson);
+        const { pageId, accountId } = JSON.parse(argsJson);
         if (!pageId) {
           result = {
             success: false,
@@ -66,14 +74,15 @@ async function main(): Promise<void> {
             error: 'Missing required field: pageId',
           };
         } else {
-          result = await getInstagramAccountId(pageId);
+          result = await getInstagramAccountId(pageId, accountId);
         }
         break;
       }
 
       case 'check_auth': {
+        const { accountId } = JSON.parse(argsJson);
         const { isAuthenticated } = await import('../platforms/facebook.js');
-        const authed = await isAuthenticated();
+        const authed = await isAuthenticated(accountId);
         result = {
           success: authed,
           platform: 'facebook',
@@ -101,9 +110,10 @@ async function main(): Promise<void> {
     };
   }
 
-  // Output JSON result to stdout
-  console.log(JSON.stringify(result));
-  process.exit(result.success ? 0 : 1);
+  return result;
 }
 
-main();
+// Run if called directly
+if (import.meta.main) {
+  runSkillCli('facebook-skill.ts');
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env bun
+/**
+ * Instagram Skill
+ *
+ * Runs in-process through skills/dispatcher.ts, or from the command line:
+ * Usage: bun run src/skills/instagram-skill.ts <action> <args>
+ */
+
+import { postToInstagram, getAccount } from '../platforms/instagram.js';
+import { checkContent } from '../validation/validation.js';
+import { runSkillCli, prepareSkillMedia } from './dispatcher.js';
+import type { SkillResult, SkillContext, InstagramPostOptions, InstagramMediaType } from '../platforms/types.js';
+
+// Actions that force a media type
+const MEDIA_TYPE_ACTIONS: Record<string, InstagramMediaType> = {
+  'post-image': 'image',
+  'post-carousel': 'carousel',
+  'post-reel': 'reel',
+  'post-story': 'story',
+};
+
+/**
+ * Run one action with its JSON arguments
+ */
+export async function runSkill(
+  action: string,
+  argsJson = '{}',
+  context?: SkillContext
+): Promise<SkillResult> {
+  let result: SkillResult;
+
+  try {
+    switch (action) {
+      case 'post':
+      case 'post-image':
+      case 'post-carousel':
+      case 'post-reel':
+      case 'post-story': {
+        const options: InstagramPostOptions = JSON.parse(argsJson);
+        if (MEDIA_TYPE_ACTIONS[action]) {
+          options.mediaType = MEDIA_TYPE_ACTIONS[action];
+        }
+
+        if (!options.imageUrl && !options.videoUrl && !options.filePath && !options.items?.length) {
+          result = {
+            success: false,
+            platform: 'instagram',
+            action,
+            error: 'Missing required fields: imageUrl, videoUrl, filePath or items',
+          };
+        } else {
+          const prepared = await prepareSkillMedia('instagram', action, options, context);
+          result = (await checkContent('instagram', action, prepared)) || (await postToInstagram(prepared));
+        }
+        break;
+      }
+
+      case 'get-account': {
+        const { pageId, accountId } = JSON.parse(argsJson);
+        result = await getAccount(pageId, accountId);
+        break;
+      }
+
+      case 'check_auth': {
+        const { accountId } = JSON.parse(argsJson);
+        const { isAuthenticated } = await import('../platforms/instagram.js');
+        const authed = await isAuthenticated(accountId);
+        result = {
+          success: authed,
+          platform: 'instagram',
+          action: 'check_auth',
+          message: authed ? 'Authenticated' : 'Not authenticated',
+          needsAuth: !authed,
+        };
+        break;
+      }
+
+      default:
+        result = {
+          success: false,
+          platform: 'instagram',
+          action: action || 'unknown',
+          error: `Unknown action: ${action}. Available: post, post-image, post-carousel, post-reel, post-story, get-account, check_auth`,
+        };
+    }
+  } catch (error) {
+    result = {
+      success: false,
+      platform: 'instagram',
+      action: action || 'unknown',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  return result;
+}
+
+// Run if called directly
+if (import.meta.main) {
+  runSkillCli('instagram-skill.ts');
+}
@@ -1,18 +1,36 @@
 #!/usr/bin/env bun
 /**
- * Scheduler Skill CLI
+ * Scheduler Skill
  *
+ * Runs in-process through skills/dispatcher.ts, or from the command line:
  * Usage: bun run src/skills/scheduler-skill.ts <action> <args>
  */
 
-import { addJob, getJob, listQueue, cancel, retry, getStats, cleanup } from '../scheduler/queue.js';
-import type { SkillResult, QueueAddRequest } from '../platforms/types.js';
+import {
+  addJob,
+  getJob,
+  getAttempts,
+  listQueue,
+  cancel,
+  retry,
+  getStats,
+  cleanup,
+  addSeries,
+  listSeries,
+  pauseSeries,
+  resumeSeries,
+  deleteSeries,
+  formatSeriesList,
+} from '../scheduler/queue.js';
+import { createCampaign, getCampaignSummary, formatCampaignSummary } from '../campaigns/campaigns.js';
+import { ContentValidationError } from '../validation/validation.js';
+import { runSkillCli } from './dispatcher.js';
+import type { SkillResult, QueueAddRequest, SeriesAddRequest, CampaignAddRequest } from '../platforms/types.js';
 
-const args = process.argv.slice(2);
-const action = args[0];
-const argsJson = args[1] || '{}';
-
-async function main(): Promise<void> {
+/**
+ * Run one action with its JSON arguments
+ */
+export async function runSkill(action: string, argsJson = '{}'): Promise<SkillResult> {
   let result: SkillResult;
 
   try {
@@ -27,7 +45,7 @@ async function main(): Promise<void> {
             error: 'Missing required fields: platform, action',
           };
         } else {
-          const jobId = addJob(request);
+          const jobId = await addJob(request);
           result = {
             success: true,
             platform: 'scheduler',
@@ -67,7 +85,7 @@ async function main(): Promise<void> {
               success: true,
               platform: 'scheduler',
               action: 'get',
-              message: JSON.stringify(job, null, 2),
+              message: JSON.stringify({ ...job, attempts: getAttempts(id) }, null, 2),
             };
           } else {
             result = {
@@ -82,7 +100,7 @@ async function main(): Promise<void> {
       }
 
       case 'cancel': {
-        const { id } = JSON.parse(argsJson);
+        const { id, workspaceId } = JSON.parse(argsJson);
         if (!id) {
           result = {
             success: false,
@@ -91,7 +109,7 @@ async function main(): Promise<void> {
             error: 'Missing required field: id',
           };
         } else {
-          const success = cancel(id);
+          const success = cancel(id, workspaceId);
           result = {
             success,
             platform: 'scheduler',
@@ -103,7 +121,7 @@ async function main(): Promise<void> {
       }
 
       case 'retry': {
-        const { id } = JSON.parse(argsJson);
+        const { id, workspaceId } = JSON.parse(argsJson);
         if (!id) {
           result = {
             success: false,
@@ -112,7 +130,7 @@ async function main(): Promise<void> {
             error: 'Missing required field: id',
           };
         } else {
-          const success = retry(id);
+          const success = retry(id, workspaceId);
           result = {
             success,
             platform: 'scheduler',
@@ -124,12 +142,13 @@ async function main(): Promise<void> {
       }
 
       case 'stats': {
-        const stats = getStats();
+        const { workspaceId } = JSON.parse(argsJson);
+        const stats = getStats(workspaceId);
         result = {
           success: true,
           platform: 'scheduler',
           action: 'stats',
-          message: `Queue stats:\nTotal: ${stats.total}\nPending: ${stats.pending}\nCompleted: ${stats.completed}\nFailed: ${stats.failed}`,
+          message: `Queue stats:\nTotal: ${stats.total}\nPending: ${stats.pending}\nRunning: ${stats.processing}\nCompleted: ${stats.completed}\nFailed: ${stats.failed}`,
         };
         break;
       }
@@ -146,12 +165,142 @@ async function main(): Promise<void> {
         break;
       }
 
+      case 'add-series': {
+        const request: SeriesAddRequest = JSON.parse(argsJson);
+        if (!request.platform || !request.action || !request.rule) {
+          result = {
+            success: false,
+            platform: 'scheduler',
+            action: 'add-series',
+            error: 'Missing required fields: platform, action, rule',
+          };
+        } else {
+          const { series, jobId } = addSeries(request);
+          result = {
+            success: true,
+            platform: 'scheduler',
+            action: 'add-series',
+            jobId: jobId ?? undefined,
+            message: `Series ${series.id} created${jobId ? `, first occurrence is job ${jobId}` : ' but it has no upcoming occurrence'}`,
+          };
+        }
+        break;
+      }
+
+      case 'list-series': {
+        const options = JSON.parse(argsJson);
+        result = {
+          success: true,
+          platform: 'scheduler',
+          action: 'list-series',
+          message: formatSeriesList(listSeries(options)),
+        };
+        break;
+      }
+
+      case 'pause-series': {
+        const { id, workspaceId } = JSON.parse(argsJson);
+        if (!id) {
+          result = {
+            success: false,
+            platform: 'scheduler',
+            action: 'pause-series',
+            error: 'Missing required field: id',
+          };
+        } else {
+          const success = pauseSeries(id, workspaceId);
+          result = {
+            success,
+            platform: 'scheduler',
+            action: 'pause-series',
+            message: success ? `Series ${id} paused` : `Series ${id} not found or not active`,
+          };
+        }
+        break;
+      }
+
+      case 'resume-series': {
+        const { id, workspaceId } = JSON.parse(argsJson);
+        if (!id) {
+          result = {
+            success: false,
+            platform: 'scheduler',
+            action: 'resume-series',
+            error: 'Missing required field: id',
+          };
+        } else {
+          const success = resumeSeries(id, workspaceId);
+          result = {
+            success,
+            platform: 'scheduler',
+            action: 'resume-series',
+            message: success ? `Series ${id} resumed` : `Series ${id} not found or not paused`,
+          };
+        }
+        break;
+      }
+
+      case 'delete-series': {
+        const { id, workspaceId } = JSON.parse(argsJson);
+        if (!id) {
+          result = {
+            success: false,
+            platform: 'scheduler',
+            action: 'delete-series',
+            error: 'Missing required field: id',
+          };
+        } else {
+          const success = deleteSeries(id, workspaceId);
+          result = {
+            success,
+            platform: 'scheduler',
+            action: 'delete-series',
+            message: success ? `Series ${id} deleted` : `Series ${id} not found`,
+          };
+        }
+        break;
+      }
+
+      case 'add-campaign': {
+        const request: CampaignAddRequest = JSON.parse(argsJson);
+        const summary = createCampaign(request);
+        result = {
+          success: true,
+          platform: 'scheduler',
+          action: 'add-campaign',
+          jobId: summary.jobs[0]?.id,
+          message: `Campaign ${summary.campaign.id} queued for ${summary.jobs.map((job) => job.platform).join(', ')}`,
+        };
+        break;
+      }
+
+      case 'campaign': {
+        const { id, workspaceId } = JSON.parse(argsJson);
+        const summary = id ? getCampaignSummary(id, workspaceId) : null;
+        if (!summary) {
+          result = {
+            success: false,
+            platform: 'scheduler',
+            action: 'campaign',
+            error: id ? `Campaign ${id} not found` : 'Missing required field: id',
+          };
+        } else {
+          result = {
+            success: true,
+            platform: 'scheduler',
+            action: 'campaign',
+            message: formatCampaignSummary(summary),
+          };
+        }
+        break;
+      }
+
       default:
         result = {
           success: false,
           platform: 'scheduler',
           action: action || 'unknown',
-          error: `Unknown action: ${action}. Available: add, list, get, cancel, retry, stats, cleanup`,
+          error: `Unknown action: ${action}. Available: add, list, get, cancel, retry, stats, cleanup, add-series, list-series, pause-series, resume-series, delete-series, add-campaign, campaign`,
         };
     }
   } catch (error) {
@@ -160,12 +309,14 @@ async function main(): Promise<void> {
       platform: 'scheduler',
       action: action || 'unknown',
       error: error instanceof Error ? error.message : 'Unknown error',
+      violations: error instanceof ContentValidationError ? error.violations : undefined,
     };
   }
 
-  // Output JSON result to stdout
-  console.log(JSON.stringify(result));
-  process.exit(result.success ? 0 : 1);
+  return result;
 }
 
-main();
+// Run if called directly
+if (import.meta.main) {
+  runSkillCli('scheduler-skill.ts');
+}
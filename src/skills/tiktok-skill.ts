@@ -1,18 +1,24 @@
 #!/usr/bin/env bun
 /**
- * TikTok Skill CLI
+ * TikTok Skill
  *
+ * Runs in-process through skills/dispatcher.ts, or from the command line:
  * Usage: bun run src/skills/tiktok-skill.ts <action> <args>
  */
 
 import { uploadVideo, initUpload, uploadChunks, checkStatus } from '../platforms/tiktok.js';
-import type { SkillResult, TikTokUploadOptions } from '../platforms/types.js';
+import { checkContent } from '../validation/validation.js';
+import { runSkillCli, prepareSkillMedia } from './dispatcher.js';
+import type { SkillResult, SkillContext, TikTokUploadOptions } from '../platforms/types.js';
 
-const args = process.argv.slice(2);
-const action = args[0];
-const argsJson = args[1] || '{}';
-
-async function main(): Promise<void> {
+/**
+ * Run one action with its JSON arguments
+ */
+export async function runSkill(
+  action: string,
+  argsJson = '{}',
+  context?: SkillContext
+): Promise<SkillResult> {
   let result: SkillResult;
 
   try {
@@ -27,14 +33,17 @@ async function main(): Promise<void> {
             error: 'Missing required fields: filePath, title',
           };
         } else {
-          result = await uploadVideo(options);
+          const prepared = await prepareSkillMedia('tiktok', 'upload', options, context);
+          result =
+            (await checkContent('tiktok', 'upload', prepared)) ||
+            (await uploadVideo(prepared, context?.onProgress));
         }
         break;
       }
 
       case 'init': {
-        const { filePath, title } = JSON.parse(argsJson);
-        if (!filePath || !title) {
+        const options: TikTokUploadOptions = JSON.parse(argsJson);
+        if (!options.filePath || !options.title) {
           result = {
             success: false,
             platform: 'tiktok',
@@ -42,7 +51,7 @@ async function main(): Promise<void> {
             error: 'Missing required fields: filePath, title',
           };
         } else {
-          result = await initUpload(filePath, title);
+          result = await initUpload(options);
         }
         break;
       }
@@ -57,13 +66,13 @@ async function main(): Promise<void> {
             error: 'Missing required fields: uploadUrl, filePath',
           };
         } else {
-          result = await uploadChunks(uploadUrl, filePath);
+          result = await uploadChunks(uploadUrl, filePath, context?.onProgress);
         }
         break;
       }
 
       case 'status': {
-        const { publishId } = JSON.parse(argsJson);
+        const { publishId, accountId } = JSON.parse(argsJson);
         if (!publishId) {
           result = {
             success: false,
@@ -72,14 +81,15 @@ async function main(): Promise<void> {
             error: 'Missing required field: publishId',
           };
         } else {
-          result = await checkStatus(publishId);
+          result = await checkStatus(publishId, accountId);
         }
         break;
       }
 
       case 'check_auth': {
+        const { accountId } = JSON.parse(argsJson);
         const { isAuthenticated } = await import('../platforms/tiktok.js');
-        const authed = await isAuthenticated();
+        const authed = await isAuthenticated(accountId);
         result = {
           success: authed,
           platform: 'tiktok',
@@ -107,9 +117,10 @@ async function main(): Promise<void> {
     };
   }
 
-  // Output JSON result to stdout
-  console.log(JSON.stringify(result));
-  process.exit(result.success ? 0 : 1);
+  return result;
 }
 
-main();
+// Run if called directly
+if (import.meta.main) {
+  runSkillCli('tiktok-skill.ts');
+}
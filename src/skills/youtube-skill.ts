@@ -1,18 +1,38 @@
 #!/usr/bin/env bun
 /**
- * YouTube Skill CLI
+ * YouTube Skill
  *
+ * Runs in-process through skills/dispatcher.ts, or from the command line:
  * Usage: bun run src/skills/youtube-skill.ts <action> <args>
  */
 
-import { uploadVideo, getChannelInfo } from '../platforms/youtube.js';
-import type { SkillResult, YouTubeUploadOptions } from '../platforms/types.js';
+import {
+  uploadVideo,
+  updateVideo,
+  setThumbnail,
+  addToPlaylist,
+  listPlaylists,
+  uploadCaption,
+  getChannelInfo,
+} from '../platforms/youtube.js';
+import { checkContent } from '../validation/validation.js';
+import { runSkillCli, prepareSkillMedia } from './dispatcher.js';
+import type {
+  SkillResult,
+  SkillContext,
+  YouTubeUploadOptions,
+  YouTubeVideoUpdate,
+  YouTubeCaptionTrack,
+} from '../platforms/types.js';
 
-const args = process.argv.slice(2);
-const action = args[0];
-const argsJson = args[1] || '{}';
-
-async function main(): Promise<void> {
+/**
+ * Run one action with its JSON arguments
+ */
+export async function runSkill(
+  action: string,
+  argsJson = '{}',
+  context?: SkillContext
+): Promise<SkillResult> {
   let result: SkillResult;
 
   try {
@@ -27,18 +47,93 @@ async function main(): Promise<void> {
             error: 'Missing required fields: filePath, title',
           };
         } else {
-          result = await uploadVideo(options);
+          const prepared = await prepareSkillMedia('youtube', 'upload', options, context);
+          result =
+            (await checkContent('youtube', 'upload', prepared)) ||
+            (await uploadVideo(prepared, context?.onProgress));
         }
         break;
       }
 
-      case 'channel_info':
-        result = await getChannelInfo();
+      case 'update': {
+        const options: YouTubeVideoUpdate = JSON.parse(argsJson);
+        if (!options.videoId) {
+          result = {
+            success: false,
+            platform: 'youtube',
+            action: 'update',
+            error: 'Missing required field: videoId',
+          };
+        } else {
+          result = (await checkContent('youtube', 'update', options)) || (await updateVideo(options));
+        }
         break;
+      }
+
+      case 'set-thumbnail': {
+        const { videoId, thumbnailPath, accountId } = JSON.parse(argsJson);
+        if (!videoId || !thumbnailPath) {
+          result = {
+            success: false,
+            platform: 'youtube',
+            action: 'set-thumbnail',
+            error: 'Missing required fields: videoId, thumbnailPath',
+          };
+        } else {
+          result = await setThumbnail(videoId, thumbnailPath, accountId);
+        }
+        break;
+      }
+
+      case 'add-to-playlist': {
+        const { videoId, playlistId, accountId } = JSON.parse(argsJson);
+        if (!videoId || !playlistId) {
+          result = {
+            success: false,
+            platform: 'youtube',
+            action: 'add-to-playlist',
+            error: 'Missing required fields: videoId, playlistId',
+          };
+        } else {
+          result = await addToPlaylist(videoId, playlistId, accountId);
+        }
+        break;
+      }
+
+      case 'list-playlists': {
+        const { accountId } = JSON.parse(argsJson);
+        result = await listPlaylists(accountId);
+        break;
+      }
+
+      case 'upload-caption': {
+        const { videoId, accountId, ...track } = JSON.parse(argsJson) as YouTubeCaptionTrack & {
+          videoId?: string;
+          accountId?: string;
+        };
+        if (!videoId || !track.filePath || !track.language) {
+          result = {
+            success: false,
+            platform: 'youtube',
+            action: 'upload-caption',
+            error: 'Missing required fields: videoId, filePath, language',
+          };
+        } else {
+          result = await uploadCaption(videoId, track, accountId);
+        }
+        break;
+      }
+
+      case 'channel_info': {
+        const { accountId } = JSON.parse(argsJson);
+        result = await getChannelInfo(accountId);
+        break;
+      }
 
       case 'check_auth': {
+        const { accountId } = JSON.parse(argsJson);
         const { isAuthenticated } = await import('../platforms/youtube.js');
-        const authed = await isAuthenticated();
+        const authed = await isAuthenticated(accountId);
         result = {
           success: authed,
           platform: 'youtube',
@@ -54,7 +149,7 @@ async function main(): Promise<void> {
           success: false,
           platform: 'youtube',
           action: action || 'unknown',
-          error: `Unknown action: ${action}. Available: upload, channel_info, check_auth`,
+          error: `Unknown action: ${action}. Available: upload, update, set-thumbnail, add-to-playlist, list-playlists, upload-caption, channel_info, check_auth`,
         };
     }
   } catch (error) {
@@ -66,9 +161,10 @@ async function main(): Promise<void> {
     };
   }
 
-  // Output JSON result to stdout
-  console.log(JSON.stringify(result));
-  process.exit(result.success ? 0 : 1);
+  return result;
 }
 
-main();
+// Run if called directly
+if (import.meta.main) {
+  runSkillCli('youtube-skill.ts');
+}
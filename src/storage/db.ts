@@ -2,9 +2,26 @@
  * SQLite database wrapper for posts and tokens
  */
 
-import Database from 'better-sqlite3';
+import { Database } from 'bun:sqlite';
 import { join } from 'path';
-import type { ScheduledJob, TokenData } from '../platforms/types.js';
+import type {
+  ScheduledJob,
+  JobStatus,
+  JobContext,
+  JobAttempt,
+  RecurringSeries,
+  SeriesStatus,
+  Campaign,
+  TokenData,
+  UploadSession,
+  PendingApproval,
+  ApprovalStatus,
+  ApprovalDecision,
+  Workspace,
+  PlatformRecommendation,
+  ClaudeSession,
+  ClaudeUsage,
+} from '../platforms/types.js';
 
 const DB_DIR = process.env.RELAY_DIR || join(process.env.HOME || '~', '.claude-relay');
 const DB_PATH = join(DB_DIR, 'social-media-agent.db');
@@ -17,48 +34,268 @@ try {
   // Directory may already exist
 }
 
-const db = new Database(DB_PATH);
+const db = new Database(DB_PATH, { create: true });
 
 // Enable WAL mode for better concurrency
-db.pragma('journal_mode = WAL');
+db.exec('PRAGMA journal_mode = WAL');
 
 // ============================================================================
 // SCHEMA SETUP
 // ============================================================================
 
+/**
+ * Add a column to a table created by an older version
+ */
+function ensureColumn(table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 // Posts table for scheduled and completed posts
-db.exec(`
-  CREATE TABLE IF NOT EXISTS posts (
+const postsTable = (name: string): string => `
+  CREATE TABLE IF NOT EXISTS ${name} (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     platform TEXT NOT NULL,
     action TEXT NOT NULL,
-    status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+    status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
     scheduled_at TIMESTAMP,
     content_json TEXT NOT NULL,
     file_path TEXT,
     result_json TEXT,
     error_message TEXT,
     retry_count INTEGER DEFAULT 0,
+    next_attempt_at TIMESTAMP,
+    workspace_id INTEGER,
+    chat_id INTEGER,
+    series_id INTEGER,
+    campaign_id INTEGER,
+    publish_id TEXT,
+    processing_since TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
   )
+`;
+db.exec(postsTable('posts'));
+ensureColumn('posts', 'workspace_id', 'INTEGER');
+ensureColumn('posts', 'next_attempt_at', 'TIMESTAMP');
+ensureColumn('posts', 'chat_id', 'INTEGER');
+ensureColumn('posts', 'series_id', 'INTEGER');
+ensureColumn('posts', 'campaign_id', 'INTEGER');
+ensureColumn('posts', 'publish_id', 'TEXT');
+ensureColumn('posts', 'processing_since', 'TIMESTAMP');
+
+// Rebuild posts from before jobs were claimed while they run (the status check had no 'processing')
+const postsSchema = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'posts'").get() as {
+  sql: string;
+};
+if (!postsSchema.sql.includes("'processing'")) {
+  const columns = (db.prepare('PRAGMA table_info(posts)').all() as { name: string }[]).map((c) => c.name).join(', ');
+  db.transaction(() => {
+    db.exec(postsTable('posts_new'));
+    db.exec(`INSERT INTO posts_new (${columns}) SELECT ${columns} FROM posts`);
+    db.exec('DROP TABLE posts');
+    db.exec('ALTER TABLE posts_new RENAME TO posts');
+  })();
+}
+
+// Campaigns: one logical post with a child job per platform
+db.exec(`
+  CREATE TABLE IF NOT EXISTS campaigns (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT,
+    content_json TEXT NOT NULL,
+    scheduled_at TIMESTAMP NOT NULL,
+    workspace_id INTEGER,
+    chat_id INTEGER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )
 `);
 
-// Tokens table for OAuth credentials
+// Recurring posts: each run creates the next occurrence in posts
+db.exec(`
+  CREATE TABLE IF NOT EXISTS series (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    platform TEXT NOT NULL,
+    action TEXT NOT NULL,
+    content_json TEXT NOT NULL,
+    file_path TEXT,
+    rule TEXT NOT NULL,
+    timezone TEXT NOT NULL,
+    starts_at TIMESTAMP NOT NULL,
+    ends_at TIMESTAMP,
+    max_count INTEGER,
+    occurrences INTEGER DEFAULT 0,
+    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+    workspace_id INTEGER,
+    chat_id INTEGER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// One row per failed publishing attempt of a job
+db.exec(`
+  CREATE TABLE IF NOT EXISTS job_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id INTEGER NOT NULL,
+    attempt INTEGER NOT NULL,
+    error TEXT NOT NULL,
+    transient INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Tokens table for OAuth credentials (one row per connected account)
 db.exec(`
   CREATE TABLE IF NOT EXISTS tokens (
-    platform TEXT PRIMARY KEY,
+    platform TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    display_name TEXT,
     access_token TEXT NOT NULL,
     refresh_token TEXT,
     expires_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (platform, account_id)
+  )
+`);
+
+// Migrate single-account tokens (keyed by platform only) to the multi-account table
+const tokenColumns = db.prepare('PRAGMA table_info(tokens)').all() as { name: string }[];
+if (!tokenColumns.some((column) => column.name === 'account_id')) {
+  db.exec(`
+    ALTER TABLE tokens RENAME TO tokens_single;
+    CREATE TABLE tokens (
+      platform TEXT NOT NULL,
+      account_id TEXT NOT NULL,
+      display_name TEXT,
+      access_token TEXT NOT NULL,
+      refresh_token TEXT,
+      expires_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (platform, account_id)
+    );
+    INSERT INTO tokens (platform, account_id, access_token, refresh_token, expires_at, updated_at)
+      SELECT platform, 'default', access_token, refresh_token, expires_at, updated_at FROM tokens_single;
+    DROP TABLE tokens_single;
+  `);
+}
+
+// Temporary public links to uploaded media (see media/hosting.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS media_links (
+    id TEXT PRIMARY KEY,
+    file_path TEXT NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Resumable uploads in progress (see platforms/youtube.ts)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS upload_sessions (
+    platform TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    account_id TEXT,
+    file_size INTEGER NOT NULL,
+    session_uri TEXT NOT NULL,
+    bytes_uploaded INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (platform, file_path)
+  )
+`);
+
+// Publishing requests waiting for a decision in Telegram
+db.exec(`
+  CREATE TABLE IF NOT EXISTS approvals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_id INTEGER NOT NULL,
+    tool TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    args_json TEXT NOT NULL,
+    status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'published', 'scheduled', 'cancelled', 'failed')),
+    message_id INTEGER,
+    result_json TEXT,
+    workspace_id INTEGER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
   )
 `);
+ensureColumn('approvals', 'workspace_id', 'INTEGER');
+ensureColumn('approvals', 'decision', 'TEXT');
+
+// Client/brand workspaces scoping accounts, queue and defaults
+db.exec(`
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    timezone TEXT,
+    default_hashtags TEXT,
+    recommendations_json TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS workspace_accounts (
+    workspace_id INTEGER NOT NULL,
+    platform TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (workspace_id, platform, account_id)
+  )
+`);
+
+// Active workspace per Telegram chat
+db.exec(`
+  CREATE TABLE IF NOT EXISTS chat_workspaces (
+    chat_id INTEGER PRIMARY KEY,
+    workspace_id INTEGER NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Claude conversations per chat and workspace (at most one active)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS claude_sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_id INTEGER NOT NULL,
+    workspace_id INTEGER,
+    session_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    active INTEGER DEFAULT 1,
+    created_at TEXT NOT NULL,
+    last_activity TEXT NOT NULL
+  )
+`);
+ensureColumn('claude_sessions', 'cost_usd', 'REAL DEFAULT 0');
+ensureColumn('claude_sessions', 'input_tokens', 'INTEGER DEFAULT 0');
+ensureColumn('claude_sessions', 'output_tokens', 'INTEGER DEFAULT 0');
+
+// Message history of conversations with the Messages API backend (the CLI keeps its own)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS assistant_conversations (
+    session_id TEXT PRIMARY KEY,
+    messages_json TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`);
 
 // Create indexes for common queries
 db.exec(`CREATE INDEX IF NOT EXISTS idx_posts_status ON posts(status)`);
 db.exec(`CREATE INDEX IF NOT EXISTS idx_posts_scheduled_at ON posts(scheduled_at)`);
 db.exec(`CREATE INDEX IF NOT EXISTS idx_posts_platform ON posts(platform)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_posts_workspace ON posts(workspace_id)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_job_attempts_job ON job_attempts(job_id)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_posts_series ON posts(series_id)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_posts_campaign ON posts(campaign_id)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_approvals_status ON approvals(status)`);
+db.exec(`CREATE INDEX IF NOT EXISTS idx_claude_sessions_chat ON claude_sessions(chat_id, workspace_id)`);
 
 // ============================================================================
 // POSTS CRUD OPERATIONS
@@ -69,31 +306,44 @@ export function addPost(
   action: string,
   contentJson: string,
   scheduledAt?: Date,
-  filePath?: string
+  filePath?: string,
+  context?: JobContext
 ): number {
   const stmt = db.prepare(`
-    INSERT INTO posts (platform, action, status, scheduled_at, content_json, file_path)
-    VALUES (?, ?, 'pending', ?, ?, ?)
+    INSERT INTO posts (
+      platform, action, status, scheduled_at, content_json, file_path, workspace_id, chat_id, series_id,
+      campaign_id
+    )
+    VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?)
   `);
   const result = stmt.run(
     platform,
     action,
     scheduledAt ? scheduledAt.toISOString() : null,
     contentJson,
-    filePath || null
+    filePath || null,
+    context?.workspaceId ?? null,
+    context?.chatId ?? null,
+    context?.seriesId ?? null,
+    context?.campaignId ?? null
   );
   return Number(result.lastInsertRowid);
 }
 
-export function getPendingJobs(): ScheduledJob[] {
+/**
+ * Get pending jobs that are due, including retries whose backoff has elapsed
+ * Times are stored as ISO strings, so they are compared with an ISO string too.
+ */
+export function getPendingJobs(now: Date = new Date()): ScheduledJob[] {
   const stmt = db.prepare(`
     SELECT * FROM posts
     WHERE status = 'pending'
-      AND (scheduled_at IS NULL OR scheduled_at <= datetime('now'))
-      AND retry_count < 3
+      AND (scheduled_at IS NULL OR scheduled_at <= ?)
+      AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
     ORDER BY scheduled_at ASC, created_at ASC
   `);
-  return stmt.all().map(rowToJob);
+  const iso = now.toISOString();
+  return (stmt.all(iso, iso) as Record<string, unknown>[]).map(rowToJob);
 }
 
 export function getJobById(id: number): ScheduledJob | null {
@@ -103,13 +353,19 @@ export function getJobById(id: number): ScheduledJob | null {
 }
 
 export function listJobs(options?: {
-  status?: 'pending' | 'completed' | 'failed';
+  status?: JobStatus;
   platform?: string;
+  workspaceId?: number;
   limit?: number;
 }): ScheduledJob[] {
   let query = 'SELECT * FROM posts WHERE 1=1';
   const params: (string | number)[] = [];
 
+  if (options?.workspaceId !== undefined) {
+    query += ' AND workspace_id = ?';
+    params.push(options.workspaceId);
+  }
+
   if (options?.status) {
     query += ' AND status = ?';
     params.push(options.status);
@@ -128,7 +384,32 @@ export function listJobs(options?: {
   }
 
   const stmt = db.prepare(query);
-  return stmt.all(...params).map(rowToJob);
+  return (stmt.all(...params) as Record<string, unknown>[]).map(rowToJob);
+}
+
+/**
+ * Claim a pending job before running it
+ * Returns false when another run already claimed it.
+ */
+export function claimJob(id: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE posts
+    SET status = 'processing', updated_at = datetime('now')
+    WHERE id = ? AND status = 'pending'
+  `);
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Put a job that was running when the scheduler stopped back in the queue
+ */
+export function releaseClaimedJob(id: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE posts
+    SET status = 'pending', updated_at = datetime('now')
+    WHERE id = ? AND status = 'processing'
+  `);
+  return stmt.run(id).changes > 0;
 }
 
 export function markComplete(id: number, resultJson: string): void {
@@ -149,6 +430,52 @@ export function markFailed(id: number, errorMessage: string): void {
   stmt.run(errorMessage, id);
 }
 
+/**
+ * Keep a job pending and try again after a transient failure
+ */
+export function rescheduleJob(id: number, errorMessage: string, nextAttemptAt: Date): void {
+  const stmt = db.prepare(`
+    UPDATE posts
+    SET status = 'pending', error_message = ?, retry_count = retry_count + 1, next_attempt_at = ?,
+        updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(errorMessage, nextAttemptAt.toISOString(), id);
+}
+
+/**
+ * Keep a job pending while the platform publishes it, and check back later
+ * The first call records when the platform started processing.
+ */
+export function setJobPublishId(id: number, publishId: string, nextAttemptAt: Date): void {
+  const stmt = db.prepare(`
+    UPDATE posts
+    SET status = 'pending', publish_id = ?, next_attempt_at = ?, processing_since = COALESCE(processing_since, ?),
+        updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(publishId, nextAttemptAt.toISOString(), new Date().toISOString(), id);
+}
+
+export function addJobAttempt(jobId: number, attempt: number, error: string, transient: boolean): void {
+  const stmt = db.prepare(`
+    INSERT INTO job_attempts (job_id, attempt, error, transient)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(jobId, attempt, error, transient ? 1 : 0);
+}
+
+export function getJobAttempts(jobId: number): JobAttempt[] {
+  const stmt = db.prepare('SELECT * FROM job_attempts WHERE job_id = ? ORDER BY attempt ASC');
+  return (stmt.all(jobId) as Record<string, unknown>[]).map((row) => ({
+    jobId: row.job_id as number,
+    attempt: row.attempt as number,
+    error: row.error as string,
+    transient: row.transient === 1,
+    createdAt: new Date(row.created_at as string),
+  }));
+}
+
 export function cancelJob(id: number): boolean {
   const stmt = db.prepare(`
     UPDATE posts
@@ -162,7 +489,8 @@ export function cancelJob(id: number): boolean {
 export function retryJob(id: number): boolean {
   const stmt = db.prepare(`
     UPDATE posts
-    SET status = 'pending', error_message = NULL, updated_at = datetime('now')
+    SET status = 'pending', error_message = NULL, retry_count = 0, next_attempt_at = NULL,
+        publish_id = NULL, processing_since = NULL, updated_at = datetime('now')
     WHERE id = ? AND status = 'failed'
   `);
   const result = stmt.run(id);
@@ -176,18 +504,187 @@ export function deleteOldPosts(days: number): number {
       AND status IN ('completed', 'failed')
   `);
   const result = stmt.run();
+  db.exec('DELETE FROM job_attempts WHERE job_id NOT IN (SELECT id FROM posts)');
   return Number(result.changes);
 }
 
+// ============================================================================
+// RECURRING SERIES OPERATIONS
+// ============================================================================
+
+export function addSeriesRow(series: {
+  platform: string;
+  action: string;
+  contentJson: string;
+  filePath?: string;
+  rule: string;
+  timezone: string;
+  startsAt: Date;
+  endsAt?: Date;
+  maxCount?: number;
+  workspaceId?: number;
+  chatId?: number;
+}): number {
+  const stmt = db.prepare(`
+    INSERT INTO series (
+      platform, action, content_json, file_path, rule, timezone, starts_at, ends_at, max_count,
+      workspace_id, chat_id
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    series.platform,
+    series.action,
+    series.contentJson,
+    series.filePath || null,
+    series.rule,
+    series.timezone,
+    series.startsAt.toISOString(),
+    series.endsAt ? series.endsAt.toISOString() : null,
+    series.maxCount ?? null,
+    series.workspaceId ?? null,
+    series.chatId ?? null
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function getSeriesById(id: number): RecurringSeries | null {
+  const stmt = db.prepare('SELECT * FROM series WHERE id = ?');
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? rowToSeries(row) : null;
+}
+
+export function listSeriesRows(options?: { status?: SeriesStatus; workspaceId?: number }): RecurringSeries[] {
+  let query = 'SELECT * FROM series WHERE 1=1';
+  const params: (string | number)[] = [];
+
+  if (options?.workspaceId !== undefined) {
+    query += ' AND workspace_id = ?';
+    params.push(options.workspaceId);
+  }
+
+  if (options?.status) {
+    query += ' AND status = ?';
+    params.push(options.status);
+  }
+
+  query += ' ORDER BY created_at DESC';
+
+  const stmt = db.prepare(query);
+  return (stmt.all(...params) as Record<string, unknown>[]).map(rowToSeries);
+}
+
+export function setSeriesStatus(id: number, from: SeriesStatus, to: SeriesStatus): boolean {
+  const stmt = db.prepare(`
+    UPDATE series SET status = ?, updated_at = datetime('now')
+    WHERE id = ? AND status = ?
+  `);
+  return stmt.run(to, id, from).changes > 0;
+}
+
+export function incrementSeriesOccurrences(id: number): void {
+  const stmt = db.prepare(`
+    UPDATE series SET occurrences = occurrences + 1, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(id);
+}
+
+export function deleteSeriesRow(id: number): boolean {
+  const stmt = db.prepare('DELETE FROM series WHERE id = ?');
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Cancel the pending occurrences of a series
+ * They were never published, so they no longer count towards its maximum.
+ */
+export function cancelSeriesJobs(seriesId: number): number {
+  const cancel = db.transaction(() => {
+    const changes = db
+      .prepare(`
+        UPDATE posts
+        SET status = 'failed', error_message = 'Cancelled by user', updated_at = datetime('now')
+        WHERE series_id = ? AND status = 'pending'
+      `)
+      .run(seriesId).changes;
+    if (changes > 0) {
+      db.prepare(`
+        UPDATE series SET occurrences = MAX(0, occurrences - ?), updated_at = datetime('now')
+        WHERE id = ?
+      `).run(changes, seriesId);
+    }
+    return changes;
+  });
+  return cancel();
+}
+
+// ============================================================================
+// CAMPAIGN OPERATIONS
+// ============================================================================
+
+export function addCampaignRow(campaign: {
+  name?: string;
+  contentJson: string;
+  scheduledAt: Date;
+  workspaceId?: number;
+  chatId?: number;
+}): number {
+  const stmt = db.prepare(`
+    INSERT INTO campaigns (name, content_json, scheduled_at, workspace_id, chat_id)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    campaign.name || null,
+    campaign.contentJson,
+    campaign.scheduledAt.toISOString(),
+    campaign.workspaceId ?? null,
+    campaign.chatId ?? null
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function getCampaignById(id: number): Campaign | null {
+  const stmt = db.prepare('SELECT * FROM campaigns WHERE id = ?');
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? rowToCampaign(row) : null;
+}
+
+export function listCampaignRows(options?: { workspaceId?: number; limit?: number }): Campaign[] {
+  let query = 'SELECT * FROM campaigns WHERE 1=1';
+  const params: number[] = [];
+
+  if (options?.workspaceId !== undefined) {
+    query += ' AND workspace_id = ?';
+    params.push(options.workspaceId);
+  }
+
+  query += ' ORDER BY created_at DESC';
+
+  if (options?.limit) {
+    query += ' LIMIT ?';
+    params.push(options.limit);
+  }
+
+  const stmt = db.prepare(query);
+  return (stmt.all(...params) as Record<string, unknown>[]).map(rowToCampaign);
+}
+
+export function getCampaignJobs(campaignId: number): ScheduledJob[] {
+  const stmt = db.prepare('SELECT * FROM posts WHERE campaign_id = ? ORDER BY id ASC');
+  return (stmt.all(campaignId) as Record<string, unknown>[]).map(rowToJob);
+}
+
 // ============================================================================
 // TOKEN CRUD OPERATIONS
 // ============================================================================
 
 export function saveToken(data: TokenData): void {
   const stmt = db.prepare(`
-    INSERT INTO tokens (platform, access_token, refresh_token, expires_at, updated_at)
-    VALUES (?, ?, ?, ?, datetime('now'))
-    ON CONFLICT(platform) DO UPDATE SET
+    INSERT INTO tokens (platform, account_id, display_name, access_token, refresh_token, expires_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(platform, account_id) DO UPDATE SET
+      display_name = COALESCE(excluded.display_name, tokens.display_name),
       access_token = excluded.access_token,
       refresh_token = excluded.refresh_token,
       expires_at = excluded.expires_at,
@@ -195,45 +692,434 @@ export function saveToken(data: TokenData): void {
   `);
   stmt.run(
     data.platform,
+    data.accountId,
+    data.displayName || null,
     data.accessToken,
     data.refreshToken || null,
     data.expiresAt ? data.expiresAt.toISOString() : null
   );
 }
 
-export function getToken(platform: string): TokenData | null {
-  const stmt = db.prepare('SELECT * FROM tokens WHERE platform = ?');
-  const row = stmt.get(platform) as Record<string, unknown> | undefined;
+/**
+ * Get the token for an account
+ * The selector matches an account ID or display name; without one the
+ * first connected account of the platform is used.
+ */
+export function getToken(platform: string, account?: string): TokenData | null {
+  const stmt = account
+    ? db.prepare(`
+        SELECT * FROM tokens
+        WHERE platform = ? AND (account_id = ? OR display_name = ? COLLATE NOCASE)
+        ORDER BY account_id = ? DESC
+        LIMIT 1
+      `)
+    : db.prepare('SELECT * FROM tokens WHERE platform = ? ORDER BY created_at ASC LIMIT 1');
+  const row = (account ? stmt.get(platform, account, account, account) : stmt.get(platform)) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? rowToToken(row) : null;
+}
+
+export function deleteToken(platform: string, accountId: string): boolean {
+  const stmt = db.prepare('DELETE FROM tokens WHERE platform = ? AND account_id = ?');
+  const result = stmt.run(platform, accountId);
+  return result.changes > 0;
+}
+
+export function listTokens(platform?: string): TokenData[] {
+  const stmt = platform
+    ? db.prepare('SELECT * FROM tokens WHERE platform = ? ORDER BY created_at')
+    : db.prepare('SELECT * FROM tokens ORDER BY platform, created_at');
+  const rows = (platform ? stmt.all(platform) : stmt.all()) as Record<string, unknown>[];
+  return rows.map(rowToToken);
+}
+
+// ============================================================================
+// MEDIA LINK OPERATIONS
+// ============================================================================
+
+export function saveMediaLink(id: string, filePath: string, expiresAt: Date): void {
+  const stmt = db.prepare(`
+    INSERT INTO media_links (id, file_path, expires_at)
+    VALUES (?, ?, ?)
+  `);
+  stmt.run(id, filePath, expiresAt.toISOString());
+}
+
+export function getMediaLink(id: string): { filePath: string; expiresAt: Date } | null {
+  const stmt = db.prepare('SELECT * FROM media_links WHERE id = ?');
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
   if (!row) return null;
 
   return {
-    platform: row.platform as string,
-    accessToken: row.access_token as string,
-    refreshToken: row.refresh_token as string | undefined,
-    expiresAt: row.expires_at ? new Date(row.expires_at as string) : undefined,
-    updatedAt: row.updated_at ? new Date(row.updated_at as string) : undefined,
+    filePath: row.file_path as string,
+    expiresAt: new Date(row.expires_at as string),
   };
 }
 
-export function deleteToken(platform: string): boolean {
-  const stmt = db.prepare('DELETE FROM tokens WHERE platform = ?');
-  const result = stmt.run(platform);
+export function deleteMediaLink(id: string): boolean {
+  const stmt = db.prepare('DELETE FROM media_links WHERE id = ?');
+  const result = stmt.run(id);
   return result.changes > 0;
 }
 
-export function listTokens(): TokenData[] {
-  const stmt = db.prepare('SELECT * FROM tokens ORDER BY platform');
-  return stmt.all().map((row) => ({
-    platform: (row as Record<string, unknown>).platform as string,
-    accessToken: (row as Record<string, unknown>).access_token as string,
-    refreshToken: (row as Record<string, unknown>).refresh_token as string | undefined,
-    expiresAt: (row as Record<string, unknown>).expires_at
-      ? new Date((row as Record<string, unknown>).expires_at as string)
-      : undefined,
-    updatedAt: (row as Record<string, unknown>).updated_at
-      ? new Date((row as Record<string, unknown>).updated_at as string)
-      : undefined,
-  }));
+export function deleteExpiredMediaLinks(): number {
+  const stmt = db.prepare('DELETE FROM media_links WHERE expires_at <= ?');
+  const result = stmt.run(new Date().toISOString());
+  return Number(result.changes);
+}
+
+// ============================================================================
+// UPLOAD SESSION OPERATIONS
+// ============================================================================
+
+export function saveUploadSession(session: {
+  platform: string;
+  accountId?: string;
+  filePath: string;
+  fileSize: number;
+  sessionUri: string;
+}): void {
+  const stmt = db.prepare(`
+    INSERT INTO upload_sessions (platform, file_path, account_id, file_size, session_uri)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(platform, file_path) DO UPDATE SET
+      account_id = excluded.account_id,
+      file_size = excluded.file_size,
+      session_uri = excluded.session_uri,
+      bytes_uploaded = 0,
+      created_at = datetime('now'),
+      updated_at = datetime('now')
+  `);
+  stmt.run(session.platform, session.filePath, session.accountId || null, session.fileSize, session.sessionUri);
+}
+
+export function getUploadSession(platform: string, filePath: string): UploadSession | null {
+  const stmt = db.prepare('SELECT * FROM upload_sessions WHERE platform = ? AND file_path = ?');
+  const row = stmt.get(platform, filePath) as Record<string, unknown> | undefined;
+  return row ? rowToUploadSession(row) : null;
+}
+
+export function listUploadSessions(platform: string): UploadSession[] {
+  const stmt = db.prepare('SELECT * FROM upload_sessions WHERE platform = ?');
+  return (stmt.all(platform) as Record<string, unknown>[]).map(rowToUploadSession);
+}
+
+export function updateUploadSessionOffset(platform: string, filePath: string, bytesUploaded: number): void {
+  const stmt = db.prepare(`
+    UPDATE upload_sessions
+    SET bytes_uploaded = ?, updated_at = datetime('now')
+    WHERE platform = ? AND file_path = ?
+  `);
+  stmt.run(bytesUploaded, platform, filePath);
+}
+
+export function deleteUploadSession(platform: string, filePath: string): boolean {
+  const stmt = db.prepare('DELETE FROM upload_sessions WHERE platform = ? AND file_path = ?');
+  const result = stmt.run(platform, filePath);
+  return result.changes > 0;
+}
+
+export function deleteOldUploadSessions(days: number): number {
+  const stmt = db.prepare(`DELETE FROM upload_sessions WHERE created_at < datetime('now', '-${days} days')`);
+  const result = stmt.run();
+  return Number(result.changes);
+}
+
+// ============================================================================
+// APPROVAL OPERATIONS
+// ============================================================================
+
+export function addApproval(
+  chatId: number,
+  tool: string,
+  platform: string,
+  argsJson: string,
+  workspaceId?: number
+): number {
+  const stmt = db.prepare(`
+    INSERT INTO approvals (chat_id, tool, platform, args_json, workspace_id)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(chatId, tool, platform, argsJson, workspaceId ?? null);
+  return Number(result.lastInsertRowid);
+}
+
+export function getApprovalById(id: number): PendingApproval | null {
+  const stmt = db.prepare('SELECT * FROM approvals WHERE id = ?');
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? rowToApproval(row) : null;
+}
+
+export function listPendingApprovals(chatId?: number): PendingApproval[] {
+  let query = "SELECT * FROM approvals WHERE status = 'pending'";
+  const params: number[] = [];
+
+  if (chatId !== undefined) {
+    query += ' AND chat_id = ?';
+    params.push(chatId);
+  }
+
+  const stmt = db.prepare(query + ' ORDER BY created_at ASC');
+  return (stmt.all(...params) as Record<string, unknown>[]).map(rowToApproval);
+}
+
+/**
+ * Approvals the user decided on whose publish or schedule never finished
+ */
+export function listStartedApprovals(): PendingApproval[] {
+  const stmt = db.prepare("SELECT * FROM approvals WHERE status = 'approved' ORDER BY updated_at ASC");
+  return (stmt.all() as Record<string, unknown>[]).map(rowToApproval);
+}
+
+/**
+ * Move a pending approval to 'approved', recording what the user chose
+ * Returns false if it was no longer pending (e.g. a double click)
+ */
+export function startApproval(id: number, decision: ApprovalDecision): boolean {
+  const stmt = db.prepare(`
+    UPDATE approvals
+    SET status = 'approved', decision = ?, updated_at = datetime('now')
+    WHERE id = ? AND status = 'pending'
+  `);
+  return stmt.run(decision, id).changes > 0;
+}
+
+export function updateApprovalArgs(id: number, argsJson: string): void {
+  const stmt = db.prepare(`
+    UPDATE approvals SET args_json = ?, updated_at = datetime('now') WHERE id = ?
+  `);
+  stmt.run(argsJson, id);
+}
+
+export function setApprovalMessageId(id: number, messageId: number): void {
+  const stmt = db.prepare(`
+    UPDATE approvals SET message_id = ?, updated_at = datetime('now') WHERE id = ?
+  `);
+  stmt.run(messageId, id);
+}
+
+/**
+ * Move an approval to a new status
+ * Returns false if it was not in the expected status (e.g. a double click)
+ */
+export function transitionApproval(
+  id: number,
+  from: ApprovalStatus,
+  to: ApprovalStatus,
+  resultJson?: string
+): boolean {
+  const stmt = db.prepare(`
+    UPDATE approvals
+    SET status = ?, result_json = COALESCE(?, result_json), updated_at = datetime('now')
+    WHERE id = ? AND status = ?
+  `);
+  const result = stmt.run(to, resultJson || null, id, from);
+  return result.changes > 0;
+}
+
+// ============================================================================
+// WORKSPACE OPERATIONS
+// ============================================================================
+
+export function addWorkspace(name: string, timezone?: string): number {
+  const stmt = db.prepare(`
+    INSERT INTO workspaces (name, timezone)
+    VALUES (?, ?)
+  `);
+  const result = stmt.run(name, timezone || null);
+  return Number(result.lastInsertRowid);
+}
+
+export function getWorkspaceById(id: number): Workspace | null {
+  const stmt = db.prepare('SELECT * FROM workspaces WHERE id = ?');
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? rowToWorkspace(row) : null;
+}
+
+export function getWorkspaceByName(name: string): Workspace | null {
+  const stmt = db.prepare('SELECT * FROM workspaces WHERE name = ?');
+  const row = stmt.get(name) as Record<string, unknown> | undefined;
+  return row ? rowToWorkspace(row) : null;
+}
+
+export function listWorkspaceRows(): Workspace[] {
+  const stmt = db.prepare('SELECT * FROM workspaces ORDER BY name');
+  return (stmt.all() as Record<string, unknown>[]).map(rowToWorkspace);
+}
+
+export function updateWorkspaceSettings(
+  id: number,
+  settings: {
+    timezone?: string;
+    defaultHashtags?: string[];
+    recommendations?: Record<string, PlatformRecommendation>;
+  }
+): void {
+  const stmt = db.prepare(`
+    UPDATE workspaces
+    SET timezone = COALESCE(?, timezone),
+        default_hashtags = COALESCE(?, default_hashtags),
+        recommendations_json = COALESCE(?, recommendations_json),
+        updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(
+    settings.timezone || null,
+    settings.defaultHashtags ? JSON.stringify(settings.defaultHashtags) : null,
+    settings.recommendations ? JSON.stringify(settings.recommendations) : null,
+    id
+  );
+}
+
+export function addWorkspaceAccount(workspaceId: number, platform: string, accountId: string): void {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO workspace_accounts (workspace_id, platform, account_id)
+    VALUES (?, ?, ?)
+  `);
+  stmt.run(workspaceId, platform, accountId);
+}
+
+export function removeWorkspaceAccount(workspaceId: number, platform: string, accountId: string): boolean {
+  const stmt = db.prepare(`
+    DELETE FROM workspace_accounts WHERE workspace_id = ? AND platform = ? AND account_id = ?
+  `);
+  const result = stmt.run(workspaceId, platform, accountId);
+  return result.changes > 0;
+}
+
+export function setChatWorkspace(chatId: number, workspaceId: number): void {
+  const stmt = db.prepare(`
+    INSERT INTO chat_workspaces (chat_id, workspace_id, updated_at)
+    VALUES (?, ?, datetime('now'))
+    ON CONFLICT(chat_id) DO UPDATE SET
+      workspace_id = excluded.workspace_id,
+      updated_at = datetime('now')
+  `);
+  stmt.run(chatId, workspaceId);
+}
+
+export function getChatWorkspaceId(chatId: number): number | null {
+  const stmt = db.prepare('SELECT workspace_id FROM chat_workspaces WHERE chat_id = ?');
+  const row = stmt.get(chatId) as { workspace_id: number } | undefined;
+  return row ? row.workspace_id : null;
+}
+
+// ============================================================================
+// CLAUDE SESSION OPERATIONS
+// ============================================================================
+
+// Workspace IDs are matched with IS so chats without a workspace share NULL
+
+export function addClaudeSession(
+  chatId: number,
+  workspaceId: number | undefined,
+  sessionId: string,
+  label: string,
+  usage: ClaudeUsage
+): number {
+  const now = new Date().toISOString();
+  const insert = db.transaction(() => {
+    deactivateClaudeSessions(chatId, workspaceId);
+    const stmt = db.prepare(`
+      INSERT INTO claude_sessions
+        (chat_id, workspace_id, session_id, label, cost_usd, input_tokens, output_tokens, created_at, last_activity)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    return stmt.run(
+      chatId,
+      workspaceId ?? null,
+      sessionId,
+      label,
+      usage.costUsd,
+      usage.inputTokens,
+      usage.outputTokens,
+      now,
+      now
+    );
+  });
+  return Number(insert().lastInsertRowid);
+}
+
+export function getClaudeSessionById(id: number): ClaudeSession | null {
+  const stmt = db.prepare('SELECT * FROM claude_sessions WHERE id = ?');
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? rowToClaudeSession(row) : null;
+}
+
+export function getActiveClaudeSession(chatId: number, workspaceId?: number): ClaudeSession | null {
+  const stmt = db.prepare(`
+    SELECT * FROM claude_sessions WHERE chat_id = ? AND workspace_id IS ? AND active = 1
+    ORDER BY last_activity DESC LIMIT 1
+  `);
+  const row = stmt.get(chatId, workspaceId ?? null) as Record<string, unknown> | undefined;
+  return row ? rowToClaudeSession(row) : null;
+}
+
+export function listClaudeSessionRows(chatId: number, workspaceId: number | undefined, limit: number): ClaudeSession[] {
+  const stmt = db.prepare(`
+    SELECT * FROM claude_sessions WHERE chat_id = ? AND workspace_id IS ?
+    ORDER BY last_activity DESC LIMIT ?
+  `);
+  return (stmt.all(chatId, workspaceId ?? null, limit) as Record<string, unknown>[]).map(rowToClaudeSession);
+}
+
+/**
+ * Record a reply in a session (the CLI may hand out a new session ID on --resume)
+ */
+export function touchClaudeSession(id: number, sessionId: string, usage: ClaudeUsage): void {
+  const stmt = db.prepare(`
+    UPDATE claude_sessions
+    SET session_id = ?,
+        cost_usd = cost_usd + ?,
+        input_tokens = input_tokens + ?,
+        output_tokens = output_tokens + ?,
+        last_activity = ?
+    WHERE id = ?
+  `);
+  stmt.run(sessionId, usage.costUsd, usage.inputTokens, usage.outputTokens, new Date().toISOString(), id);
+}
+
+/**
+ * Make a session the one new messages of its chat and workspace continue
+ */
+export function activateClaudeSession(id: number): boolean {
+  const session = getClaudeSessionById(id);
+  if (!session) return false;
+
+  db.transaction(() => {
+    deactivateClaudeSessions(session.chatId, session.workspaceId);
+    db.prepare('UPDATE claude_sessions SET active = 1, last_activity = ? WHERE id = ?').run(
+      new Date().toISOString(),
+      id
+    );
+  })();
+  return true;
+}
+
+export function deactivateClaudeSessions(chatId: number, workspaceId?: number): number {
+  const stmt = db.prepare(`
+    UPDATE claude_sessions SET active = 0 WHERE chat_id = ? AND workspace_id IS ? AND active = 1
+  `);
+  return stmt.run(chatId, workspaceId ?? null).changes;
+}
+
+// ============================================================================
+// ASSISTANT CONVERSATIONS
+// ============================================================================
+
+export function getAssistantConversation(sessionId: string): unknown[] | null {
+  const stmt = db.prepare('SELECT messages_json FROM assistant_conversations WHERE session_id = ?');
+  const row = stmt.get(sessionId) as { messages_json: string } | undefined;
+  return row ? (JSON.parse(row.messages_json) as unknown[]) : null;
+}
+
+export function saveAssistantConversation(sessionId: string, messages: unknown[]): void {
+  const stmt = db.prepare(`
+    INSERT INTO assistant_conversations (session_id, messages_json, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(session_id) DO UPDATE SET messages_json = excluded.messages_json, updated_at = excluded.updated_at
+  `);
+  stmt.run(sessionId, JSON.stringify(messages), new Date().toISOString());
 }
 
 // ============================================================================
@@ -245,18 +1131,135 @@ function rowToJob(row: Record<string, unknown>): ScheduledJob {
     id: row.id as number,
     platform: row.platform as string,
     action: row.action as string,
-    status: row.status as 'pending' | 'completed' | 'failed',
+    status: row.status as JobStatus,
     scheduledAt: row.scheduled_at ? new Date(row.scheduled_at as string) : new Date(),
     contentJson: row.content_json as string,
     filePath: row.file_path as string | undefined,
     resultJson: row.result_json as string | undefined,
     errorMessage: row.error_message as string | undefined,
     retryCount: row.retry_count as number,
+    nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at as string) : undefined,
+    workspaceId: (row.workspace_id as number | null) ?? undefined,
+    chatId: (row.chat_id as number | null) ?? undefined,
+    seriesId: (row.series_id as number | null) ?? undefined,
+    campaignId: (row.campaign_id as number | null) ?? undefined,
+    publishId: (row.publish_id as string | null) ?? undefined,
+    processingSince: row.processing_since ? new Date(row.processing_since as string) : undefined,
     createdAt: new Date(row.created_at as string),
     updatedAt: new Date(row.updated_at as string),
   };
 }
 
+function rowToSeries(row: Record<string, unknown>): RecurringSeries {
+  return {
+    id: row.id as number,
+    platform: row.platform as string,
+    action: row.action as string,
+    contentJson: row.content_json as string,
+    filePath: (row.file_path as string | null) ?? undefined,
+    rule: row.rule as string,
+    timezone: row.timezone as string,
+    startsAt: new Date(row.starts_at as string),
+    endsAt: row.ends_at ? new Date(row.ends_at as string) : undefined,
+    maxCount: (row.max_count as number | null) ?? undefined,
+    occurrences: row.occurrences as number,
+    status: row.status as SeriesStatus,
+    workspaceId: (row.workspace_id as number | null) ?? undefined,
+    chatId: (row.chat_id as number | null) ?? undefined,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+function rowToCampaign(row: Record<string, unknown>): Campaign {
+  return {
+    id: row.id as number,
+    name: (row.name as string | null) ?? undefined,
+    contentJson: row.content_json as string,
+    scheduledAt: new Date(row.scheduled_at as string),
+    workspaceId: (row.workspace_id as number | null) ?? undefined,
+    chatId: (row.chat_id as number | null) ?? undefined,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+function rowToToken(row: Record<string, unknown>): TokenData {
+  return {
+    platform: row.platform as string,
+    accountId: row.account_id as string,
+    displayName: (row.display_name as string | null) ?? undefined,
+    accessToken: row.access_token as string,
+    refreshToken: (row.refresh_token as string | null) ?? undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at as string) : undefined,
+    updatedAt: row.updated_at ? new Date(row.updated_at as string) : undefined,
+  };
+}
+
+function rowToUploadSession(row: Record<string, unknown>): UploadSession {
+  return {
+    platform: row.platform as string,
+    accountId: (row.account_id as string | null) ?? undefined,
+    filePath: row.file_path as string,
+    fileSize: row.file_size as number,
+    sessionUri: row.session_uri as string,
+    bytesUploaded: row.bytes_uploaded as number,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+function rowToWorkspace(row: Record<string, unknown>): Workspace {
+  const accounts = db
+    .prepare('SELECT platform, account_id FROM workspace_accounts WHERE workspace_id = ? ORDER BY created_at')
+    .all(row.id as number) as { platform: string; account_id: string }[];
+
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    timezone: (row.timezone as string | null) ?? undefined,
+    defaultHashtags: row.default_hashtags ? JSON.parse(row.default_hashtags as string) : [],
+    recommendations: row.recommendations_json
+      ? JSON.parse(row.recommendations_json as string)
+      : undefined,
+    accounts: accounts.map((a) => ({ platform: a.platform, accountId: a.account_id })),
+  };
+}
+
+function rowToApproval(row: Record<string, unknown>): PendingApproval {
+  return {
+    id: row.id as number,
+    chatId: row.chat_id as number,
+    tool: row.tool as string,
+    platform: row.platform as string,
+    argsJson: row.args_json as string,
+    status: row.status as ApprovalStatus,
+    decision: (row.decision as ApprovalDecision | null) ?? undefined,
+    messageId: (row.message_id as number | null) ?? undefined,
+    resultJson: (row.result_json as string | null) ?? undefined,
+    workspaceId: (row.workspace_id as number | null) ?? undefined,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+function rowToClaudeSession(row: Record<string, unknown>): ClaudeSession {
+  return {
+    id: row.id as number,
+    chatId: row.chat_id as number,
+    workspaceId: (row.workspace_id as number | null) ?? undefined,
+    sessionId: row.session_id as string,
+    label: row.label as string,
+    active: row.active === 1,
+    usage: {
+      costUsd: (row.cost_usd as number | null) ?? 0,
+      inputTokens: (row.input_tokens as number | null) ?? 0,
+      outputTokens: (row.output_tokens as number | null) ?? 0,
+    },
+    createdAt: new Date(row.created_at as string),
+    lastActivity: new Date(row.last_activity as string),
+  };
+}
+
 // ============================================================================
 // DATABASE HEALTH
 // ============================================================================
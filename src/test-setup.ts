@@ -0,0 +1,19 @@
+/**
+ * Test setup (preloaded by bun test, see bunfig.toml)
+ *
+ * Test files share their modules, so the database and UPLOADS_DIR are opened
+ * once for all of them. They live in a throwaway relay directory.
+ */
+
+import { afterAll } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dir = mkdtempSync(join(tmpdir(), 'relay-test-'));
+mkdirSync(join(dir, 'uploads'));
+process.env.RELAY_DIR = dir;
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
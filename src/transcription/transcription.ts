@@ -0,0 +1,114 @@
+/**
+ * Speech-to-text for voice messages
+ *
+ * Telegram voice messages are OGG/Opus files. They are converted with ffmpeg
+ * to 16 kHz mono WAV (what whisper.cpp expects) and handed to a local
+ * transcription provider, chosen with TRANSCRIPTION_PROVIDER:
+ *
+ * - whisper-cpp: the whisper.cpp CLI (WHISPER_CPP_PATH) with a ggml model (WHISPER_MODEL)
+ * - command: any tool printing the transcript to stdout (TRANSCRIPTION_COMMAND,
+ *   where {input} is replaced by the WAV path)
+ *
+ * Adding a backend means implementing TranscriptionProvider and listing it below.
+ */
+
+import { spawn } from 'bun';
+import { unlink } from 'fs/promises';
+
+const PROVIDER = process.env.TRANSCRIPTION_PROVIDER || 'whisper-cpp';
+const LANGUAGE = process.env.TRANSCRIPTION_LANGUAGE || 'auto';
+const TIMEOUT_MS = parseInt(process.env.TRANSCRIPTION_TIMEOUT || '120000', 10);
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const WHISPER_CPP_PATH = process.env.WHISPER_CPP_PATH || 'whisper-cli';
+const WHISPER_MODEL = process.env.WHISPER_MODEL || '';
+const TRANSCRIPTION_COMMAND = process.env.TRANSCRIPTION_COMMAND || '';
+
+export interface TranscriptionProvider {
+  name: string;
+  isConfigured: () => boolean;
+  // Transcribe a 16 kHz mono WAV file
+  transcribe: (wavPath: string, language: string) => Promise<string>;
+}
+
+/**
+ * Run a command and return its stdout
+ * Fails on a non-zero exit code or when it runs longer than TRANSCRIPTION_TIMEOUT.
+ */
+async function run(args: string[]): Promise<string> {
+  const proc = spawn(args, { stdout: 'pipe', stderr: 'pipe' });
+  const timer = setTimeout(() => proc.kill(), TIMEOUT_MS);
+
+  try {
+    const [output, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    if (exitCode !== 0) {
+      throw new Error(`${args[0]} exited with code ${exitCode}: ${stderr.trim().slice(-500)}`);
+    }
+    return output;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const whisperCppProvider: TranscriptionProvider = {
+  name: 'whisper-cpp',
+  isConfigured: () => !!WHISPER_MODEL,
+  transcribe: async (wavPath, language) => {
+    // -nt: no timestamps, -np: only the transcript on stdout
+    const output = await run([WHISPER_CPP_PATH, '-m', WHISPER_MODEL, '-f', wavPath, '-l', language, '-nt', '-np']);
+    return output.replace(/\s+/g, ' ');
+  },
+};
+
+const commandProvider: TranscriptionProvider = {
+  name: 'command',
+  isConfigured: () => !!TRANSCRIPTION_COMMAND,
+  transcribe: async (wavPath) => {
+    const args = TRANSCRIPTION_COMMAND.split(/\s+/)
+      .filter((arg) => arg)
+      .map((arg) => arg.replace('{input}', wavPath));
+    if (!TRANSCRIPTION_COMMAND.includes('{input}')) args.push(wavPath);
+    return run(args);
+  },
+};
+
+const PROVIDERS: TranscriptionProvider[] = [whisperCppProvider, commandProvider];
+
+/**
+ * Get the configured transcription provider, or null when voice messages cannot be transcribed
+ */
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  const provider = PROVIDERS.find((p) => p.name === PROVIDER);
+  return provider?.isConfigured() ? provider : null;
+}
+
+/**
+ * Convert an audio file to 16 kHz mono WAV
+ */
+async function convertToWav(inputPath: string): Promise<string> {
+  const wavPath = inputPath.replace(/\.[^./]+$/, '') + '.wav';
+  await run([FFMPEG_PATH, '-y', '-loglevel', 'error', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath]);
+  return wavPath;
+}
+
+/**
+ * Transcribe an audio file (e.g. a Telegram voice message)
+ * Returns the trimmed transcript, empty when no speech was recognized.
+ */
+export async function transcribeAudio(inputPath: string): Promise<string> {
+  const provider = getTranscriptionProvider();
+  if (!provider) {
+    throw new Error(`Transcription provider "${PROVIDER}" is not configured`);
+  }
+
+  const wavPath = await convertToWav(inputPath);
+  try {
+    const transcript = await provider.transcribe(wavPath, LANGUAGE);
+    return transcript.trim();
+  } finally {
+    await unlink(wavPath).catch(() => {});
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Platform limits checked before publishing or queuing
+ *
+ * Run with: bun test
+ */
+
+import { beforeAll, expect, test } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { ContentValidationError, assertValidContent, checkContent, validateContent } from './validation.js';
+
+let photo: string;
+let video: string;
+
+beforeAll(() => {
+  // Type and size are checked by extension and on disk; the content does not matter
+  photo = join(process.env.RELAY_DIR!, 'uploads', 'limits.jpg');
+  video = join(process.env.RELAY_DIR!, 'uploads', 'limits.mp4');
+  writeFileSync(photo, 'jpeg');
+  writeFileSync(video, 'mp4');
+});
+
+function fields(violations: { field: string }[]): string[] {
+  return violations.map((violation) => violation.field);
+}
+
+test('content within the limits passes', async () => {
+  expect(await validateContent('youtube', 'upload', { title: 'Tides', description: '#sea #sun' }, video)).toEqual([]);
+  expect(await validateContent('instagram', 'post', { caption: 'Tides', filePath: photo })).toEqual([]);
+});
+
+test('actions and platforms without content rules are not checked', async () => {
+  expect(await validateContent('youtube', 'list-playlists', {})).toEqual([]);
+  expect(await validateContent('myspace', 'post', { caption: 'x'.repeat(10_000) })).toEqual([]);
+});
+
+test('required fields are reported with what to add', async () => {
+  const violations = await validateContent('youtube', 'upload', {});
+  expect(fields(violations)).toEqual(['filePath', 'title']);
+  expect(violations[1].fix).toBe('Add title');
+});
+
+test('titles, captions and hashtags over the platform limits', async () => {
+  const [title] = await validateContent('youtube', 'upload', { title: 'x'.repeat(101) }, video);
+  expect(title.message).toBe('Title is 101 characters, YouTube allows 100');
+  expect(title.fix).toStartWith('Shorten it to 100 characters');
+
+  // Characters, not UTF-16 units: 2200 emoji are within the Instagram limit
+  expect(await validateContent('instagram', 'post', { caption: '🌊'.repeat(2200), filePath: photo })).toEqual([]);
+  const [caption] = await validateContent('instagram', 'post', { caption: 'x'.repeat(2201), filePath: photo });
+  expect(caption).toMatchObject({ field: 'caption', fix: 'Cut 1 characters' });
+
+  const tags = Array.from({ length: 16 }, (_, i) => `#tag${i}`).join(' ');
+  const [hashtags] = await validateContent('youtube', 'upload', { title: 'Tides', description: tags }, video);
+  expect(hashtags.message).toBe('16 hashtags, YouTube allows 15');
+});
+
+test('media of the wrong type and missing files', async () => {
+  const [type] = await validateContent('youtube', 'upload', { title: 'Tides' }, photo);
+  expect(type.message).toBe('limits.jpg is an image, this YouTube post needs video');
+
+  const [missing] = await validateContent('youtube', 'upload', { title: 'Tides' }, `${video}.gone`);
+  expect(missing.message).toBe('limits.mp4.gone not found');
+});
+
+test('carousels need 2 to 10 items', async () => {
+  const one = await validateContent('instagram', 'post', { items: [{ filePath: photo }] });
+  expect(one[0].message).toBe('1 items, a Instagram carousel needs at least 2');
+
+  const items = Array.from({ length: 11 }, () => ({ filePath: photo }));
+  const eleven = await validateContent('instagram', 'post', { items });
+  expect(eleven[0].message).toBe('11 items, Instagram allows 10');
+});
+
+test('failed checks come back as a final result or a ContentValidationError', async () => {
+  const result = await checkContent('youtube', 'upload', { title: 'x'.repeat(101) }, video);
+  expect(result).toMatchObject({ success: false, platform: 'youtube', action: 'upload', retryable: false });
+  expect(result!.error).toStartWith('Content does not meet the YouTube requirements:\n- Title is 101 characters');
+  expect(await checkContent('youtube', 'upload', { title: 'Tides' }, video)).toBeNull();
+
+  const error = await assertValidContent('youtube', 'upload', {}).catch((e) => e);
+  expect(error).toBeInstanceOf(ContentValidationError);
+  expect(error.violations).toHaveLength(2);
+});
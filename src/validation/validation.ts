@@ -0,0 +1,295 @@
+/**
+ * Content validation before publishing or queuing
+ *
+ * Checks the arguments of a skill action against the platform's limits and
+ * the rules its adapter declares for that action (contentRules): required
+ * fields, title and caption length, hashtag count, media type, file size,
+ * video duration and aspect ratio. Every violation comes with a suggested
+ * fix, so a post can be corrected before the platform API rejects it.
+ */
+
+import { stat } from 'fs/promises';
+import { basename } from 'path';
+import { getPlatform } from '../platforms/registry.js';
+import { getMimeType } from '../media/hosting.js';
+import { probeMedia } from '../media/probe.js';
+import { canTranscode, getMediaSpec } from '../media/transcode.js';
+import type {
+  ContentRules,
+  ContentViolation,
+  MediaSpec,
+  PlatformAdapter,
+  SkillResult,
+} from '../platforms/types.js';
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+
+/**
+ * Thrown when content is rejected before it is queued
+ */
+export class ContentValidationError extends Error {
+  constructor(
+    readonly platform: string,
+    readonly action: string,
+    readonly violations: ContentViolation[]
+  ) {
+    super(formatViolations(platform, violations));
+    this.name = 'ContentValidationError';
+  }
+}
+
+function isSet(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
+}
+
+function length(text: string): number {
+  return [...text].length;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m${rest ? ` ${rest}s` : ''}` : `${rest}s`;
+}
+
+function formatRatio(ratio: number): string {
+  return `${Number(ratio.toFixed(2))}:1`;
+}
+
+/**
+ * Kind of a local media file, by extension
+ */
+function getFileKind(filePath: string): 'image' | 'video' | undefined {
+  const mimeType = getMimeType(filePath);
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  return undefined;
+}
+
+/**
+ * Check text lengths and hashtags
+ */
+function checkText(
+  adapter: PlatformAdapter,
+  rules: ContentRules,
+  args: Record<string, unknown>,
+  violations: ContentViolation[]
+): void {
+  const { limits, displayName } = adapter;
+
+  const title = rules.titleField ? args[rules.titleField] : undefined;
+  if (typeof title === 'string' && limits.titleLength && length(title) > limits.titleLength) {
+    violations.push({
+      field: rules.titleField!,
+      message: `Title is ${length(title)} characters, ${displayName} allows ${limits.titleLength}`,
+      fix: `Shorten it to ${limits.titleLength} characters, e.g. "${[...title].slice(0, limits.titleLength - 1).join('').trim()}…"`,
+    });
+  }
+
+  let hashtags = 0;
+  for (const field of rules.textFields || []) {
+    const text = args[field];
+    if (typeof text !== 'string') continue;
+    hashtags += text.match(HASHTAG_PATTERN)?.length || 0;
+
+    if (field !== rules.titleField && limits.captionLength && length(text) > limits.captionLength) {
+      violations.push({
+        field,
+        message: `${field} is ${length(text)} characters, ${displayName} allows ${limits.captionLength}`,
+        fix: `Cut ${length(text) - limits.captionLength} characters`,
+      });
+    }
+  }
+
+  if (limits.hashtags && hashtags > limits.hashtags) {
+    violations.push({
+      field: rules.textFields![0],
+      message: `${hashtags} hashtags, ${displayName} allows ${limits.hashtags}`,
+      fix: `Remove ${hashtags - limits.hashtags} hashtags`,
+    });
+  }
+}
+
+/**
+ * Check one local media file: type, size, duration and aspect ratio
+ * Whatever the media spec of the action fixes when the file is converted
+ * before the upload (src/media/transcode.ts) is not checked.
+ */
+async function checkFile(
+  adapter: PlatformAdapter,
+  rules: ContentRules,
+  spec: MediaSpec | null,
+  field: string,
+  filePath: string,
+  violations: ContentViolation[]
+): Promise<void> {
+  const { limits, displayName } = adapter;
+  const name = basename(filePath);
+  const converted = spec && canTranscode(filePath) ? spec : null;
+
+  let size: number;
+  try {
+    size = (await stat(filePath)).size;
+  } catch {
+    violations.push({ field, message: `${name} not found`, fix: 'Send the file again' });
+    return;
+  }
+
+  // Unknown extensions are left to the platform
+  const kind = getFileKind(filePath);
+  if (kind && rules.fileTypes && !rules.fileTypes.includes(kind)) {
+    violations.push({
+      field,
+      message: `${name} is ${kind === 'image' ? 'an image' : 'a video'}, this ${displayName} post needs ${rules.fileTypes.join(' or ')}`,
+      fix: `Send ${rules.fileTypes.map((type) => (type === 'image' ? 'an image' : 'a video')).join(' or ')} instead`,
+    });
+    return;
+  }
+
+  if (limits.fileSize && size > limits.fileSize && !(kind === 'video' && converted?.maxFileSize)) {
+    violations.push({
+      field,
+      message: `${name} is ${formatSize(size)}, ${displayName} allows ${formatSize(limits.fileSize)}`,
+      fix: kind === 'video' ? 'Compress or trim the video' : 'Compress the image',
+    });
+  }
+
+  const maxDuration = converted?.maxDuration ? undefined : (rules.videoDuration ?? limits.videoDuration);
+  const aspectRatio = converted?.aspectRatio ? undefined : rules.aspectRatio;
+  if (!aspectRatio && !(kind === 'video' && maxDuration)) return;
+
+  const info = await probeMedia(filePath);
+  if (!info) return;
+
+  if (kind === 'video' && maxDuration && info.duration && info.duration > maxDuration) {
+    violations.push({
+      field,
+      message: `${name} runs ${formatDuration(info.duration)}, ${displayName} allows ${formatDuration(maxDuration)}`,
+      fix: `Trim it to ${formatDuration(maxDuration)}`,
+    });
+  }
+
+  if (aspectRatio && info.width && info.height) {
+    const ratio = info.width / info.height;
+    const { min, max } = aspectRatio;
+    if (ratio < min - 0.01 || ratio > max + 0.01) {
+      const accepted = min === max ? formatRatio(min) : `${formatRatio(min)} to ${formatRatio(max)}`;
+      violations.push({
+        field,
+        message: `${name} is ${info.width}x${info.height} (${formatRatio(ratio)}), ${displayName} accepts ${accepted}`,
+        fix: `Crop it to ${formatRatio(ratio < min ? min : max)}`,
+      });
+    }
+  }
+}
+
+/**
+ * Check the arguments of a skill action before it runs or is queued
+ * Returns no violations for platforms and actions without content rules.
+ */
+export async function validateContent(
+  platform: string,
+  action: string,
+  args: object,
+  filePath?: string
+): Promise<ContentViolation[]> {
+  const adapter = getPlatform(platform);
+  const values: Record<string, unknown> = filePath ? { ...args, filePath } : { ...args };
+  const rules = adapter?.contentRules?.(action, values);
+  if (!adapter || !rules) return [];
+  const spec = getMediaSpec(platform, action, values);
+
+  const violations: ContentViolation[] = [];
+
+  for (const alternatives of rules.required || []) {
+    if (!alternatives.some((field) => isSet(values[field]))) {
+      violations.push({
+        field: alternatives[0],
+        message: `${alternatives.join(' or ')} is required`,
+        fix: `Add ${alternatives.join(' or ')}`,
+      });
+    }
+  }
+
+  checkText(adapter, rules, values, violations);
+
+  const items = Array.isArray(values.items) ? (values.items as { filePath?: string }[]) : [];
+  if (items.length > 0) {
+    if (rules.minItems && items.length < rules.minItems) {
+      violations.push({
+        field: 'items',
+        message: `${items.length} items, a ${adapter.displayName} carousel needs at least ${rules.minItems}`,
+        fix: `Add ${rules.minItems - items.length} more, or post a single item`,
+      });
+    }
+    if (adapter.limits.carouselItems && items.length > adapter.limits.carouselItems) {
+      violations.push({
+        field: 'items',
+        message: `${items.length} items, ${adapter.displayName} allows ${adapter.limits.carouselItems}`,
+        fix: `Remove ${items.length - adapter.limits.carouselItems} items or split them into several posts`,
+      });
+    }
+  }
+
+  const files = [
+    { field: 'filePath', path: values.filePath as string | undefined },
+    ...items.map((item, index) => ({ field: `items[${index}].filePath`, path: item.filePath })),
+  ];
+  for (const file of files) {
+    if (file.path) await checkFile(adapter, rules, spec, file.field, file.path, violations);
+  }
+
+  return violations;
+}
+
+/**
+ * Format violations with their suggested fixes
+ */
+export function formatViolations(platform: string, violations: ContentViolation[]): string {
+  const name = getPlatform(platform)?.displayName || platform;
+  const lines = violations.map((v) => `- ${v.message}${v.fix ? ` → ${v.fix}` : ''}`);
+  return `Content does not meet the ${name} requirements:\n${lines.join('\n')}`;
+}
+
+/**
+ * Validate the arguments of a skill action
+ * Returns a failed result listing the violations, or null when the content is fine.
+ */
+export async function checkContent(
+  platform: string,
+  action: string,
+  args: object,
+  filePath?: string
+): Promise<SkillResult | null> {
+  const violations = await validateContent(platform, action, args, filePath);
+  if (violations.length === 0) return null;
+
+  return {
+    success: false,
+    platform,
+    action,
+    error: formatViolations(platform, violations),
+    violations,
+    retryable: false,
+  };
+}
+
+/**
+ * Throw a ContentValidationError when the arguments of a skill action are invalid
+ */
+export async function assertValidContent(
+  platform: string,
+  action: string,
+  args: object,
+  filePath?: string
+): Promise<void> {
+  const violations = await validateContent(platform, action, args, filePath);
+  if (violations.length > 0) {
+    throw new ContentValidationError(platform, action, violations);
+  }
+}
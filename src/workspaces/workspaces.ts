@@ -0,0 +1,144 @@
+/**
+ * Client/brand workspaces
+ *
+ * A workspace groups the connected accounts, timezone, default hashtags and
+ * posting recommendations of one client. Each Telegram chat has an active
+ * workspace; prompts, the queue and recommendations are scoped to it.
+ */
+
+import {
+  addWorkspace,
+  getWorkspaceById,
+  getWorkspaceByName,
+  listWorkspaceRows,
+  updateWorkspaceSettings,
+  addWorkspaceAccount,
+  removeWorkspaceAccount,
+  setChatWorkspace,
+  getChatWorkspaceId,
+} from '../storage/db.js';
+import type { Workspace, PlatformRecommendation } from '../platforms/types.js';
+
+/**
+ * Check that a timezone is a valid IANA name (e.g. Europe/Paris)
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a workspace
+ */
+export function createWorkspace(name: string, timezone?: string): Workspace {
+  if (getWorkspaceByName(name)) {
+    throw new Error(`Workspace "${name}" already exists`);
+  }
+  if (timezone && !isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone: ${timezone}`);
+  }
+
+  return getWorkspaceById(addWorkspace(name, timezone))!;
+}
+
+/**
+ * Get a workspace by ID or name
+ */
+export function getWorkspace(idOrName: number | string): Workspace | null {
+  return typeof idOrName === 'number' ? getWorkspaceById(idOrName) : getWorkspaceByName(idOrName);
+}
+
+/**
+ * List all workspaces
+ */
+export function listWorkspaces(): Workspace[] {
+  return listWorkspaceRows();
+}
+
+/**
+ * Update workspace settings (only the given fields change)
+ */
+export function updateWorkspace(
+  id: number,
+  settings: {
+    timezone?: string;
+    defaultHashtags?: string[];
+    recommendations?: Record<string, PlatformRecommendation>;
+  }
+): Workspace | null {
+  if (settings.timezone && !isValidTimezone(settings.timezone)) {
+    throw new Error(`Unknown timezone: ${settings.timezone}`);
+  }
+
+  updateWorkspaceSettings(id, settings);
+  return getWorkspaceById(id);
+}
+
+/**
+ * Connect a platform account to a workspace
+ */
+export function linkAccount(workspaceId: number, platform: string, accountId: string): void {
+  addWorkspaceAccount(workspaceId, platform.toLowerCase(), accountId);
+}
+
+/**
+ * Disconnect a platform account from a workspace
+ */
+export function unlinkAccount(workspaceId: number, platform: string, accountId: string): boolean {
+  return removeWorkspaceAccount(workspaceId, platform.toLowerCase(), accountId);
+}
+
+/**
+ * Switch the active workspace of a chat
+ */
+export function setActiveWorkspace(chatId: number, workspaceId: number): void {
+  setChatWorkspace(chatId, workspaceId);
+}
+
+/**
+ * Get the active workspace of a chat (null when none is selected)
+ */
+export function getActiveWorkspace(chatId: number): Workspace | null {
+  const workspaceId = getChatWorkspaceId(chatId);
+  return workspaceId !== null ? getWorkspaceById(workspaceId) : null;
+}
+
+/**
+ * Check that a job, series or campaign can be managed from a workspace
+ * Without a workspace everything is in reach, as in the queue listings.
+ */
+export function isInWorkspace(item: { workspaceId?: number }, workspaceId?: number): boolean {
+  return workspaceId === undefined || item.workspaceId === workspaceId;
+}
+
+/**
+ * Get the account a workspace uses on a platform
+ * Returns the first linked account, or undefined to fall back to the default.
+ */
+export function getWorkspaceAccount(workspace: Workspace | null, platform: string): string | undefined {
+  return workspace?.accounts.find((account) => account.platform === platform.toLowerCase())?.accountId;
+}
+
+/**
+ * Check that an account named for a platform is linked to the workspace
+ * Throws for any other account, so a post never lands on another client's.
+ */
+export function assertWorkspaceAccount(workspace: Workspace | null, platform: string, accountId: unknown): void {
+  if (!workspace || accountId === undefined || accountId === null || accountId === '') return;
+
+  const linked = workspace.accounts
+    .filter((account) => account.platform === platform.toLowerCase())
+    .map((account) => account.accountId);
+  if (linked.includes(String(accountId))) return;
+
+  throw new Error(
+    `${platform} account ${accountId} is not linked to workspace ${workspace.name}. ` +
+      (linked.length > 0
+        ? `Use one of: ${linked.join(', ')}`
+        : `Link it with /workspace link ${platform.toLowerCase()} ${accountId}`)
+  );
+}